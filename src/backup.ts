@@ -0,0 +1,395 @@
+/*
+ * Workspace backup to a local directory tree
+ *
+ * Layout written by exportWorkspace():
+ *   <outDir>/manifest.json      doc ids, titles, timestamps, files and blob mapping
+ *   <outDir>/docs/<docId>.md    rendered Markdown (or .ydoc raw Yjs update)
+ *   <outDir>/blobs/<key>        blobs referenced by image/attachment blocks
+ *
+ * Exports are resumable: docs whose `updatedAt` matches the previous manifest
+ * (and whose file is still present) are skipped, and the manifest is rewritten
+ * after every doc so an interrupted run keeps its progress.
+ *
+ * importWorkspace() goes the other way for a directory of Markdown files. A
+ * mapping file (relative path -> docId) makes re-imports update the same docs
+ * in place, as `doc sync` does, instead of creating duplicates; local images
+ * are uploaded as blobs.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { HttpOptions } from './http';
+import { listDocs, type DocNode } from './graphql';
+import { contentAlias, get as getBlob, lookupAlias, registerAlias, upload as uploadBlob } from './blobs';
+import { createDoc, editDoc, editWorkspaceRoot, loadDoc, RealtimeSession, SocketIoTransport, type RealtimeTransport } from './yjs';
+import { collectBlobIds, getY, plainText, readPageTree, type BlockSpec } from './blocks';
+import { parseMarkdownPage, renderMarkdown } from './markdown';
+import { addDocToCollection, addPageTag, ensureTag, upsertPageMeta } from './meta';
+import { applySync, planSync } from './sync';
+
+export type ExportFormat = 'md' | 'ydoc';
+
+export type ManifestDoc = {
+  id: string;
+  title: string;
+  createdAt?: string | null;
+  updatedAt?: string | null;
+  path: string;
+  blobs: string[];
+};
+
+export type Manifest = {
+  version: 1;
+  workspaceId: string;
+  format: ExportFormat;
+  exportedAt: string;
+  docs: Record<string, ManifestDoc>;
+  blobs: Record<string, string>;
+};
+
+export type ExportProgress =
+  | { type: 'exported'; docId: string; title: string }
+  | { type: 'skipped'; docId: string; title: string }
+  | { type: 'failed'; docId: string; error: string };
+
+export type ExportWorkspaceOptions = HttpOptions & {
+  workspaceId: string;
+  outDir: string;
+  format?: ExportFormat;
+  pageSize?: number;
+  /** Realtime transport to reuse for all docs (a Socket.IO transport is opened otherwise). */
+  transport?: RealtimeTransport;
+  onProgress?: (event: ExportProgress) => void;
+};
+
+export type ExportWorkspaceResult = {
+  manifestPath: string;
+  total: number;
+  exported: number;
+  skipped: number;
+  blobs: number;
+  failed: { id: string; error: string }[];
+};
+
+const MANIFEST_FILE = 'manifest.json';
+
+async function exists(p: string): Promise<boolean> {
+  try {
+    await fs.access(p);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function readManifest(file: string): Promise<Manifest | undefined> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(file, 'utf8'));
+    if (parsed && typeof parsed === 'object' && parsed.docs && typeof parsed.docs === 'object') return parsed as Manifest;
+  } catch {
+    // missing or unreadable manifest: start from scratch
+  }
+  return undefined;
+}
+
+async function writeJsonAtomic(file: string, data: unknown): Promise<void> {
+  // Write-then-rename so an interrupted run never leaves a truncated manifest/mapping.
+  const tmp = `${file}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data, null, 2), 'utf8');
+  await fs.rename(tmp, file);
+}
+
+/** Page through listDocs until the server reports no further pages. */
+export async function listAllDocs(workspaceId: string, pageSize = 100, opts?: HttpOptions): Promise<DocNode[]> {
+  const out: DocNode[] = [];
+  let after: string | undefined;
+  for (;;) {
+    const conn = await listDocs(workspaceId, pageSize, after, opts);
+    for (const e of conn.edges ?? []) out.push(e.node);
+    const next = conn.pageInfo?.endCursor ?? undefined;
+    if (!conn.pageInfo?.hasNextPage || !next || next === after) break;
+    after = next;
+  }
+  return out;
+}
+
+export async function exportWorkspace(opts: ExportWorkspaceOptions): Promise<ExportWorkspaceResult> {
+  const { workspaceId, outDir } = opts;
+  const format: ExportFormat = opts.format ?? 'md';
+  const manifestPath = path.join(outDir, MANIFEST_FILE);
+  await fs.mkdir(path.join(outDir, 'docs'), { recursive: true });
+  await fs.mkdir(path.join(outDir, 'blobs'), { recursive: true });
+
+  const previous = await readManifest(manifestPath);
+  const manifest: Manifest = {
+    version: 1,
+    workspaceId,
+    format,
+    exportedAt: new Date().toISOString(),
+    docs: previous?.format === format ? { ...previous.docs } : {},
+    blobs: { ...(previous?.blobs ?? {}) },
+  };
+
+  const nodes = await listAllDocs(workspaceId, opts.pageSize, opts);
+  const result: ExportWorkspaceResult = { manifestPath, total: nodes.length, exported: 0, skipped: 0, blobs: 0, failed: [] };
+
+  // One connection and one join for every doc; nothing connects when all docs are skipped
+  const session = new RealtimeSession({ ...opts, workspaceId });
+  try {
+    const Y = await getY();
+
+    for (const node of nodes) {
+      const prev = manifest.docs[node.id];
+      if (prev && node.updatedAt && prev.updatedAt === node.updatedAt && (await exists(path.join(outDir, prev.path)))) {
+        result.skipped++;
+        opts.onProgress?.({ type: 'skipped', docId: node.id, title: prev.title });
+        continue;
+      }
+
+      try {
+        const doc = await loadDoc({ ...opts, workspaceId, docId: node.id, session });
+        const page = readPageTree(doc);
+        const blobs = page ? collectBlobIds(page) : [];
+        const title = node.title || (page ? plainText(page.props?.title) : '') || '';
+        const rel = path.posix.join('docs', `${node.id}.${format}`);
+        if (format === 'md') {
+          const markdown = page ? renderMarkdown(page, { blobUrl: (key) => `../blobs/${encodeURIComponent(key)}` }) : '';
+          await fs.writeFile(path.join(outDir, rel), markdown, 'utf8');
+        } else {
+          await fs.writeFile(path.join(outDir, rel), Buffer.from(Y.encodeStateAsUpdate(doc)));
+        }
+
+        for (const key of blobs) {
+          const blobRel = path.posix.join('blobs', encodeURIComponent(key));
+          if (manifest.blobs[key] && (await exists(path.join(outDir, blobRel)))) continue;
+          await getBlob(workspaceId, key, { ...opts, outPath: path.join(outDir, blobRel) });
+          manifest.blobs[key] = blobRel;
+          result.blobs++;
+        }
+
+        manifest.docs[node.id] = {
+          id: node.id,
+          title,
+          createdAt: node.createdAt ?? null,
+          updatedAt: node.updatedAt ?? null,
+          path: rel,
+          blobs,
+        };
+        result.exported++;
+        opts.onProgress?.({ type: 'exported', docId: node.id, title });
+      } catch (e: any) {
+        const error = String(e?.message || e);
+        result.failed.push({ id: node.id, error });
+        opts.onProgress?.({ type: 'failed', docId: node.id, error });
+      } finally {
+        // Exported docs are not needed again; keep memory flat on large workspaces
+        session.forget(node.id);
+      }
+      await writeJsonAtomic(manifestPath, manifest);
+    }
+
+    // Forget docs that no longer exist server-side (files are left in place).
+    const live = new Set(nodes.map((n) => n.id));
+    for (const id of Object.keys(manifest.docs)) if (!live.has(id)) delete manifest.docs[id];
+    await writeJsonAtomic(manifestPath, manifest);
+  } finally {
+    await session.close();
+  }
+
+  return result;
+}
+
+export type FolderMode = 'none' | 'tags' | 'collections';
+
+export type ImportMapping = {
+  version: 1;
+  workspaceId: string;
+  /** Keyed by POSIX path relative to the import directory. */
+  docs: Record<string, { docId: string; title: string; importedAt: string }>;
+};
+
+export type ImportProgress =
+  | { type: 'created'; path: string; docId: string; title: string }
+  | { type: 'updated'; path: string; docId: string; title: string }
+  | { type: 'failed'; path: string; error: string };
+
+export type ImportWorkspaceOptions = HttpOptions & {
+  workspaceId: string;
+  dir: string;
+  /** Defaults to `<dir>/.affine-import.json`. */
+  mappingPath?: string;
+  /** Map sub-folders onto tags or collections (default: ignore folders). */
+  folders?: FolderMode;
+  transport?: RealtimeTransport;
+  onProgress?: (event: ImportProgress) => void;
+};
+
+export type ImportWorkspaceResult = {
+  mappingPath: string;
+  total: number;
+  created: number;
+  updated: number;
+  blobs: number;
+  failed: { path: string; error: string }[];
+};
+
+export const MAPPING_FILE = '.affine-import.json';
+
+async function readMapping(file: string, workspaceId: string): Promise<ImportMapping> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(file, 'utf8'));
+    if (parsed && parsed.workspaceId === workspaceId && parsed.docs && typeof parsed.docs === 'object') {
+      return parsed as ImportMapping;
+    }
+  } catch {
+    // missing or unreadable mapping: every file is new
+  }
+  return { version: 1, workspaceId, docs: {} };
+}
+
+/** Markdown files under `dir` as sorted POSIX relative paths; dot-files and dot-dirs are skipped. */
+export async function listMarkdownFiles(dir: string): Promise<string[]> {
+  const out: string[] = [];
+  const walk = async (rel: string) => {
+    const entries = await fs.readdir(path.join(dir, rel), { withFileTypes: true });
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+      const child = rel ? path.posix.join(rel, entry.name) : entry.name;
+      if (entry.isDirectory()) await walk(child);
+      else if (entry.isFile() && /\.(md|markdown)$/i.test(entry.name)) out.push(child);
+    }
+  };
+  await walk('');
+  return out.sort();
+}
+
+// Blob keys are content hashes, possibly with an extension; a plain `diagram.png` is a missing file.
+const looksLikeBlobKey = (target: string) =>
+  !target.includes('/') && (!path.extname(target) || /^[A-Za-z0-9_-]{32,}={0,2}(\.[A-Za-z0-9]+)?$/.test(target));
+
+/**
+ * Resolve `affine:image` specs parsed from Markdown (recursively, in place):
+ * local files are uploaded and replaced by their blob key, missing targets that
+ * look like a blob key are kept as is, and remote URLs become a link paragraph
+ * since the server cannot fetch them. Files uploaded before (from this
+ * machine, matched by content hash) reuse their key instead of being uploaded
+ * again; with `dryRun` nothing is uploaded and files without a known key keep
+ * their path. `uploaded` caches keys by absolute path across files. Returns
+ * the number of blobs uploaded.
+ */
+export async function resolveImageBlocks(
+  specs: BlockSpec[],
+  baseDir: string,
+  workspaceId: string,
+  opts?: HttpOptions & { dryRun?: boolean },
+  uploaded: Map<string, string> = new Map(),
+): Promise<number> {
+  let count = 0;
+  for (const spec of specs) {
+    if (spec.children?.length) count += await resolveImageBlocks(spec.children, baseDir, workspaceId, opts, uploaded);
+    if (spec.flavour !== 'affine:image') continue;
+    const src = String(spec.props?.sourceId ?? '');
+    const caption = String(spec.props?.caption ?? '');
+    if (/^[a-z][a-z0-9+.-]*:/i.test(src)) {
+      spec.flavour = 'affine:paragraph';
+      spec.props = { type: 'text', collapsed: false };
+      spec.text = [{ insert: caption || src, attributes: { link: src } }];
+      continue;
+    }
+    let rel = src;
+    try {
+      rel = decodeURIComponent(src);
+    } catch {
+      // keep the raw target
+    }
+    const abs = path.resolve(baseDir, rel);
+    let key = uploaded.get(abs);
+    if (!key) {
+      if (!(await exists(abs))) {
+        if (looksLikeBlobKey(rel)) continue; // already a blob key
+        throw new Error(`image not found: ${src}`);
+      }
+      const alias = contentAlias(await fs.readFile(abs));
+      key = await lookupAlias(workspaceId, alias);
+      if (!key) {
+        if (opts?.dryRun) continue;
+        key = (await uploadBlob(workspaceId, path.basename(abs), abs, opts)).key;
+        await registerAlias(workspaceId, alias, key).catch(() => undefined);
+        count++;
+      }
+      uploaded.set(abs, key);
+    }
+    spec.props = { ...spec.props, sourceId: key };
+  }
+  return count;
+}
+
+export async function importWorkspace(opts: ImportWorkspaceOptions): Promise<ImportWorkspaceResult> {
+  const { workspaceId, dir } = opts;
+  const folders: FolderMode = opts.folders ?? 'none';
+  const mappingPath = opts.mappingPath ?? path.join(dir, MAPPING_FILE);
+  const mapping = await readMapping(mappingPath, workspaceId);
+  const files = await listMarkdownFiles(dir);
+  const result: ImportWorkspaceResult = { mappingPath, total: files.length, created: 0, updated: 0, blobs: 0, failed: [] };
+  const uploaded = new Map<string, string>();
+
+  const transport = opts.transport ?? new SocketIoTransport({ ...opts, workspaceId });
+  const needClose = !opts.transport;
+  try {
+    await transport.connect();
+    const realtime = { ...opts, workspaceId, transport };
+
+    for (const rel of files) {
+      try {
+        const abs = path.join(dir, rel);
+        const parsed = parseMarkdownPage(await fs.readFile(abs, 'utf8'));
+        const title = parsed.title ?? path.posix.basename(rel).replace(/\.(md|markdown)$/i, '');
+        result.blobs += await resolveImageBlocks(parsed.blocks, path.dirname(abs), workspaceId, opts, uploaded);
+
+        let docId: string | undefined = mapping.docs[rel]?.docId;
+        let type: 'created' | 'updated' = 'updated';
+        if (docId) {
+          try {
+            // Patch the existing doc like `doc sync` so unchanged blocks keep their ids (and comments and links on them)
+            await editDoc({ ...realtime, docId }, (doc) => applySync(doc, planSync(doc, { title, blocks: parsed.blocks })));
+          } catch (e: any) {
+            // The mapped doc was deleted server-side: import it again as a new doc.
+            if (!/not found or empty/.test(String(e?.message))) throw e;
+            docId = undefined;
+          }
+        }
+        if (!docId) {
+          // The root meta step below writes the page-list entry, together with the folder tag
+          docId = (await createDoc({ ...realtime, title, blocks: parsed.blocks, register: false })).docId;
+          type = 'created';
+        }
+        // Record the doc before the root meta step so a re-run updates it instead of creating another
+        mapping.docs[rel] = { docId, title, importedAt: new Date().toISOString() };
+
+        const folder = path.posix.dirname(rel);
+        const id = docId;
+        await editWorkspaceRoot(realtime, async (root) => {
+          await upsertPageMeta(root, id, { title });
+          if (folder === '.' || folders === 'none') return;
+          if (folders === 'tags') await addPageTag(root, id, (await ensureTag(root, folder)).id);
+          else await addDocToCollection(root, folder, id);
+        });
+
+        if (type === 'created') result.created++;
+        else result.updated++;
+        opts.onProgress?.({ type, path: rel, docId, title });
+      } catch (e: any) {
+        const error = String(e?.message || e);
+        result.failed.push({ path: rel, error });
+        opts.onProgress?.({ type: 'failed', path: rel, error });
+      }
+      await writeJsonAtomic(mappingPath, mapping);
+    }
+  } finally {
+    if (needClose) await transport.close();
+  }
+
+  return result;
+}
+
+export default { listAllDocs, exportWorkspace, listMarkdownFiles, resolveImageBlocks, importWorkspace };
@@ -0,0 +1,145 @@
+/**
+ * NDJSON batch runner for `affine doc batch`
+ *
+ * Each input line is one operation, executed in order over a single
+ * RealtimeSession (one connect + join for the whole batch):
+ *
+ *   {"op":"create","title":"Notes","content":"first line"}
+ *   {"op":"create","title":"Spec","markdown":"# Spec\n\n- a\n- b"}
+ *   {"op":"append","docId":"$1","text":"another paragraph"}
+ *   {"op":"append","docId":"$2","markdown":"**bold** follow-up"}
+ *   {"op":"export","docId":"<docId>"}
+ *   {"op":"delete","docId":"<docId>"}
+ *
+ * `"$N"` as a docId refers to the doc created by input line N.
+ */
+
+import { createDoc, appendText, loadDoc, deleteDocRealtime, type RealtimeOptions } from './yjs';
+import { readPageTree } from './blocks';
+import { parseMarkdown, parseMarkdownPage, renderMarkdown } from './markdown';
+
+export type BatchOp =
+  | { op: 'create'; title?: string; content?: string; markdown?: string }
+  | { op: 'append'; docId: string; text?: string; markdown?: string }
+  | { op: 'export'; docId: string }
+  | { op: 'delete'; docId: string };
+
+export type BatchResult = {
+  line: number;
+  op: string;
+  ok: boolean;
+  docId?: string;
+  markdown?: string;
+  timestamp?: number;
+  error?: string;
+};
+
+export type RunBatchOptions = {
+  /** Stop at the first failing line instead of continuing. */
+  stopOnError?: boolean;
+  onResult?: (result: BatchResult) => void;
+};
+
+export type RunBatchSummary = { total: number; ok: number; failed: number; results: BatchResult[] };
+
+const OPS = ['create', 'append', 'export', 'delete'];
+
+/** Parse and validate one NDJSON line; blank lines and `#` comments yield null. */
+export function parseBatchLine(raw: string): BatchOp | null {
+  const line = raw.trim();
+  if (!line || line.startsWith('#')) return null;
+  let parsed: any;
+  try {
+    parsed = JSON.parse(line);
+  } catch {
+    throw new Error('invalid JSON');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('operation must be a JSON object');
+  if (!OPS.includes(parsed.op)) throw new Error(`unknown op ${JSON.stringify(parsed.op)} (expected ${OPS.join(', ')})`);
+  if (parsed.op !== 'create' && (typeof parsed.docId !== 'string' || !parsed.docId)) throw new Error(`${parsed.op} requires docId`);
+  if (parsed.op === 'append' && typeof parsed.text !== 'string' && typeof parsed.markdown !== 'string') {
+    throw new Error('append requires text or markdown');
+  }
+  return parsed as BatchOp;
+}
+
+async function runOp(op: BatchOp, opts: RealtimeOptions, resolveId: (id: string) => string): Promise<Partial<BatchResult>> {
+  switch (op.op) {
+    case 'create': {
+      // Like `doc import --title`: an explicit title keeps the Markdown's leading heading in the body
+      const page = typeof op.markdown !== 'string' ? undefined : op.title ? { title: op.title, blocks: parseMarkdown(op.markdown) } : parseMarkdownPage(op.markdown);
+      const title = page?.title ?? op.title ?? '';
+      const { docId, timestamp } = await createDoc({ ...opts, title, content: op.content, blocks: page?.blocks });
+      return { docId, timestamp };
+    }
+    case 'append': {
+      const docId = resolveId(op.docId);
+      const blocks = typeof op.markdown === 'string' ? parseMarkdown(op.markdown) : undefined;
+      const { timestamp } = await appendText({ ...opts, docId, text: String(op.text ?? ''), blocks });
+      return { docId, timestamp };
+    }
+    case 'export': {
+      const docId = resolveId(op.docId);
+      const page = readPageTree(await loadDoc({ ...opts, docId }));
+      return { docId, markdown: page ? renderMarkdown(page) : '' };
+    }
+    case 'delete': {
+      const docId = resolveId(op.docId);
+      await deleteDocRealtime({ ...opts, docId });
+      return { docId };
+    }
+  }
+}
+
+/**
+ * Execute NDJSON lines in order. `opts.session` should be an open
+ * RealtimeSession so all operations share one connection; the caller closes it.
+ */
+export async function runBatch(
+  lines: Iterable<string> | AsyncIterable<string>,
+  opts: RealtimeOptions,
+  runOpts: RunBatchOptions = {},
+): Promise<RunBatchSummary> {
+  const summary: RunBatchSummary = { total: 0, ok: 0, failed: 0, results: [] };
+  const created = new Map<number, string>();
+  const resolveId = (id: string) => {
+    const ref = /^\$(\d+)$/.exec(id);
+    if (!ref) return id;
+    const docId = created.get(Number(ref[1]));
+    if (!docId) throw new Error(`${id} does not refer to a doc created earlier in this batch`);
+    return docId;
+  };
+
+  let lineNo = 0;
+  for await (const raw of lines as AsyncIterable<string>) {
+    lineNo++;
+    let result: BatchResult;
+    try {
+      const op = parseBatchLine(raw);
+      if (!op) continue;
+      const out = await runOp(op, opts, resolveId);
+      result = { line: lineNo, op: op.op, ok: true, ...out };
+      if (op.op === 'create' && out.docId) created.set(lineNo, out.docId);
+    } catch (e: any) {
+      result = { line: lineNo, op: safeOpName(raw), ok: false, error: String(e?.message || e) };
+    }
+    summary.total++;
+    if (result.ok) summary.ok++;
+    else summary.failed++;
+    summary.results.push(result);
+    runOpts.onResult?.(result);
+    if (!result.ok && runOpts.stopOnError) break;
+  }
+  return summary;
+}
+
+function safeOpName(raw: string): string {
+  try {
+    const op = JSON.parse(raw)?.op;
+    return typeof op === 'string' ? op : 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
+
+export default { parseBatchLine, runBatch };
@@ -105,7 +105,17 @@ async function saveAliasMap(map: BlobAliasMap): Promise<void> {
   }
 }
 
-async function registerAlias(workspaceId: string, alias: string, key: string): Promise<void> {
+/** Alias under which a file's blob key is remembered by content (see lookupAlias). */
+export function contentAlias(bytes: Uint8Array): string {
+  return `sha256:${crypto.createHash('sha256').update(bytes).digest('hex')}`;
+}
+
+/** Key recorded locally for `alias`, without asking the server. */
+export async function lookupAlias(workspaceId: string, alias: string): Promise<string | undefined> {
+  return (await loadAliasMap())[workspaceId]?.[alias];
+}
+
+export async function registerAlias(workspaceId: string, alias: string, key: string): Promise<void> {
   const map = await loadAliasMap();
   if (!map[workspaceId]) map[workspaceId] = {};
   map[workspaceId][alias] = key;
@@ -161,7 +171,7 @@ async function resolveBlobKey(
   return aliasOrKey;
 }
 
-export type UploadResult = { ok: true; status: number; location?: string };
+export type UploadResult = { ok: true; status: number; key: string; location?: string };
 
 export async function upload(
   workspaceId: string,
@@ -244,7 +254,7 @@ export async function upload(
     // Alias persistence failures should not fail the upload itself.
   }
 
-  return { ok: true, status: 200 };
+  return { ok: true, status: 200, key };
 }
 
 export type GetOptions = (HttpOptions & { outPath?: string; redirect?: 'follow' | 'manual' });
@@ -353,6 +363,18 @@ export async function rm(
     throw new Error(gqlErrors.map((e: any) => e?.message || 'Blob delete failed').join('; '));
   }
   const v = payload?.data?.deleteBlob;
+  try {
+    // Forget aliases of the deleted blob so they are not reused as keys
+    const map = await loadAliasMap();
+    const byWorkspace = map[workspaceId] ?? {};
+    const stale = Object.keys(byWorkspace).filter((alias) => byWorkspace[alias] === key);
+    if (stale.length) {
+      for (const alias of stale) delete byWorkspace[alias];
+      await saveAliasMap(map);
+    }
+  } catch {
+    // Alias persistence failures should not fail the delete itself.
+  }
   if (typeof v === 'boolean') return v;
   return Boolean(v);
 }
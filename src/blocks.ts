@@ -0,0 +1,571 @@
+/**
+ * BlockSuite block helpers on plain Yjs documents.
+ *
+ * Pages are stored as a `blocks` Y.Map keyed by block id; each block is a
+ * Y.Map with `sys:*` bookkeeping keys and `prop:*` model props. These helpers
+ * translate between that layout and plain BlockSpec trees so that importers
+ * and renderers never touch Yjs structures directly.
+ */
+
+/** Load Yjs through a dynamic import to avoid ESM/CJS build friction. */
+export async function getY() {
+  return (await import('yjs')) as any;
+}
+
+/** One Y.Text delta operation (inline text with optional formatting attributes). */
+export type DeltaOp = {
+  insert: string;
+  attributes?: Record<string, any>;
+};
+
+/** Marker for non-`prop:text` props that are stored as Y.Text (e.g. table cells). */
+export type TextProp = { $text: DeltaOp[] };
+
+/**
+ * Plain description of a block to write. `props` keys omit the `prop:` prefix;
+ * `text` is written to `prop:text` as a Y.Text.
+ */
+export type BlockSpec = {
+  flavour: string;
+  props?: Record<string, any>;
+  text?: DeltaOp[];
+  children?: BlockSpec[];
+};
+
+const BLOCK_VERSIONS: Record<string, number> = {
+  'affine:page': 2,
+};
+
+/** A block read back from a doc: a spec plus its id and resolved children. */
+export type BlockNode = BlockSpec & {
+  id: string;
+  children: BlockNode[];
+};
+
+export function newBlockId(): string {
+  // Not cryptographic; sufficient for block id generation client-side.
+  const alphabet = 'abcdefghijklmnopqrstuvwxyz0123456789';
+  let out = '';
+  for (let i = 0; i < 10; i++) out += alphabet[Math.floor(Math.random() * alphabet.length)];
+  return `${Date.now().toString(36)}${out}`;
+}
+
+export function isTextProp(v: unknown): v is TextProp {
+  return !!v && typeof v === 'object' && Array.isArray((v as any).$text);
+}
+
+export function plainText(delta: DeltaOp[] | TextProp | undefined): string {
+  const ops = isTextProp(delta) ? delta.$text : delta;
+  return (ops ?? []).map((op) => (typeof op.insert === 'string' ? op.insert : '')).join('');
+}
+
+function fromYValue(v: any): any {
+  if (v && typeof v.toDelta === 'function') return { $text: v.toDelta() } as TextProp;
+  if (v && typeof v.toJSON === 'function') return v.toJSON();
+  return v;
+}
+
+/** Locate the `affine:page` root block id, if the doc has one. */
+export function findPageBlockId(doc: any): string | null {
+  const yBlocks = doc.getMap('blocks');
+  let pageId: string | null = null;
+  yBlocks.forEach((yBlock: any, id: string) => {
+    if (!pageId && yBlock?.get?.('sys:flavour') === 'affine:page') pageId = id;
+  });
+  return pageId;
+}
+
+/** First `affine:note` child of the page block; content is written there by default. */
+export function findNoteBlockId(doc: any): string | null {
+  const pageId = findPageBlockId(doc);
+  if (!pageId) return null;
+  const yBlocks = doc.getMap('blocks');
+  const children: string[] = yBlocks.get(pageId)?.get('sys:children')?.toArray?.() ?? [];
+  for (const cid of children) {
+    if (yBlocks.get(cid)?.get('sys:flavour') === 'affine:note') return cid;
+  }
+  return null;
+}
+
+/** Id of the block whose `sys:children` contains `blockId`. */
+export function findParentId(doc: any, blockId: string): string | null {
+  let parentId: string | null = null;
+  doc.getMap('blocks').forEach((yBlock: any, id: string) => {
+    if (parentId) return;
+    const children: string[] = yBlock?.get?.('sys:children')?.toArray?.() ?? [];
+    if (children.includes(blockId)) parentId = id;
+  });
+  return parentId;
+}
+
+/** Read a block and its descendants (via `sys:children`) into plain BlockNodes. */
+export function readBlockTree(doc: any, blockId: string, seen: Set<string> = new Set()): BlockNode | null {
+  const yBlock: any = doc.getMap('blocks').get(blockId);
+  if (!yBlock || seen.has(blockId)) return null;
+  seen.add(blockId);
+
+  const props: Record<string, any> = {};
+  let text: DeltaOp[] | undefined;
+  yBlock.forEach((v: any, key: string) => {
+    if (key === 'prop:text' && v && typeof v.toDelta === 'function') text = v.toDelta();
+    else if (key.startsWith('prop:')) props[key.slice(5)] = fromYValue(v);
+  });
+
+  const childIds: string[] = yBlock.get('sys:children')?.toArray?.() ?? [];
+  const children: BlockNode[] = [];
+  for (const cid of childIds) {
+    const child = readBlockTree(doc, String(cid), seen);
+    if (child) children.push(child);
+  }
+
+  const node: BlockNode = { id: blockId, flavour: String(yBlock.get('sys:flavour') ?? ''), props, children };
+  if (text) node.text = text;
+  return node;
+}
+
+/** Blob keys referenced by image/attachment blocks in a tree (deduplicated, in document order). */
+export function collectBlobIds(node: BlockNode): string[] {
+  const out: string[] = [];
+  const visit = (n: BlockNode) => {
+    const sourceId = n.props?.sourceId;
+    if ((n.flavour === 'affine:image' || n.flavour === 'affine:attachment') && typeof sourceId === 'string' && sourceId) {
+      if (!out.includes(sourceId)) out.push(sourceId);
+    }
+    n.children.forEach(visit);
+  };
+  visit(node);
+  return out;
+}
+
+/** Read the whole page tree rooted at the `affine:page` block. */
+export function readPageTree(doc: any): BlockNode | null {
+  const pageId = findPageBlockId(doc);
+  return pageId ? readBlockTree(doc, pageId) : null;
+}
+
+function toYValue(Y: any, v: any): any {
+  if (isTextProp(v)) {
+    const t = new Y.Text();
+    t.applyDelta(v.$text);
+    return t;
+  }
+  if (Array.isArray(v)) return Y.Array.from(v.map((x) => toYValue(Y, x)));
+  if (v && typeof v === 'object') {
+    const m = new Y.Map();
+    for (const [k, x] of Object.entries(v)) m.set(k, toYValue(Y, x));
+    return m;
+  }
+  return v;
+}
+
+function writeBlock(Y: any, yBlocks: any, spec: BlockSpec): string {
+  const id = newBlockId();
+  const childIds = (spec.children ?? []).map((c) => writeBlock(Y, yBlocks, c));
+
+  const yBlock: any = new Y.Map();
+  yBlock.set('sys:id', id);
+  yBlock.set('sys:flavour', spec.flavour);
+  yBlock.set('sys:version', BLOCK_VERSIONS[spec.flavour] ?? 1);
+  yBlock.set('sys:children', Y.Array.from(childIds));
+  for (const [k, v] of Object.entries(spec.props ?? {})) {
+    if (typeof v === 'undefined') continue;
+    yBlock.set(`prop:${k}`, toYValue(Y, v));
+  }
+  if (spec.text) {
+    const yText = new Y.Text();
+    yText.applyDelta(spec.text);
+    yBlock.set('prop:text', yText);
+  }
+  yBlocks.set(id, yBlock);
+  return id;
+}
+
+/**
+ * Write block specs (recursively) under `parentId` in a single transaction.
+ * Inserts at `index` in the parent's children, or appends when omitted.
+ * Returns the ids of the top-level blocks that were created.
+ */
+export async function insertBlocks(
+  doc: any,
+  parentId: string,
+  specs: BlockSpec[],
+  index?: number,
+): Promise<string[]> {
+  const Y = await getY();
+  const yBlocks = doc.getMap('blocks');
+  const parent: any = yBlocks.get(parentId);
+  if (!parent) throw new Error(`block ${parentId} not found`);
+  const ids: string[] = [];
+  Y.transact(doc, () => {
+    for (const spec of specs) ids.push(writeBlock(Y, yBlocks, spec));
+    const children = parent.get('sys:children');
+    const at = typeof index === 'number' ? Math.max(0, Math.min(index, children.length)) : children.length;
+    children.insert(at, ids);
+  });
+  return ids;
+}
+
+/**
+ * Remove blocks and all of their descendants in a single transaction, detaching
+ * each from its parent's `sys:children`.
+ */
+export async function removeBlocks(doc: any, blockIds: string[]): Promise<void> {
+  const Y = await getY();
+  const yBlocks = doc.getMap('blocks');
+  const drop = (id: string) => {
+    const yBlock: any = yBlocks.get(id);
+    if (!yBlock) return;
+    const children: string[] = yBlock.get('sys:children')?.toArray?.() ?? [];
+    children.forEach(drop);
+    yBlocks.delete(id);
+  };
+  Y.transact(doc, () => {
+    for (const id of blockIds) {
+      const parentId = findParentId(doc, id);
+      if (parentId) {
+        const siblings = yBlocks.get(parentId).get('sys:children');
+        const idx = siblings.toArray().indexOf(id);
+        if (idx >= 0) siblings.delete(idx, 1);
+      }
+      drop(id);
+    }
+  });
+}
+
+/**
+ * Replace the content of a page's first note with `specs` and, when given, set
+ * the page title. Used when re-importing a file over an existing doc.
+ */
+export async function replacePageContent(doc: any, specs: BlockSpec[], title?: string): Promise<void> {
+  const pageId = findPageBlockId(doc);
+  const noteId = findNoteBlockId(doc);
+  if (!pageId || !noteId) throw new Error('doc has no page/note block to replace');
+  if (typeof title === 'string') await setPageTitle(doc, title);
+  const existing: string[] = doc.getMap('blocks').get(noteId).get('sys:children').toArray();
+  await removeBlocks(doc, existing);
+  await insertBlocks(doc, noteId, specs);
+}
+
+/** Where to put a block: next to a sibling, or at `index` under `parentId` (default: end of the first note). */
+export type BlockPosition = {
+  parentId?: string;
+  index?: number;
+  after?: string;
+  before?: string;
+};
+
+/** Resolve a BlockPosition to a concrete parent id and child index. */
+export function resolvePosition(doc: any, pos: BlockPosition = {}): { parentId: string; index: number } {
+  const yBlocks = doc.getMap('blocks');
+  const sibling = pos.after ?? pos.before;
+  if (sibling) {
+    if (!yBlocks.get(sibling)) throw new Error(`block ${sibling} not found`);
+    const parentId = findParentId(doc, sibling);
+    if (!parentId) throw new Error(`block ${sibling} has no parent`);
+    const idx = yBlocks.get(parentId).get('sys:children').toArray().indexOf(sibling);
+    return { parentId, index: pos.after ? idx + 1 : idx };
+  }
+  const parentId = pos.parentId ?? findNoteBlockId(doc);
+  if (!parentId) throw new Error('could not locate note block under page');
+  const parent: any = yBlocks.get(parentId);
+  if (!parent) throw new Error(`block ${parentId} not found`);
+  const length = parent.get('sys:children')?.length ?? 0;
+  return { parentId, index: typeof pos.index === 'number' ? Math.max(0, Math.min(pos.index, length)) : length };
+}
+
+const TYPE_SHORTCUTS: Record<string, { flavour: string; type?: string }> = {
+  paragraph: { flavour: 'affine:paragraph', type: 'text' },
+  text: { flavour: 'affine:paragraph', type: 'text' },
+  h1: { flavour: 'affine:paragraph', type: 'h1' },
+  h2: { flavour: 'affine:paragraph', type: 'h2' },
+  h3: { flavour: 'affine:paragraph', type: 'h3' },
+  h4: { flavour: 'affine:paragraph', type: 'h4' },
+  h5: { flavour: 'affine:paragraph', type: 'h5' },
+  h6: { flavour: 'affine:paragraph', type: 'h6' },
+  quote: { flavour: 'affine:paragraph', type: 'quote' },
+  bulleted: { flavour: 'affine:list', type: 'bulleted' },
+  numbered: { flavour: 'affine:list', type: 'numbered' },
+  todo: { flavour: 'affine:list', type: 'todo' },
+  toggle: { flavour: 'affine:list', type: 'toggle' },
+  code: { flavour: 'affine:code' },
+  divider: { flavour: 'affine:divider' },
+};
+
+/** Block type names accepted by blockSpecFromType (e.g. `h2`, `todo`, `code`). */
+export const BLOCK_TYPES = Object.keys(TYPE_SHORTCUTS);
+
+/** Build a BlockSpec for a user-facing block type with the default props AFFiNE expects. */
+export function blockSpecFromType(
+  type: string,
+  text: DeltaOp[] = [],
+  extra: { checked?: boolean; language?: string } = {},
+): BlockSpec {
+  const shortcut = TYPE_SHORTCUTS[type];
+  if (!shortcut) throw new Error(`unknown block type ${type} (expected ${BLOCK_TYPES.join(', ')})`);
+  switch (shortcut.flavour) {
+    case 'affine:paragraph':
+      return { flavour: shortcut.flavour, props: { type: shortcut.type, collapsed: false }, text };
+    case 'affine:list':
+      return {
+        flavour: shortcut.flavour,
+        props: { type: shortcut.type, checked: Boolean(extra.checked), collapsed: false, order: null },
+        text,
+      };
+    case 'affine:code':
+      return { flavour: shortcut.flavour, props: { language: extra.language ?? null, wrap: false, caption: '' }, text };
+    default:
+      return { flavour: shortcut.flavour };
+  }
+}
+
+/**
+ * Replace a block's text and/or set props in one transaction. A prop value of
+ * `undefined` removes the prop.
+ */
+export async function updateBlock(
+  doc: any,
+  blockId: string,
+  patch: { text?: DeltaOp[]; props?: Record<string, any> },
+): Promise<void> {
+  const Y = await getY();
+  const yBlock: any = doc.getMap('blocks').get(blockId);
+  if (!yBlock) throw new Error(`block ${blockId} not found`);
+  Y.transact(doc, () => {
+    if (patch.text) {
+      let yText: any = yBlock.get('prop:text');
+      if (!(yText instanceof Y.Text)) {
+        yText = new Y.Text();
+        yBlock.set('prop:text', yText);
+      }
+      yText.delete(0, yText.length);
+      yText.applyDelta(patch.text);
+    }
+    for (const [k, v] of Object.entries(patch.props ?? {})) {
+      if (typeof v === 'undefined') yBlock.delete(`prop:${k}`);
+      else yBlock.set(`prop:${k}`, toYValue(Y, v));
+    }
+  });
+}
+
+/** Detach a block (with its subtree) and re-insert it at `pos`. */
+export async function moveBlock(doc: any, blockId: string, pos: BlockPosition): Promise<void> {
+  const Y = await getY();
+  const yBlocks = doc.getMap('blocks');
+  if (!yBlocks.get(blockId)) throw new Error(`block ${blockId} not found`);
+  const oldParentId = findParentId(doc, blockId);
+  if (!oldParentId) throw new Error(`block ${blockId} has no parent and cannot be moved`);
+  if (pos.after === blockId || pos.before === blockId) throw new Error('cannot position a block relative to itself');
+  // Validate before mutating so a rejected move leaves the doc untouched.
+  for (let id: string | null = resolvePosition(doc, pos).parentId; id; id = findParentId(doc, id)) {
+    if (id === blockId) throw new Error('cannot move a block into itself');
+  }
+  Y.transact(doc, () => {
+    const oldSiblings = yBlocks.get(oldParentId).get('sys:children');
+    oldSiblings.delete(oldSiblings.toArray().indexOf(blockId), 1);
+    const target = resolvePosition(doc, pos);
+    yBlocks.get(target.parentId).get('sys:children').insert(target.index, [blockId]);
+  });
+}
+
+export type TodoItem = {
+  blockId: string;
+  text: string;
+  checked: boolean;
+  parentId: string | null;
+  /** Nesting level below the note (0 = top-level item). */
+  depth: number;
+};
+
+/** Todo list items (`affine:list` with `type: 'todo'`) in document order. */
+export function listTodos(doc: any): TodoItem[] {
+  const page = readPageTree(doc);
+  const out: TodoItem[] = [];
+  const visit = (node: BlockNode, parentId: string | null, depth: number) => {
+    const isTodo = node.flavour === 'affine:list' && node.props?.type === 'todo';
+    if (isTodo) out.push({ blockId: node.id, text: plainText(node.text), checked: Boolean(node.props?.checked), parentId, depth });
+    for (const child of node.children) visit(child, node.id, node.flavour === 'affine:note' ? 0 : depth + 1);
+  };
+  if (page) for (const child of page.children) visit(child, page.id, 0);
+  return out;
+}
+
+/** Set `prop:checked` on a todo item; returns false when it already had that state. */
+export async function setTodoChecked(doc: any, blockId: string, checked: boolean): Promise<boolean> {
+  const yBlock: any = doc.getMap('blocks').get(blockId);
+  if (!yBlock) throw new Error(`block ${blockId} not found`);
+  if (yBlock.get('sys:flavour') !== 'affine:list' || yBlock.get('prop:type') !== 'todo') {
+    throw new Error(`block ${blockId} is not a todo item`);
+  }
+  if (Boolean(yBlock.get('prop:checked')) === checked) return false;
+  await updateBlock(doc, blockId, { props: { checked } });
+  return true;
+}
+
+/** Comparable per-block state, used to describe what a remote update changed. */
+export type BlockState = {
+  flavour: string;
+  parentId: string | null;
+  text?: string;
+  /** `prop:*` values (without prefix, `text` excluded) serialized for comparison. */
+  props: Record<string, string>;
+};
+
+export type BlockChange = {
+  type: 'added' | 'removed' | 'text' | 'props' | 'moved';
+  blockId: string;
+  flavour: string;
+  /** Current plain text for added/text changes. */
+  text?: string;
+  /** Names of changed props for `props` changes. */
+  props?: string[];
+  parentId?: string | null;
+};
+
+/** Capture every block's flavour, parent, text and props so two points in time can be compared. */
+export function snapshotBlocks(doc: any): Map<string, BlockState> {
+  const yBlocks = doc.getMap('blocks');
+  const parents = new Map<string, string>();
+  yBlocks.forEach((yBlock: any, id: string) => {
+    const children: string[] = yBlock?.get?.('sys:children')?.toArray?.() ?? [];
+    for (const cid of children) parents.set(String(cid), id);
+  });
+  const out = new Map<string, BlockState>();
+  yBlocks.forEach((yBlock: any, id: string) => {
+    if (!yBlock || typeof yBlock.forEach !== 'function') return;
+    const state: BlockState = { flavour: String(yBlock.get('sys:flavour') ?? ''), parentId: parents.get(id) ?? null, props: {} };
+    yBlock.forEach((v: any, key: string) => {
+      if (!key.startsWith('prop:')) return;
+      const value = v && typeof v.toDelta === 'function' ? v.toString() : fromYValue(v);
+      if (key === 'prop:text') state.text = String(value);
+      else state.props[key.slice(5)] = typeof value === 'string' ? value : JSON.stringify(value ?? null);
+    });
+    out.set(id, state);
+  });
+  return out;
+}
+
+/** Describe the difference between two snapshots: added, removed, re-parented, text and prop changes. */
+export function diffBlockSnapshots(before: Map<string, BlockState>, after: Map<string, BlockState>): BlockChange[] {
+  const changes: BlockChange[] = [];
+  for (const [blockId, next] of after) {
+    const prev = before.get(blockId);
+    const flavour = next.flavour;
+    if (!prev) {
+      changes.push({ type: 'added', blockId, flavour, parentId: next.parentId, ...(next.text !== undefined ? { text: next.text } : {}) });
+      continue;
+    }
+    if (prev.parentId !== next.parentId) changes.push({ type: 'moved', blockId, flavour, parentId: next.parentId });
+    if ((prev.text ?? '') !== (next.text ?? '')) changes.push({ type: 'text', blockId, flavour, text: next.text ?? '' });
+    const keys = new Set([...Object.keys(prev.props), ...Object.keys(next.props)]);
+    const props = [...keys].filter((k) => prev.props[k] !== next.props[k]).sort();
+    if (props.length) changes.push({ type: 'props', blockId, flavour, props });
+  }
+  for (const [blockId, prev] of before) {
+    if (!after.has(blockId)) changes.push({ type: 'removed', blockId, flavour: prev.flavour });
+  }
+  return changes;
+}
+
+// Comparable form of a Yjs value: text keeps its formatting, maps are key-sorted.
+function canonicalY(v: any): any {
+  if (v && typeof v.toDelta === 'function') return { $text: v.toDelta() };
+  if (v && typeof v.toArray === 'function') return v.toArray().map(canonicalY);
+  if (v && typeof v.forEach === 'function' && typeof v.get === 'function') {
+    const out: Record<string, any> = {};
+    [...v.keys()].sort().forEach((k: string) => (out[k] = canonicalY(v.get(k))));
+    return out;
+  }
+  return v;
+}
+
+/**
+ * Make `doc`'s blocks equal to those of `source` (e.g. an older snapshot) in
+ * one transaction. Only blocks that differ are rewritten; returns how many.
+ */
+export async function restoreBlocks(doc: any, source: any): Promise<number> {
+  const Y = await getY();
+  const target = doc.getMap('blocks');
+  const from = source.getMap('blocks');
+  let changed = 0;
+  Y.transact(doc, () => {
+    for (const id of [...target.keys()]) {
+      if (from.has(id)) continue;
+      target.delete(id);
+      changed++;
+    }
+    from.forEach((yBlock: any, id: string) => {
+      const current = target.get(id);
+      if (current && JSON.stringify(canonicalY(current)) === JSON.stringify(canonicalY(yBlock))) return;
+      target.set(id, yBlock.clone());
+      changed++;
+    });
+  });
+  return changed;
+}
+
+/** Set the page title (`prop:title` of the `affine:page` block). */
+export async function setPageTitle(doc: any, title: string): Promise<void> {
+  const Y = await getY();
+  const pageId = findPageBlockId(doc);
+  if (!pageId) throw new Error('doc has no page block');
+  const yPage: any = doc.getMap('blocks').get(pageId);
+  Y.transact(doc, () => {
+    let yTitle: any = yPage.get('prop:title');
+    if (!(yTitle instanceof Y.Text)) {
+      yTitle = new Y.Text();
+      yPage.set('prop:title', yTitle);
+    }
+    if (yTitle.toString() === title) return;
+    yTitle.delete(0, yTitle.length);
+    yTitle.insert(0, title);
+  });
+}
+
+/**
+ * Copy every block of `source` into `target` under freshly generated ids,
+ * rewriting `sys:id` and `sys:children`. Returns the old -> new id map.
+ */
+export async function copyBlocks(source: any, target: any): Promise<Map<string, string>> {
+  const Y = await getY();
+  const from = source.getMap('blocks');
+  const to = target.getMap('blocks');
+  const ids = new Map<string, string>();
+  from.forEach((_: any, id: string) => ids.set(id, newBlockId()));
+  Y.transact(target, () => {
+    from.forEach((yBlock: any, id: string) => {
+      if (!yBlock || typeof yBlock.clone !== 'function') return;
+      const copy = yBlock.clone();
+      const children: string[] = yBlock.get('sys:children')?.toArray?.() ?? [];
+      copy.set('sys:id', ids.get(id));
+      copy.set('sys:children', Y.Array.from(children.map((cid) => ids.get(String(cid))).filter(Boolean)));
+      to.set(ids.get(id)!, copy);
+    });
+  });
+  return ids;
+}
+
+export default {
+  newBlockId,
+  isTextProp,
+  plainText,
+  findPageBlockId,
+  findNoteBlockId,
+  findParentId,
+  readBlockTree,
+  collectBlobIds,
+  readPageTree,
+  insertBlocks,
+  removeBlocks,
+  replacePageContent,
+  resolvePosition,
+  blockSpecFromType,
+  updateBlock,
+  moveBlock,
+  listTodos,
+  setTodoChecked,
+  snapshotBlocks,
+  diffBlockSnapshots,
+  restoreBlocks,
+  setPageTitle,
+  copyBlocks,
+};
@@ -0,0 +1,90 @@
+/**
+ * Cross-workspace doc copy/move for `affine doc copy`
+ *
+ * 1. Load the source doc and collect the blob keys of its image/attachment blocks.
+ * 2. Download each blob and upload it to the destination workspace.
+ * 3. Create the copy there (new doc and block ids, `sourceId`s rewritten to
+ *    the destination keys) and register it in the destination page list.
+ * 4. Load the copy back and check that its title and blocks match the source.
+ * 5. With `move`, only then delete the original and drop its page-list entry.
+ */
+
+import { get as getBlob, upload as uploadBlob } from './blobs';
+import { collectBlobIds, getY, readPageTree } from './blocks';
+import { diffPageFromDoc } from './diff';
+import { removePageMeta } from './meta';
+import { deleteDocRealtime, duplicateDoc, editWorkspaceRoot, loadDoc, type RealtimeOptions } from './yjs';
+
+export type CopyDocOptions = RealtimeOptions & {
+  docId: string;
+  targetWorkspaceId: string;
+  /** Delete the original after the copy has been verified. */
+  move?: boolean;
+  onProgress?: (evt: { type: 'blob'; key: string; targetKey: string }) => void;
+};
+
+export type CopyDocResult = {
+  docId: string;
+  title: string;
+  targetWorkspaceId: string;
+  /** Blobs re-uploaded to the destination. */
+  blobs: number;
+  moved: boolean;
+};
+
+// Title and block sequence (flavour, depth, inline text): what must survive a copy.
+function contentSignature(doc: any): string {
+  const page = diffPageFromDoc(doc);
+  return JSON.stringify([page.title ?? '', page.blocks.map((b) => [b.flavour, b.depth, b.text])]);
+}
+
+async function rewriteBlobKeys(doc: any, keys: Map<string, string>): Promise<void> {
+  const Y = await getY();
+  Y.transact(doc, () => {
+    doc.getMap('blocks').forEach((yBlock: any) => {
+      const flavour = yBlock?.get?.('sys:flavour');
+      if (flavour !== 'affine:image' && flavour !== 'affine:attachment') return;
+      const next = keys.get(yBlock.get('prop:sourceId'));
+      if (next) yBlock.set('prop:sourceId', next);
+    });
+  });
+}
+
+export async function copyDocToWorkspace(opts: CopyDocOptions): Promise<CopyDocResult> {
+  const { docId, targetWorkspaceId } = opts;
+  if (targetWorkspaceId === opts.workspaceId) throw new Error('target workspace is the same as the source; use doc duplicate');
+  // A session is bound to the source workspace; the destination gets its own calls
+  const { session, onProgress, ...base } = opts;
+  const sourceOpts: RealtimeOptions = { ...base, session };
+  const targetOpts: RealtimeOptions = { ...base, workspaceId: targetWorkspaceId };
+
+  const source = await loadDoc({ ...sourceOpts, docId });
+  const page = readPageTree(source);
+  if (!page) throw new Error(`doc ${docId} has no page block`);
+
+  const keys = new Map<string, string>();
+  for (const key of collectBlobIds(page)) {
+    const res: any = await getBlob(opts.workspaceId, key, base);
+    if (!res?.ok || !res.buffer) throw new Error(`failed to download blob ${key} (status ${res?.status ?? 'unknown'})`);
+    const up = await uploadBlob(targetWorkspaceId, key, res.buffer, base);
+    if (!up?.ok) throw new Error(`failed to upload blob ${key} to ${targetWorkspaceId}`);
+    const targetKey = up.key || key;
+    keys.set(key, targetKey);
+    onProgress?.({ type: 'blob', key, targetKey });
+  }
+
+  const copy = await duplicateDoc({ ...targetOpts, docId, source, transform: (doc) => rewriteBlobKeys(doc, keys) });
+
+  const written = await loadDoc({ ...targetOpts, docId: copy.docId });
+  if (contentSignature(written) !== contentSignature(source)) {
+    throw new Error(`copy ${copy.docId} in ${targetWorkspaceId} does not match the source; the original was left in place`);
+  }
+
+  if (opts.move) {
+    await deleteDocRealtime({ ...sourceOpts, docId });
+    await editWorkspaceRoot(sourceOpts, (root) => removePageMeta(root, docId));
+  }
+  return { docId: copy.docId, title: copy.title, targetWorkspaceId, blobs: keys.size, moved: Boolean(opts.move) };
+}
+
+export default { copyDocToWorkspace };
@@ -0,0 +1,287 @@
+/**
+ * Block-aware doc diffs for `affine doc diff`
+ *
+ * Both sides are flattened to the content blocks under the page's notes (in
+ * document order) and then aligned:
+ * - Two Yjs docs share block ids, so blocks are matched by id; blocks whose
+ *   relative order or parent changed are reported as moved.
+ * - A Markdown file has no ids, so blocks are aligned by content (flavour,
+ *   type and inline Markdown) and leftover blocks of the same flavour and
+ *   type between two aligned anchors are paired up as changed.
+ * Text changes come with a word-level diff of the block's inline Markdown.
+ */
+
+import { readPageTree, plainText, type BlockNode, type BlockSpec } from './blocks';
+import { renderInline } from './markdown';
+
+/** One content block prepared for comparison. */
+export type DiffBlock = {
+  /** Block id (Yjs sides only). */
+  id?: string;
+  flavour: string;
+  /** Parent block id, or the parent's position for id-less blocks. */
+  parent: string;
+  depth: number;
+  /** Inline Markdown of `prop:text` ('' when the block has no text). */
+  text: string;
+  hasText: boolean;
+  /** `prop:*` values (text excluded) serialized for comparison. */
+  props: Record<string, string>;
+};
+
+/** A page reduced to its title and flattened content blocks. */
+export type DiffPage = { title?: string; blocks: DiffBlock[] };
+
+export type TextSegment = { op: 'equal' | 'insert' | 'delete'; text: string };
+
+export type DocDiffEntry = {
+  type: 'title' | 'added' | 'removed' | 'changed' | 'moved';
+  /** Id of the block on the base side (the target side for blocks only it has). */
+  blockId?: string;
+  flavour?: string;
+  before?: string;
+  after?: string;
+  textDiff?: TextSegment[];
+  /** Names of changed props. */
+  props?: string[];
+};
+
+// UI state and auto-numbering that Markdown cannot express
+const CONTENT_IGNORED_PROPS = new Set(['collapsed', 'order']);
+
+function serializeProp(v: unknown): string {
+  return typeof v === 'string' ? v : JSON.stringify(v ?? null);
+}
+
+function flatten(nodes: Array<BlockSpec | BlockNode>, parent: string, depth: number, out: DiffBlock[]): void {
+  nodes.forEach((node, i) => {
+    const id = (node as BlockNode).id;
+    const props: Record<string, string> = {};
+    for (const [k, v] of Object.entries(node.props ?? {})) props[k] = serializeProp(v);
+    out.push({
+      ...(id ? { id } : {}),
+      flavour: node.flavour,
+      parent,
+      depth,
+      text: node.text ? renderInline(node.text) : '',
+      hasText: !!node.text,
+      props,
+    });
+    flatten(node.children ?? [], id ?? `${parent}/${i}`, depth + 1, out);
+  });
+}
+
+/** Flatten a loaded Yjs doc (title plus note contents). */
+export function diffPageFromDoc(doc: any): DiffPage {
+  const page = readPageTree(doc);
+  const blocks: DiffBlock[] = [];
+  if (!page) return { blocks };
+  for (const note of page.children) {
+    if (note.flavour === 'affine:note') flatten(note.children, note.id, 0, blocks);
+  }
+  return { title: plainText(page.props?.title), blocks };
+}
+
+/** Flatten parsed Markdown (see parseMarkdownPage). */
+export function diffPageFromSpecs(page: { title?: string; blocks: BlockSpec[] }): DiffPage {
+  const blocks: DiffBlock[] = [];
+  flatten(page.blocks, '', 0, blocks);
+  return { ...(page.title !== undefined ? { title: page.title } : {}), blocks };
+}
+
+/** Longest common subsequence of two key lists as index pairs. */
+function lcs(a: string[], b: string[]): Array<[number, number]> {
+  const n = a.length;
+  const m = b.length;
+  const table: Uint32Array[] = [];
+  for (let i = 0; i <= n; i++) table.push(new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) i++;
+    else j++;
+  }
+  return pairs;
+}
+
+/** Word-level diff of two strings; adjacent segments of the same kind are merged. */
+export function diffText(before: string, after: string): TextSegment[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  const out: TextSegment[] = [];
+  const push = (op: TextSegment['op'], text: string) => {
+    const last = out[out.length - 1];
+    if (last && last.op === op) last.text += text;
+    else out.push({ op, text });
+  };
+  let i = 0;
+  let j = 0;
+  for (const [ai, bj] of [...lcs(a, b), [a.length, b.length] as [number, number]]) {
+    while (i < ai) push('delete', a[i++]);
+    while (j < bj) push('insert', b[j++]);
+    if (ai < a.length) push('equal', a[ai]);
+    i = ai + 1;
+    j = bj + 1;
+  }
+  return out;
+}
+
+export type AlignStep<A, B> =
+  | { type: 'pair'; a: A; b: B; anchored: boolean }
+  | { type: 'remove'; a: A }
+  | { type: 'add'; b: B };
+
+/**
+ * Align two id-less block sequences: identical `key`s anchor the alignment,
+ * and leftovers of the same `kind` between two anchors are paired in order.
+ * Steps follow `b`'s order, with removals listed where they used to be.
+ */
+export function alignByContent<A, B>(
+  a: A[],
+  b: B[],
+  key: { a: (x: A) => string; b: (y: B) => string },
+  kind: { a: (x: A) => string; b: (y: B) => string },
+): AlignStep<A, B>[] {
+  const steps: AlignStep<A, B>[] = [];
+  let i = 0;
+  let j = 0;
+  for (const [ai, bj] of [...lcs(a.map(key.a), b.map(key.b)), [a.length, b.length] as [number, number]]) {
+    const gapA = a.slice(i, ai);
+    const gapB = b.slice(j, bj);
+    let p = 0;
+    let q = 0;
+    for (const [pk, qk] of [...lcs(gapA.map(kind.a), gapB.map(kind.b)), [gapA.length, gapB.length] as [number, number]]) {
+      for (; p < pk; p++) steps.push({ type: 'remove', a: gapA[p] });
+      for (; q < qk; q++) steps.push({ type: 'add', b: gapB[q] });
+      if (pk < gapA.length) steps.push({ type: 'pair', a: gapA[pk], b: gapB[qk], anchored: false });
+      p = pk + 1;
+      q = qk + 1;
+    }
+    if (ai < a.length) steps.push({ type: 'pair', a: a[ai], b: b[bj], anchored: true });
+    i = ai + 1;
+    j = bj + 1;
+  }
+  return steps;
+}
+
+function contentKey(block: DiffBlock): string {
+  const extra = block.hasText ? '' : JSON.stringify(block.props);
+  return `${block.flavour}|${block.props.type ?? ''}|${block.text}|${extra}`;
+}
+
+function compareBlocks(base: DiffBlock, target: DiffBlock, byId: boolean): DocDiffEntry | null {
+  const keys = byId
+    ? new Set([...Object.keys(base.props), ...Object.keys(target.props)])
+    : new Set(Object.keys(target.props).filter((k) => !CONTENT_IGNORED_PROPS.has(k)));
+  const props = [...keys].filter((k) => base.props[k] !== target.props[k]).sort();
+  const textChanged = base.text !== target.text;
+  if (!textChanged && !props.length) return null;
+  const entry: DocDiffEntry = { type: 'changed', blockId: base.id, flavour: target.flavour };
+  if (textChanged) Object.assign(entry, { before: base.text, after: target.text, textDiff: diffText(base.text, target.text) });
+  if (props.length) entry.props = props;
+  return entry;
+}
+
+function added(block: DiffBlock): DocDiffEntry {
+  return { type: 'added', ...(block.id ? { blockId: block.id } : {}), flavour: block.flavour, after: block.text };
+}
+
+function removed(block: DiffBlock): DocDiffEntry {
+  return { type: 'removed', blockId: block.id, flavour: block.flavour, before: block.text };
+}
+
+/**
+ * Compare `target` against `base` (typically the server). Entries follow the
+ * target's block order, with removed blocks listed where they used to be.
+ */
+export function diffPages(base: DiffPage, target: DiffPage): DocDiffEntry[] {
+  const entries: DocDiffEntry[] = [];
+  if (target.title !== undefined && (base.title ?? '') !== target.title) {
+    const before = base.title ?? '';
+    entries.push({ type: 'title', before, after: target.title, textDiff: diffText(before, target.title) });
+  }
+
+  const a = base.blocks;
+  const b = target.blocks;
+  const byId = a.length > 0 && b.length > 0 && a.every((x) => x.id) && b.every((x) => x.id);
+
+  const pair = (base: DiffBlock, target: DiffBlock, anchored: boolean) => {
+    const moved = byId ? !anchored || base.parent !== target.parent : base.depth !== target.depth;
+    if (moved) entries.push({ type: 'moved', blockId: base.id, flavour: target.flavour });
+    const change = compareBlocks(base, target, byId);
+    if (change) entries.push(change);
+  };
+
+  if (!byId) {
+    const kind = (x: DiffBlock) => `${x.flavour}|${x.props.type ?? ''}`;
+    for (const step of alignByContent(a, b, { a: contentKey, b: contentKey }, { a: kind, b: kind })) {
+      if (step.type === 'pair') pair(step.a, step.b, step.anchored);
+      else entries.push(step.type === 'remove' ? removed(step.a) : added(step.b));
+    }
+    return entries;
+  }
+
+  const baseIndexById = new Map(a.map((x, i) => [x.id, i]));
+  const targetIds = new Set(b.map((x) => x.id));
+  let i = 0;
+  let j = 0;
+  for (const [ai, bj] of [...lcs(a.map((x) => x.id!), b.map((x) => x.id!)), [a.length, b.length] as [number, number]]) {
+    for (const x of a.slice(i, ai)) if (!targetIds.has(x.id)) entries.push(removed(x));
+    for (const y of b.slice(j, bj)) {
+      const k = baseIndexById.get(y.id);
+      if (k === undefined) entries.push(added(y));
+      else pair(a[k], y, false);
+    }
+    if (ai < a.length) pair(a[ai], b[bj], true);
+    i = ai + 1;
+    j = bj + 1;
+  }
+  return entries;
+}
+
+/** Render text segments git word-diff style: `[-removed-]{+added+}`. */
+export function formatTextDiff(segments: TextSegment[]): string {
+  return segments
+    .map((s) => (s.op === 'equal' ? s.text : s.op === 'delete' ? `[-${s.text}-]` : `{+${s.text}+}`))
+    .join('');
+}
+
+/** Human-readable lines: `+` added, `-` removed, `~` changed, `>` moved. */
+export function formatDocDiff(entries: DocDiffEntry[]): string[] {
+  const lines: string[] = [];
+  for (const e of entries) {
+    const label = [e.flavour, e.blockId].filter(Boolean).join(' ');
+    switch (e.type) {
+      case 'title':
+        lines.push(`~ title: ${formatTextDiff(e.textDiff ?? [])}`);
+        break;
+      case 'added':
+        lines.push(`+ [${label}]${e.after ? ` ${e.after}` : ''}`);
+        break;
+      case 'removed':
+        lines.push(`- [${label}]${e.before ? ` ${e.before}` : ''}`);
+        break;
+      case 'moved':
+        lines.push(`> [${label}] moved`);
+        break;
+      case 'changed': {
+        if (e.textDiff) lines.push(`~ [${label}] ${formatTextDiff(e.textDiff)}`);
+        if (e.props) lines.push(`~ [${label}] props: ${e.props.join(', ')}`);
+        break;
+      }
+    }
+  }
+  return lines;
+}
+
+export default { diffPageFromDoc, diffPageFromSpecs, diffText, alignByContent, diffPages, formatTextDiff, formatDocDiff };
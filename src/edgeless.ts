@@ -0,0 +1,580 @@
+/**
+ * Edgeless canvas authoring for `affine edgeless …`
+ *
+ * Canvas content lives in the page's `affine:surface` block (a child of
+ * `affine:page`, created on demand):
+ *   - shapes, text and connectors are surface elements: Y.Maps in
+ *     `prop:elements`, which is boxed as `{ type: '$blocksuite:internal:native$', value: Y.Map }`
+ *   - frames are `affine:frame` blocks under the surface block
+ * Everything on the canvas carries an `xywh` string (`[x,y,w,h]`) and a
+ * fractional `index` string that orders it front to back.
+ */
+
+import { getY, newBlockId } from './blocks';
+
+export type Xywh = [number, number, number, number];
+
+export const SHAPE_TYPES = ['rect', 'rounded', 'ellipse', 'diamond', 'triangle'] as const;
+export type ShapeType = (typeof SHAPE_TYPES)[number];
+
+export const CONNECTOR_MODES = { straight: 0, orthogonal: 1, curve: 2 } as const;
+export type ConnectorMode = keyof typeof CONNECTOR_MODES;
+
+export const ENDPOINT_STYLES = ['none', 'arrow', 'triangle', 'circle', 'diamond'] as const;
+export type EndpointStyle = (typeof ENDPOINT_STYLES)[number];
+
+const PALETTE = ['yellow', 'orange', 'red', 'magenta', 'purple', 'blue', 'teal', 'green', 'black', 'grey', 'white'];
+
+const NATIVE_WRAPPER = '$blocksuite:internal:native$';
+const FONT_FAMILY = 'blocksuite:surface:Inter';
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+/** Palette names (`blue`) become the editor's theme variables; anything else (`#3366ff`) is kept as is. */
+export function resolveCanvasColor(color: string, kind: 'shape' | 'line'): string {
+  const name = color.trim().toLowerCase();
+  return PALETTE.includes(name) ? `--affine-palette-${kind}-${name}` : color.trim();
+}
+
+/** Parse `x,y,w,h` (brackets optional). */
+export function parseXywh(value: string): Xywh {
+  const nums = value.replace(/^\s*\[|\]\s*$/g, '').split(',').map((s) => Number(s.trim()));
+  if (nums.length !== 4 || nums.some((n) => !Number.isFinite(n)) || nums[2] < 0 || nums[3] < 0) {
+    throw new Error(`invalid xywh: ${value} (expected x,y,width,height)`);
+  }
+  return nums as Xywh;
+}
+
+/** Parse an `x,y` point. */
+export function parsePoint(value: string): [number, number] {
+  const nums = value.split(',').map((s) => Number(s.trim()));
+  if (nums.length !== 2 || nums.some((n) => !Number.isFinite(n))) throw new Error(`invalid point: ${value} (expected x,y)`);
+  return nums as [number, number];
+}
+
+const formatXywh = (xywh: Xywh) => `[${xywh.join(',')}]`;
+
+/**
+ * Smallest integer key greater than every index in use, in the
+ * fractional-indexing scheme the editor uses ("a0" … "az", "b00", …).
+ */
+export function nextIndex(existing: string[]): string {
+  const max = existing.filter((i) => typeof i === 'string' && i).sort().pop();
+  if (!max || max[0] < 'a' || max[0] > 'z') return 'a0';
+  const head = max[0];
+  const len = head.charCodeAt(0) - 96;
+  const digits = max.slice(1, 1 + len).padEnd(len, '0').split('');
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const d = DIGITS.indexOf(digits[i]);
+    if (d < DIGITS.length - 1) {
+      digits[i] = DIGITS[d + 1];
+      return head + digits.join('');
+    }
+    digits[i] = '0';
+  }
+  if (head === 'z') throw new Error('canvas index space exhausted');
+  return String.fromCharCode(head.charCodeAt(0) + 1) + '0'.repeat(len + 1);
+}
+
+/** Largest integer key smaller than every index in use (frames go behind what they contain). */
+export function prevIndex(existing: string[]): string {
+  const min = existing.filter((i) => typeof i === 'string' && i).sort()[0];
+  if (!min) return 'a0';
+  const head = min[0];
+  const lower = head >= 'a' && head <= 'z';
+  if (!lower && (head < 'A' || head > 'Z')) throw new Error(`invalid canvas index ${min}`);
+  const len = lower ? head.charCodeAt(0) - 96 : 91 - head.charCodeAt(0);
+  const int = min.slice(0, 1 + len);
+  // A fractional key sorts after its integer part
+  if (min.length > int.length) return int;
+  const digits = int.slice(1).split('');
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const d = DIGITS.indexOf(digits[i]);
+    if (d > 0) {
+      digits[i] = DIGITS[d - 1];
+      return head + digits.join('');
+    }
+    digits[i] = DIGITS[DIGITS.length - 1];
+  }
+  if (head === 'A') throw new Error('canvas index space exhausted');
+  const prev = String.fromCharCode(head.charCodeAt(0) - 1);
+  return head === 'a' ? 'Zz' : prev + 'z'.repeat(lower ? len - 1 : len + 1);
+}
+
+type Surface = { id: string; yBlock: any; elements: any };
+
+function findSurface(doc: any): Surface | null {
+  const yBlocks = doc.getMap('blocks');
+  let found: Surface | null = null;
+  yBlocks.forEach((yBlock: any, id: string) => {
+    if (found || yBlock?.get?.('sys:flavour') !== 'affine:surface') return;
+    const boxed = yBlock.get('prop:elements');
+    const elements = boxed?.get?.('type') === NATIVE_WRAPPER ? boxed.get('value') : boxed;
+    found = { id, yBlock, elements };
+  });
+  return found;
+}
+
+// Find or create the surface block (first child of the page, as the editor creates it). Call inside a transaction.
+function ensureSurface(Y: any, doc: any): Surface {
+  const existing = findSurface(doc);
+  if (existing?.elements) return existing;
+  const yBlocks = doc.getMap('blocks');
+  const boxed = new Y.Map();
+  boxed.set('type', NATIVE_WRAPPER);
+  boxed.set('value', new Y.Map());
+  if (existing) {
+    existing.yBlock.set('prop:elements', boxed);
+    return { ...existing, elements: boxed.get('value') };
+  }
+  let pageId: string | null = null;
+  yBlocks.forEach((yBlock: any, id: string) => {
+    if (!pageId && yBlock?.get?.('sys:flavour') === 'affine:page') pageId = id;
+  });
+  if (!pageId) throw new Error('doc has no affine:page block');
+  const id = newBlockId();
+  const ySurface = new Y.Map();
+  ySurface.set('sys:id', id);
+  ySurface.set('sys:flavour', 'affine:surface');
+  ySurface.set('sys:version', 5);
+  ySurface.set('sys:children', new Y.Array());
+  ySurface.set('prop:elements', boxed);
+  yBlocks.set(id, ySurface);
+  yBlocks.get(pageId).get('sys:children').insert(0, [id]);
+  return { id, yBlock: ySurface, elements: boxed.get('value') };
+}
+
+export type CanvasItem = {
+  id: string;
+  /** Element type (`shape`, `text`, `connector`, …) or block flavour (`affine:frame`, `affine:note`). */
+  type: string;
+  xywh?: Xywh;
+  index?: string;
+  text?: string;
+  /** Connector endpoints: element ids or `x,y` points. */
+  source?: string;
+  target?: string;
+};
+
+function readXywh(raw: unknown): Xywh | undefined {
+  if (typeof raw !== 'string') return undefined;
+  try {
+    return parseXywh(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+const describeEndpoint = (end: any) => (end?.id ? String(end.id) : Array.isArray(end?.position) ? end.position.join(',') : undefined);
+
+/** Surface elements plus the blocks placed on the canvas (notes, frames), in index order. */
+export function listCanvasItems(doc: any): CanvasItem[] {
+  const items: CanvasItem[] = [];
+  const surface = findSurface(doc);
+  surface?.elements?.forEach?.((yEl: any, id: string) => {
+    const text = yEl.get('text');
+    items.push({
+      id,
+      type: String(yEl.get('type') ?? 'unknown'),
+      xywh: readXywh(yEl.get('xywh')),
+      index: yEl.get('index'),
+      ...(text ? { text: String(text) } : {}),
+      ...(yEl.get('type') === 'connector' ? { source: describeEndpoint(yEl.get('source')), target: describeEndpoint(yEl.get('target')) } : {}),
+    });
+  });
+  doc.getMap('blocks').forEach((yBlock: any, id: string) => {
+    const flavour = yBlock?.get?.('sys:flavour');
+    if (flavour !== 'affine:note' && flavour !== 'affine:frame') return;
+    const title = yBlock.get('prop:title');
+    items.push({ id, type: flavour, xywh: readXywh(yBlock.get('prop:xywh')), index: yBlock.get('prop:index'), ...(title ? { text: String(title) } : {}) });
+  });
+  // Fractional indexes compare by code unit, not by locale
+  const key = (i: CanvasItem) => `${i.index ?? ''}\u0000${i.id}`;
+  return items.sort((a, b) => (key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0));
+}
+
+function usedIndexes(doc: any): string[] {
+  return listCanvasItems(doc).map((i) => i.index ?? '');
+}
+
+function writeElement(Y: any, surface: Surface, index: string, props: Record<string, any>): string {
+  const id = newBlockId();
+  const yEl = new Y.Map();
+  yEl.set('id', id);
+  yEl.set('index', index);
+  yEl.set('seed', Math.floor(Math.random() * 2 ** 31));
+  for (const [k, v] of Object.entries(props)) {
+    if (typeof v === 'undefined') continue;
+    yEl.set(k, k === 'text' ? new Y.Text(String(v)) : v);
+  }
+  surface.elements.set(id, yEl);
+  return id;
+}
+
+export type ShapeOptions = {
+  xywh: Xywh;
+  shape?: ShapeType;
+  text?: string;
+  /** Fill color (palette name or CSS color). */
+  fill?: string;
+  /** Border color. */
+  stroke?: string;
+  /** Text color. */
+  color?: string;
+};
+
+function shapeProps(opts: ShapeOptions): Record<string, any> {
+  const shape = opts.shape ?? 'rect';
+  if (!SHAPE_TYPES.includes(shape)) throw new Error(`unknown shape ${shape} (expected ${SHAPE_TYPES.join(', ')})`);
+  return {
+    type: 'shape',
+    xywh: formatXywh(opts.xywh),
+    rotate: 0,
+    shapeType: shape === 'rounded' ? 'rect' : shape,
+    radius: shape === 'rounded' ? 0.1 : 0,
+    filled: true,
+    fillColor: resolveCanvasColor(opts.fill ?? 'yellow', 'shape'),
+    strokeColor: resolveCanvasColor(opts.stroke ?? opts.fill ?? 'yellow', 'line'),
+    strokeWidth: 2,
+    strokeStyle: 'solid',
+    shapeStyle: 'General',
+    roughness: 1.4,
+    text: opts.text,
+    color: resolveCanvasColor(opts.color ?? 'black', 'line'),
+    fontFamily: FONT_FAMILY,
+    fontSize: 20,
+    fontWeight: '400',
+    fontStyle: 'normal',
+    textAlign: 'center',
+    textVerticalAlign: 'center',
+    padding: [10, 20],
+    maxWidth: false,
+  };
+}
+
+/** Add a shape element; returns its id. */
+export async function addShape(doc: any, opts: ShapeOptions): Promise<string> {
+  const Y = await getY();
+  const props = shapeProps(opts);
+  let id = '';
+  Y.transact(doc, () => {
+    const index = nextIndex(usedIndexes(doc));
+    id = writeElement(Y, ensureSurface(Y, doc), index, props);
+  });
+  return id;
+}
+
+export type TextOptions = {
+  text: string;
+  /** Top-left corner; the size is estimated from the text unless `xywh` is given. */
+  at?: [number, number];
+  xywh?: Xywh;
+  fontSize?: number;
+  color?: string;
+  align?: 'left' | 'center' | 'right';
+};
+
+/** Add a text element; returns its id. */
+export async function addText(doc: any, opts: TextOptions): Promise<string> {
+  if (!opts.text) throw new Error('text is required');
+  const fontSize = opts.fontSize ?? 24;
+  const lines = opts.text.split('\n');
+  const [x, y] = opts.xywh ?? opts.at ?? [0, 0];
+  const xywh: Xywh = opts.xywh ?? [x, y, Math.ceil(Math.max(...lines.map((l) => l.length)) * fontSize * 0.6), Math.ceil(lines.length * fontSize * 1.2)];
+  const Y = await getY();
+  let id = '';
+  Y.transact(doc, () => {
+    const index = nextIndex(usedIndexes(doc));
+    id = writeElement(Y, ensureSurface(Y, doc), index, {
+      type: 'text',
+      xywh: formatXywh(xywh),
+      rotate: 0,
+      text: opts.text,
+      color: resolveCanvasColor(opts.color ?? 'black', 'line'),
+      fontFamily: FONT_FAMILY,
+      fontSize,
+      fontWeight: '400',
+      fontStyle: 'normal',
+      textAlign: opts.align ?? 'left',
+      hasMaxWidth: false,
+    });
+  });
+  return id;
+}
+
+export type ConnectorEnd = string | [number, number];
+
+export type ConnectorOptions = {
+  /** Element or block id, or a canvas point. */
+  from: ConnectorEnd;
+  to: ConnectorEnd;
+  label?: string;
+  mode?: ConnectorMode;
+  stroke?: string;
+  /** Arrowhead at the target end (default arrow); the source end has none. */
+  arrow?: EndpointStyle;
+};
+
+const capitalize = (s: string) => s[0].toUpperCase() + s.slice(1);
+
+function connectorProps(opts: ConnectorOptions, exists: (id: string) => boolean): Record<string, any> {
+  const end = (value: ConnectorEnd) => {
+    if (Array.isArray(value)) return { position: value };
+    if (!exists(value)) throw new Error(`canvas element or block ${value} not found`);
+    return { id: value };
+  };
+  const mode = opts.mode ?? 'orthogonal';
+  if (!(mode in CONNECTOR_MODES)) throw new Error(`unknown connector mode ${mode} (expected ${Object.keys(CONNECTOR_MODES).join(', ')})`);
+  const arrow = opts.arrow ?? 'arrow';
+  if (!ENDPOINT_STYLES.includes(arrow)) throw new Error(`unknown arrow ${arrow} (expected ${ENDPOINT_STYLES.join(', ')})`);
+  return {
+    type: 'connector',
+    xywh: '[0,0,0,0]',
+    rotate: 0,
+    mode: CONNECTOR_MODES[mode],
+    source: end(opts.from),
+    target: end(opts.to),
+    stroke: resolveCanvasColor(opts.stroke ?? 'grey', 'line'),
+    strokeWidth: 2,
+    strokeStyle: 'solid',
+    rough: false,
+    roughness: 1.4,
+    frontEndpointStyle: 'None',
+    rearEndpointStyle: capitalize(arrow),
+    ...(opts.label
+      ? {
+          text: opts.label,
+          labelOffset: { distance: 0.5, anchor: 'center' },
+          labelStyle: { color: resolveCanvasColor('black', 'line'), fontFamily: FONT_FAMILY, fontSize: 16, fontWeight: '400', fontStyle: 'normal', textAlign: 'center' },
+        }
+      : {}),
+  };
+}
+
+function canvasIdExists(doc: any, surface: Surface | null): (id: string) => boolean {
+  return (id) => Boolean(surface?.elements?.has?.(id) || doc.getMap('blocks').has(id));
+}
+
+/** Connect two elements (or points); returns the connector id. */
+export async function addConnector(doc: any, opts: ConnectorOptions): Promise<string> {
+  const Y = await getY();
+  const props = connectorProps(opts, canvasIdExists(doc, findSurface(doc)));
+  let id = '';
+  Y.transact(doc, () => {
+    const index = nextIndex(usedIndexes(doc));
+    id = writeElement(Y, ensureSurface(Y, doc), index, props);
+  });
+  return id;
+}
+
+/** Bounding box of canvas items, or undefined when none has a position. */
+export function boundsOf(items: CanvasItem[]): Xywh | undefined {
+  const boxes = items.map((i) => i.xywh).filter((b): b is Xywh => !!b && (b[2] > 0 || b[3] > 0));
+  if (!boxes.length) return undefined;
+  const x = Math.min(...boxes.map((b) => b[0]));
+  const y = Math.min(...boxes.map((b) => b[1]));
+  const right = Math.max(...boxes.map((b) => b[0] + b[2]));
+  const bottom = Math.max(...boxes.map((b) => b[1] + b[3]));
+  return [x, y, right - x, bottom - y];
+}
+
+export type FrameOptions = {
+  title: string;
+  /** Explicit bounds; otherwise the box around `around` plus `padding`. */
+  xywh?: Xywh;
+  around?: string[];
+  padding?: number;
+  background?: string;
+};
+
+/** Add a frame block under the surface; returns its id. */
+export async function addFrame(doc: any, opts: FrameOptions): Promise<string> {
+  let xywh = opts.xywh;
+  if (!xywh) {
+    const ids = new Set(opts.around ?? []);
+    if (!ids.size) throw new Error('a frame needs xywh or the ids to frame');
+    const items = listCanvasItems(doc).filter((i) => ids.has(i.id));
+    const missing = [...ids].filter((id) => !items.some((i) => i.id === id));
+    if (missing.length) throw new Error(`canvas element or block ${missing.join(', ')} not found`);
+    const box = boundsOf(items);
+    if (!box) throw new Error('the framed items have no position');
+    const pad = opts.padding ?? 40;
+    xywh = [box[0] - pad, box[1] - pad, box[2] + 2 * pad, box[3] + 2 * pad];
+  }
+  const Y = await getY();
+  const id = newBlockId();
+  const frameXywh = xywh;
+  Y.transact(doc, () => {
+    const index = prevIndex(usedIndexes(doc));
+    const surface = ensureSurface(Y, doc);
+    const yFrame = new Y.Map();
+    yFrame.set('sys:id', id);
+    yFrame.set('sys:flavour', 'affine:frame');
+    yFrame.set('sys:version', 1);
+    yFrame.set('sys:children', new Y.Array());
+    yFrame.set('prop:title', new Y.Text(opts.title));
+    yFrame.set('prop:xywh', formatXywh(frameXywh));
+    yFrame.set('prop:index', index);
+    yFrame.set('prop:background', opts.background ? resolveCanvasColor(opts.background, 'shape') : '--affine-palette-transparent');
+    doc.getMap('blocks').set(id, yFrame);
+    surface.yBlock.get('sys:children').push([id]);
+  });
+  return id;
+}
+
+// --- Diagram import ----------------------------------------------------------
+
+export type DiagramNode = { id: string; label?: string; shape?: ShapeType; color?: string; width?: number; height?: number };
+export type DiagramEdge = { from: string; to: string; label?: string };
+export type Diagram = {
+  title?: string;
+  /** Flow direction of the layers (default right). */
+  direction?: 'right' | 'down';
+  nodes: DiagramNode[];
+  edges?: DiagramEdge[];
+};
+
+/** Validate a parsed diagram.json. */
+export function parseDiagram(raw: unknown): Diagram {
+  const d = raw as any;
+  if (!d || typeof d !== 'object' || !Array.isArray(d.nodes) || !d.nodes.length) throw new Error('diagram needs a non-empty "nodes" array');
+  const ids = new Set<string>();
+  for (const n of d.nodes) {
+    if (!n || typeof n.id !== 'string' || !n.id) throw new Error('every node needs a string "id"');
+    if (ids.has(n.id)) throw new Error(`duplicate node id ${n.id}`);
+    if (n.shape !== undefined && !SHAPE_TYPES.includes(n.shape)) throw new Error(`node ${n.id}: unknown shape ${n.shape}`);
+    ids.add(n.id);
+  }
+  if (d.edges !== undefined && !Array.isArray(d.edges)) throw new Error('"edges" must be an array');
+  for (const e of d.edges ?? []) {
+    if (!ids.has(e?.from) || !ids.has(e?.to)) throw new Error(`edge ${e?.from} -> ${e?.to} references an unknown node`);
+  }
+  if (d.direction !== undefined && d.direction !== 'right' && d.direction !== 'down') throw new Error('"direction" must be right or down');
+  return d as Diagram;
+}
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 80;
+const LAYER_GAP = 120;
+const NODE_GAP = 60;
+
+/**
+ * Layered layout: each node goes one layer after its furthest predecessor
+ * (cycles are broken at the first node declared), then nodes in a layer are
+ * ordered by the mean position of their predecessors. Returns positions
+ * relative to `origin`.
+ */
+export function layoutDiagram(diagram: Diagram, origin: [number, number] = [0, 0]): Map<string, Xywh> {
+  const ids = diagram.nodes.map((n) => n.id);
+  const edges = (diagram.edges ?? []).filter((e) => e.from !== e.to);
+  const outgoing = new Map(ids.map((id) => [id, [] as string[]]));
+  const incoming = new Map(ids.map((id) => [id, [] as string[]]));
+  for (const e of edges) {
+    outgoing.get(e.from)!.push(e.to);
+    incoming.get(e.to)!.push(e.from);
+  }
+
+  const layer = new Map<string, number>();
+  const pending = new Map(ids.map((id) => [id, incoming.get(id)!.length]));
+  const remaining = new Set(ids);
+  const queue = ids.filter((id) => pending.get(id) === 0);
+  while (remaining.size) {
+    if (!queue.length) queue.push(remaining.values().next().value as string);
+    const id = queue.shift()!;
+    if (!remaining.has(id)) continue;
+    remaining.delete(id);
+    const l = layer.get(id) ?? 0;
+    layer.set(id, l);
+    for (const to of outgoing.get(id)!) {
+      if (!remaining.has(to)) continue;
+      layer.set(to, Math.max(layer.get(to) ?? 0, l + 1));
+      pending.set(to, pending.get(to)! - 1);
+      if (pending.get(to) === 0) queue.push(to);
+    }
+  }
+
+  const layers: string[][] = [];
+  for (const id of ids) (layers[layer.get(id)!] ??= []).push(id);
+  const slot = new Map<string, number>();
+  layers.forEach((members, l) => {
+    if (l > 0) {
+      const mean = (id: string) => {
+        const preds = incoming.get(id)!.filter((p) => slot.has(p) && layer.get(p)! < l);
+        return preds.length ? preds.reduce((sum, p) => sum + slot.get(p)!, 0) / preds.length : Infinity;
+      };
+      const keys = new Map(members.map((id, i) => [id, [mean(id), i] as const]));
+      members.sort((a, b) => keys.get(a)![0] - keys.get(b)![0] || keys.get(a)![1] - keys.get(b)![1]);
+    }
+    members.forEach((id, i) => slot.set(id, i));
+  });
+
+  const size = new Map(diagram.nodes.map((n) => [n.id, [n.width ?? NODE_WIDTH, n.height ?? NODE_HEIGHT] as const]));
+  const cellW = Math.max(...[...size.values()].map((s) => s[0]));
+  const cellH = Math.max(...[...size.values()].map((s) => s[1]));
+  const widest = Math.max(...layers.map((m) => m.length));
+  const down = diagram.direction === 'down';
+  const positions = new Map<string, Xywh>();
+  layers.forEach((members, l) => {
+    // Center shorter layers against the widest one
+    const offset = (widest - members.length) / 2;
+    members.forEach((id, i) => {
+      const [w, h] = size.get(id)!;
+      const cx = down ? (offset + i) * (cellW + NODE_GAP) + cellW / 2 : l * (cellW + LAYER_GAP) + cellW / 2;
+      const cy = down ? l * (cellH + LAYER_GAP) + cellH / 2 : (offset + i) * (cellH + NODE_GAP) + cellH / 2;
+      positions.set(id, [Math.round(origin[0] + cx - w / 2), Math.round(origin[1] + cy - h / 2), w, h]);
+    });
+  });
+  return positions;
+}
+
+export type ImportDiagramResult = {
+  /** Diagram node id -> shape element id. */
+  nodes: Record<string, string>;
+  connectors: string[];
+  frameId?: string;
+};
+
+/** Lay out a diagram below the existing canvas content and write it in one transaction. */
+export async function importDiagram(doc: any, diagram: Diagram): Promise<ImportDiagramResult> {
+  const existing = boundsOf(listCanvasItems(doc));
+  const pad = diagram.title ? 40 : 0;
+  const origin: [number, number] = existing ? [existing[0] + pad, existing[1] + existing[3] + 100 + pad] : [pad, pad];
+  const positions = layoutDiagram(diagram, origin);
+  const Y = await getY();
+  const result: ImportDiagramResult = { nodes: {}, connectors: [] };
+  Y.transact(doc, () => {
+    const surface = ensureSurface(Y, doc);
+    const indexes = usedIndexes(doc);
+    const index = () => {
+      const next = nextIndex(indexes);
+      indexes.push(next);
+      return next;
+    };
+    for (const node of diagram.nodes) {
+      const props = shapeProps({ xywh: positions.get(node.id)!, shape: node.shape ?? 'rounded', text: node.label ?? node.id, fill: node.color });
+      result.nodes[node.id] = writeElement(Y, surface, index(), props);
+    }
+    for (const edge of diagram.edges ?? []) {
+      const props = connectorProps({ from: result.nodes[edge.from], to: result.nodes[edge.to], label: edge.label }, () => true);
+      result.connectors.push(writeElement(Y, surface, index(), props));
+    }
+  });
+  if (diagram.title) result.frameId = await addFrame(doc, { title: diagram.title, around: Object.values(result.nodes), padding: pad });
+  return result;
+}
+
+export default {
+  resolveCanvasColor,
+  parseXywh,
+  parsePoint,
+  nextIndex,
+  prevIndex,
+  listCanvasItems,
+  addShape,
+  addText,
+  addConnector,
+  addFrame,
+  boundsOf,
+  parseDiagram,
+  layoutDiagram,
+  importDiagram,
+};
@@ -465,6 +465,40 @@ export async function removeComment(
   return Boolean(v);
 }
 
+// Doc histories
+export interface DocHistory {
+  id: string;
+  /** ISO timestamp; also the key for fetching the snapshot (see history.ts). */
+  timestamp: string;
+  editor?: { name?: string | null; avatarUrl?: string | null } | null;
+}
+
+export async function listDocHistories(
+  workspaceId: string,
+  docId: string,
+  take?: number,
+  before?: string,
+  opts?: HttpOptions,
+): Promise<DocHistory[]> {
+  const query = /* GraphQL */ `
+    query ListDocHistories($workspaceId: String!, $docId: String!, $take: Int, $before: DateTime) {
+      workspace(id: $workspaceId) {
+        id
+        histories(guid: $docId, take: $take, before: $before) {
+          id
+          timestamp
+          editor { name avatarUrl }
+        }
+      }
+    }
+  `;
+  const variables: Record<string, unknown> = { workspaceId, docId };
+  if (typeof take === 'number') variables.take = take;
+  if (before) variables.before = before;
+  const data = await gql<{ workspace: { id: string; histories: DocHistory[] } }>(query, variables, opts);
+  return data.workspace.histories ?? [];
+}
+
 // Access tokens (current user)
 export interface AccessToken {
   id: string;
@@ -533,6 +567,7 @@ export default {
   listComments,
   addComment,
   removeComment,
+  listDocHistories,
   listAccessTokens,
   createAccessToken,
   revokeAccessToken,
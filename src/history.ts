@@ -0,0 +1,76 @@
+/**
+ * Doc history snapshots for `affine doc history`
+ *
+ * Versions are listed through GraphQL (`workspace.histories`, see graphql.ts);
+ * each one's Yjs state is fetched over REST:
+ *   - GET /api/workspaces/:id/docs/:docId/histories/:timestamp
+ * Restoring rewrites the current doc's blocks to the snapshot's and pushes
+ * that as a normal update over the realtime channel, so connected editors
+ * receive it like any other edit.
+ */
+
+import request, { type HttpOptions } from './http';
+import { getY, plainText, readPageTree, restoreBlocks } from './blocks';
+import { upsertPageMeta } from './meta';
+import { editDoc, editWorkspaceRoot, type RealtimeOptions } from './yjs';
+
+/** Accept an ISO date or epoch milliseconds and return the ISO form used by the API. */
+export function normalizeHistoryTimestamp(at: string): string {
+  const raw = String(at ?? '').trim();
+  const date = /^\d+$/.test(raw) ? new Date(Number(raw)) : new Date(raw);
+  if (!raw || Number.isNaN(date.getTime())) throw new Error(`invalid timestamp: ${at}`);
+  return date.toISOString();
+}
+
+/** Download the raw Yjs update stored for one history version. */
+export async function fetchHistorySnapshot(
+  workspaceId: string,
+  docId: string,
+  timestamp: string,
+  opts: HttpOptions = {},
+): Promise<Uint8Array> {
+  const ws = encodeURIComponent(workspaceId);
+  const doc = encodeURIComponent(docId);
+  const ts = encodeURIComponent(normalizeHistoryTimestamp(timestamp));
+  const res = await request<Buffer>({
+    baseUrl: opts.baseUrl,
+    headers: opts.headers,
+    token: opts.token,
+    cookie: opts.cookie,
+    timeoutMs: opts.timeoutMs,
+    maxAttempts: opts.maxAttempts,
+    debug: opts.debug,
+    path: `/api/workspaces/${ws}/docs/${doc}/histories/${ts}`,
+    method: 'GET',
+    responseType: 'buffer',
+  });
+  const buf = (res.data as unknown as Buffer) ?? res.rawBody;
+  if (!buf || !buf.length) throw new Error(`history snapshot ${timestamp} of ${docId} is empty`);
+  return new Uint8Array(buf);
+}
+
+/** Fetch a history version and load it into a fresh Y.Doc. */
+export async function loadHistoryDoc(workspaceId: string, docId: string, timestamp: string, opts: HttpOptions = {}): Promise<any> {
+  const Y = await getY();
+  const doc = new Y.Doc({ guid: docId });
+  Y.applyUpdate(doc, await fetchHistorySnapshot(workspaceId, docId, timestamp, opts));
+  return doc;
+}
+
+export type RestoreDocResult = {
+  /** Blocks rewritten or removed; 0 when the doc already matched the version. */
+  blocks: number;
+  title: string;
+  timestamp?: number;
+};
+
+/** Push the blocks of an older version back to the live doc and sync its title into the page list. */
+export async function restoreDocVersion(opts: RealtimeOptions & { docId: string; at: string }): Promise<RestoreDocResult> {
+  const snapshot = await loadHistoryDoc(opts.workspaceId, opts.docId, opts.at, opts);
+  const title = plainText(readPageTree(snapshot)?.props?.title);
+  const { result: blocks, timestamp } = await editDoc(opts, (doc) => restoreBlocks(doc, snapshot));
+  if (blocks) await editWorkspaceRoot(opts, (root) => upsertPageMeta(root, opts.docId, { title }));
+  return { blocks, title, ...(timestamp ? { timestamp } : {}) };
+}
+
+export default { normalizeHistoryTimestamp, fetchHistorySnapshot, loadHistoryDoc, restoreDocVersion };
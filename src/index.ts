@@ -5,18 +5,82 @@
 declare const process: any;
 
 import { spawn } from 'node:child_process';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
 import { Command, Option } from 'commander';
-import { listWorkspaces, listDocs, createWorkspace, getWorkspace, updateWorkspace, getDoc, publishDoc, revokePublicDoc, listComments, addComment, removeComment } from './graphql';
+import { listWorkspaces, listDocs, createWorkspace, getWorkspace, updateWorkspace, getDoc, publishDoc, revokePublicDoc, listComments, addComment, removeComment, listDocHistories } from './graphql';
 import { readDocument, semanticSearch } from './mcp';
 import { loadConfig, writeConfigProfile } from './config';
 import { redactConfigDeep } from './credentials';
 import { whoami as whoAmIFunc, tokens } from './auth';
-import { createDoc as yCreateDoc, appendText as yAppendText, deleteDocRealtime as yDeleteDoc } from './yjs';
+import { createDoc as yCreateDoc, duplicateDoc as yDuplicateDoc, renameDoc as yRenameDoc, appendText as yAppendText, loadDoc as yLoadDoc, deleteDocRealtime as yDeleteDoc, watchDoc as yWatchDoc, editDoc as yEditDoc, editWorkspaceRoot as yEditWorkspaceRoot, pushDocUpdate as yPushDocUpdate, flushOfflineQueue, RealtimeSession, type QueueFlushResult } from './yjs';
+import { OfflineQueue } from './queue';
+import { collectPresence } from './presence';
 import { upload as blobUpload, get as blobGet, rm as blobRm } from './blobs';
 import { toJsonList, toTable } from './format';
 import { withHints } from './errors';
 import { withTelemetry } from './telemetry';
 import { keywordSearchWithFallback } from './search';
+import { parseInline, parseMarkdown, parseMarkdownPage, renderMarkdown } from './markdown';
+import {
+  BLOCK_TYPES,
+  blockSpecFromType,
+  diffBlockSnapshots,
+  insertBlocks,
+  listTodos,
+  moveBlock,
+  plainText,
+  readBlockTree,
+  readPageTree,
+  removeBlocks,
+  resolvePosition,
+  setPageTitle,
+  setTodoChecked,
+  snapshotBlocks,
+  updateBlock,
+  type BlockChange,
+  type BlockNode,
+  type BlockPosition,
+  type TodoItem,
+} from './blocks';
+import { exportWorkspace, importWorkspace, resolveImageBlocks } from './backup';
+import { runBatch } from './batch';
+import { diffPageFromDoc, diffPageFromSpecs, diffPages, formatDocDiff, type DiffPage } from './diff';
+import { applySync, formatSyncOp, planSync, type SyncOp } from './sync';
+import { addPageTag, createTag, deleteTag, findTag, listPageMetas, listTags, removePageTag, updateTag, upsertPageMeta } from './meta';
+import { copyDocToWorkspace } from './copy';
+import { fillPlaceholders, parseTemplateVars, type FillResult } from './template';
+import { loadHistoryDoc, normalizeHistoryTimestamp, restoreDocVersion } from './history';
+import { listTrash, purgeDoc, restoreDoc, trashDoc } from './trash';
+import {
+  PROPERTY_TYPES,
+  filterDocRecords,
+  formatPropertyValue,
+  getDocProperties,
+  listDocRecords,
+  listPropertySchemas,
+  parseAssignments,
+  resolveColumns,
+  setDocProperties,
+  type PropertyType,
+} from './props';
+import { backlinksFrom, buildLinkGraph, collectDocLinks, formatGraphDot } from './links';
+import {
+  CONNECTOR_MODES,
+  ENDPOINT_STYLES,
+  SHAPE_TYPES,
+  addConnector,
+  addFrame,
+  addShape,
+  addText,
+  importDiagram,
+  listCanvasItems,
+  parseDiagram,
+  parsePoint,
+  parseXywh,
+  type ConnectorEnd,
+  type Diagram,
+} from './edgeless';
 
 async function httpFromOpts(opts: any): Promise<any> {
   const env = (process as any)?.env ?? {};
@@ -55,9 +119,18 @@ async function httpFromOpts(opts: any): Promise<any> {
     // duration to roughly the configured timeout.
     maxAttempts: 1,
     debug: (opts as any).verbose,
+    // Realtime pushes that hit a dropped connection are kept for `affine realtime queue flush`
+    queue: (opts as any).offlineQueue === false ? undefined : offlineQueue(),
+    presence: (opts as any).presence ? { name: String((opts as any).presence) } : undefined,
   };
 }
 
+function offlineQueue(): OfflineQueue {
+  return new OfflineQueue({
+    onAdd: (entry) => console.error(`Connection lost; queued update for ${entry.docId} (${entry.bytes} B). Run \`affine realtime queue flush\` to deliver it.`),
+  });
+}
+
 function deriveUiUrl(apiBaseUrl?: string): string | undefined {
   if (!apiBaseUrl) return undefined;
   try {
@@ -100,6 +173,8 @@ function cliError(err: unknown, hints?: string[]): Error {
   return new Error(withHints(msg, hints));
 }
 
+const collectValues = (v: string, prev: string[] = []) => [...prev, v];
+
 const program = new Command();
 
 program
@@ -120,6 +195,8 @@ program
   .addOption(new Option('--profile <name>', 'Configuration profile'))
   .option('--json', 'Output JSON', false)
   .option('--verbose', 'Verbose logging', false)
+  .option('--no-offline-queue', 'Fail realtime writes when the connection drops instead of queueing them on disk (a command that cannot connect at all fails either way)')
+  .addOption(new Option('--presence <name>', 'Show <name> (e.g. release-bot) to the editors of the docs this command writes'))
   .addOption(
     new Option('--timeout <ms>', 'Request timeout in milliseconds')
       .argParser((v) => {
@@ -234,6 +311,114 @@ ws
     }
   }));
 
+ws
+  .command('export')
+  .description('Export every doc (and referenced blobs) of a workspace to a directory')
+  .argument('<id>', 'Workspace ID')
+  .addOption(new Option('--out <dir>', 'Output directory').makeOptionMandatory())
+  .addOption(new Option('--format <format>', 'Doc format: Markdown or raw Yjs snapshot').choices(['md', 'ydoc']).default('md'))
+  .addOption(new Option('--page-size <n>', 'Docs per listDocs page').argParser((v) => parseInt(String(v), 10)).default(100))
+  .action(withTelemetry('ws/export', async function (this: Command, id: string) {
+    const opts = this.optsWithGlobals();
+    const httpOpts: any = await httpFromOpts(opts);
+    const isJson = Boolean((opts as any).json);
+    try {
+      const res = await exportWorkspace({
+        ...httpOpts,
+        workspaceId: id,
+        outDir: (opts as any).out,
+        format: (opts as any).format,
+        pageSize: (opts as any).pageSize,
+        onProgress: (evt) => {
+          if (isJson) return;
+          if (evt.type === 'failed') console.error(`failed   ${evt.docId}: ${evt.error}`);
+          else if ((opts as any).verbose) console.error(`${evt.type.padEnd(8)} ${evt.docId} ${evt.title}`.trimEnd());
+        },
+      });
+      if (isJson) console.log(JSON.stringify(res, null, 2));
+      else {
+        console.log(`Exported ${res.exported}, skipped ${res.skipped} unchanged, failed ${res.failed.length} of ${res.total} docs; downloaded ${res.blobs} blobs`);
+        console.log(res.manifestPath);
+      }
+      if (res.failed.length) (process as any).exitCode = 1;
+    } catch (e) {
+      throw cliError(e, [
+        'Verify that the workspace id is correct and your credentials grant access to it.',
+        'Re-run the same command to resume; unchanged docs are skipped using manifest.json.',
+      ]);
+    }
+  }));
+
+ws
+  .command('graph')
+  .description('Emit the linked-doc graph of a workspace (every page is loaded)')
+  .argument('[id]', 'Workspace ID (defaults to --workspace-id)')
+  .addOption(new Option('--format <format>', 'Graphviz DOT or JSON (nodes, edges, orphans, missing)').choices(['dot', 'json']).default('dot'))
+  .addOption(new Option('--out <file>', 'Write to a file instead of stdout'))
+  .action(withTelemetry('ws/graph', async function (this: Command, id?: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = id || getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    try {
+      const graph = await buildLinkGraph({
+        workspaceId,
+        ...httpOpts,
+        onProgress: (evt) => {
+          if ((opts as any).verbose) console.error(`[${evt.index + 1}/${evt.total}] ${evt.docId}`);
+        },
+      });
+      for (const f of graph.failed) console.error(`failed   ${f.docId}: ${f.error}`);
+      const out = (opts as any).format === 'json' || (opts as any).json ? `${JSON.stringify(graph, null, 2)}\n` : formatGraphDot(graph);
+      if ((opts as any).out) {
+        await fs.writeFile((opts as any).out, out, 'utf8');
+        console.error(`Wrote ${graph.nodes.length} pages and ${graph.edges.length} links to ${(opts as any).out} (${graph.orphans.length} orphaned)`);
+      } else process.stdout.write(out);
+      if (graph.failed.length) (process as any).exitCode = 1;
+    } catch (e) {
+      throw cliError(e, ['Verify that the workspace id is correct and your cookie/token is valid for realtime access.']);
+    }
+  }));
+
+ws
+  .command('import')
+  .description('Import a directory of Markdown files as docs (re-runs update the docs created before)')
+  .argument('<dir>', 'Directory to walk for .md files')
+  .addOption(new Option('--mapping <file>', 'Path -> docId mapping file (default: <dir>/.affine-import.json)'))
+  .addOption(new Option('--folders <mode>', 'Mirror sub-folders as tags or collections').choices(['none', 'tags', 'collections']).default('none'))
+  .action(withTelemetry('ws/import', async function (this: Command, dir: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    const isJson = Boolean((opts as any).json);
+    try {
+      const res = await importWorkspace({
+        ...httpOpts,
+        workspaceId,
+        dir,
+        mappingPath: (opts as any).mapping,
+        folders: (opts as any).folders,
+        onProgress: (evt) => {
+          if (isJson) return;
+          if (evt.type === 'failed') console.error(`failed   ${evt.path}: ${evt.error}`);
+          else console.error(`${evt.type.padEnd(8)} ${evt.path} -> ${evt.docId}`);
+        },
+      });
+      if (isJson) console.log(JSON.stringify(res, null, 2));
+      else {
+        console.log(`Created ${res.created}, updated ${res.updated}, failed ${res.failed.length} of ${res.total} files; uploaded ${res.blobs} blobs`);
+        console.log(res.mappingPath);
+      }
+      if (res.failed.length) (process as any).exitCode = 1;
+    } catch (e) {
+      throw cliError(e, [
+        'Check that the directory exists and contains .md files.',
+        'Verify your base URL and cookie/token are valid for realtime access.',
+      ]);
+    }
+  }));
+
 const wsEmb = ws.command('embeddings').description('Embeddings settings');
 
 wsEmb
@@ -288,6 +473,9 @@ docCmd
   .description('List docs in a workspace')
   .addOption(new Option('--first <n>', 'Limit results').argParser((v) => parseInt(String(v), 10)))
   .addOption(new Option('--after <cursor>', 'Pagination cursor'))
+  .addOption(new Option('--tag <name>', 'Only docs carrying this tag').conflicts('after'))
+  .addOption(new Option('--where <key=value>', 'Only docs whose property (or title/tags) has this value; repeatable').argParser(collectValues).conflicts('after'))
+  .addOption(new Option('--columns <list>', 'Comma-separated columns: id, title, tags, createDate, updatedDate or doc property names').conflicts('after'))
   .action(withTelemetry('doc/list', async function (this: Command) {
     const opts = this.optsWithGlobals();
     const workspaceId = getWorkspaceIdFrom(opts);
@@ -296,6 +484,23 @@ docCmd
     const first = (opts as any).first as number | undefined;
     const after = (opts as any).after as string | undefined;
     try {
+      // Tags and properties live in the workspace root doc, so these filters list from its page list
+      if ((opts as any).tag !== undefined || (opts as any).where || (opts as any).columns) {
+        const root = await yLoadDoc({ workspaceId, docId: workspaceId, ...httpOpts, allowEmpty: true });
+        const where = parseAssignments((opts as any).where);
+        if ((opts as any).tag !== undefined) {
+          const tag = findTag(root, String((opts as any).tag));
+          if (!tag) throw new Error(`tag ${(opts as any).tag} not found`);
+          where.push(['tags', tag.value]);
+        }
+        const columns = resolveColumns(root, String((opts as any).columns ?? 'id,title').split(','));
+        const rows = filterDocRecords(root, listDocRecords(root), where)
+          .slice(0, first)
+          .map((r) => Object.fromEntries(columns.map((c) => [c, r[c] ?? ''])));
+        if ((opts as any).json) console.log(JSON.stringify(toJsonList(rows), null, 2));
+        else for (const line of toTable(rows, columns)) console.log(line);
+        return;
+      }
       const conn = await listDocs(workspaceId, first, after, httpOpts);
       if ((opts as any).json) {
         const nodes = (conn.edges ?? []).map((e) => e.node);
@@ -344,11 +549,43 @@ docCmd
         withHints(msg, [
           'Ensure Copilot/MCP is enabled on the server and the workspace allows embeddings.',
           `You can enable embeddings with: affine ws embeddings enable ${workspaceId}`,
+          `Or render Markdown locally without embeddings: affine doc export ${docId} --format md`,
         ]),
       );
     }
   }));
 
+docCmd
+  .command('export')
+  .description('Export a document by rendering its Yjs blocks locally (no MCP/embeddings required)')
+  .argument('<docId>', 'Document ID')
+  .addOption(new Option('--format <format>', 'Output format').choices(['md']).default('md'))
+  .addOption(new Option('--out <file>', 'Write to a file instead of stdout'))
+  .option('--no-title', 'Omit the leading "# Title" line')
+  .action(withTelemetry('doc/export', async function (this: Command, docId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    try {
+      const doc = await yLoadDoc({ workspaceId, docId, ...httpOpts } as any);
+      const page = readPageTree(doc);
+      if (!page) throw new Error(`Doc ${docId} has no affine:page block`);
+      const markdown = renderMarkdown(page, { includeTitle: (opts as any).title !== false });
+      const title = plainText(page.props?.title);
+      const outPath = (opts as any).out as string | undefined;
+      if (outPath) await fs.writeFile(outPath, markdown, 'utf8');
+      if ((opts as any).json) console.log(JSON.stringify({ docId, title, markdown, outPath }, null, 2));
+      else if (outPath) console.log(outPath);
+      else process.stdout.write(markdown);
+    } catch (e) {
+      throw cliError(e, [
+        'Ensure the document id is correct and your token or cookie grants realtime access.',
+        'Check server logs for Socket.IO or Yjs errors.',
+      ]);
+    }
+  }));
+
 docCmd
   .command('get')
   .description('Get a document by id')
@@ -376,7 +613,7 @@ docCmd
 
 docCmd
   .command('delete')
-  .description('Delete a document by id')
+  .description('Delete a document by id (bypasses the trash; see doc trash / doc purge)')
   .argument('<docId>', 'Document ID')
   .action(withTelemetry('doc/delete', async function (this: Command, docId: string) {
     const opts = this.optsWithGlobals();
@@ -399,6 +636,103 @@ docCmd
     }
   }));
 
+// trash: a flag on the page-list entry, like the app; purge is the hard delete
+const TRASH_HINTS = [
+  'Verify the doc id (see `affine doc list`) and that your cookie/token is valid for realtime access.',
+];
+
+const docTrash = docCmd
+  .command('trash')
+  .description('Move a doc to the trash (or list trashed docs)')
+  .argument('<docId>', 'Document ID')
+  .action(withTelemetry('doc/trash', async function (this: Command, docId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    try {
+      const res = await trashDoc({ workspaceId, docId, ...httpOpts });
+      if ((opts as any).json) console.log(JSON.stringify(res, null, 2));
+      else console.log(res.changed ? `Moved ${docId} to the trash` : `${docId} is already in the trash`);
+    } catch (e) {
+      throw cliError(e, TRASH_HINTS);
+    }
+  }));
+
+docTrash
+  .command('list')
+  .description('List docs in the trash (most recently trashed first)')
+  .action(withTelemetry('doc/trash_list', async function (this: Command) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    try {
+      const pages = await listTrash({ workspaceId, ...httpOpts });
+      const items = pages.map((m) => ({ id: m.id, title: m.title, trashDate: m.trashDate ? new Date(m.trashDate).toISOString() : '' }));
+      if ((opts as any).json) console.log(JSON.stringify(toJsonList(items), null, 2));
+      else if (!items.length) console.error('Trash is empty');
+      else for (const line of toTable(items, ['id', 'trashDate', 'title'])) console.log(line);
+    } catch (e) {
+      throw cliError(e, ['Verify the workspace id and that your cookie/token is valid for realtime access.']);
+    }
+  }));
+
+docCmd
+  .command('restore')
+  .description('Take a doc out of the trash')
+  .argument('<docId>', 'Document ID')
+  .action(withTelemetry('doc/restore', async function (this: Command, docId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    try {
+      const res = await restoreDoc({ workspaceId, docId, ...httpOpts });
+      if ((opts as any).json) console.log(JSON.stringify(res, null, 2));
+      else console.log(res.changed ? `Restored ${docId}` : `${docId} is not in the trash`);
+    } catch (e) {
+      throw cliError(e, ['Use `affine doc trash list` to see trashed docs.', ...TRASH_HINTS]);
+    }
+  }));
+
+docCmd
+  .command('purge')
+  .description('Permanently delete a doc and verify it is gone')
+  .argument('<docId>', 'Document ID')
+  .addOption(new Option('--yes', 'Do not ask for confirmation'))
+  .action(withTelemetry('doc/purge', async function (this: Command, docId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    if (!(opts as any).yes) {
+      const stdin = (process as any).stdin;
+      if (!stdin?.isTTY) throw new Error('refusing to purge without confirmation; pass --yes');
+      const { createInterface } = await import('node:readline/promises');
+      const rl = createInterface({ input: stdin, output: (process as any).stdout });
+      try {
+        const answer = await rl.question(`Permanently delete ${docId}? This cannot be undone. [y/N] `);
+        if (!/^y(es)?$/i.test(answer.trim())) {
+          console.error('Aborted');
+          return;
+        }
+      } finally {
+        rl.close();
+      }
+    }
+    try {
+      const res = await purgeDoc({ workspaceId, docId, ...httpOpts });
+      if ((opts as any).json) console.log(JSON.stringify({ ok: true, ...res }, null, 2));
+      else console.log(`Purged ${docId}`);
+    } catch (e) {
+      throw cliError(e, [
+        'Ensure you have permission to delete this document.',
+        'Check server logs for doc storage or indexer errors.',
+      ]);
+    }
+  }));
+
 docCmd
   .command('publish')
   .description('Publish a document')
@@ -445,15 +779,19 @@ docCmd
   .description('Create a new Yjs page doc via realtime channel')
   .addOption(new Option('--title <title>', 'Document title').makeOptionMandatory())
   .addOption(new Option('--content <text>', 'Initial paragraph text'))
+  .addOption(new Option('--markdown', 'Treat --content as Markdown (inline marks, [[docId]] links, @[userId] mentions, lists, …)'))
   .action(withTelemetry('doc/create', async function (this: Command) {
     const opts = this.optsWithGlobals();
     const workspaceId = getWorkspaceIdFrom(opts);
     if (!workspaceId) throw new Error('workspace-id is required');
     const httpOpts: any = await httpFromOpts(opts);
     const title = (opts as any).title as string;
-    const content = (opts as any).content as string | undefined;
-    const { docId, timestamp } = await yCreateDoc({ workspaceId, title, content, ...httpOpts } as any);
-    if ((opts as any).json) console.log(JSON.stringify({ docId, timestamp }, null, 2));
+    const raw = (opts as any).content as string | undefined;
+    const markdown = Boolean((opts as any).markdown) && typeof raw === 'string';
+    const content = markdown ? undefined : raw;
+    const blocks = markdown ? parseMarkdown(String(raw)) : undefined;
+    const { docId, timestamp, queued } = await yCreateDoc({ workspaceId, title, content, blocks, ...httpOpts } as any);
+    if ((opts as any).json) console.log(JSON.stringify({ docId, timestamp, queued }, null, 2));
     else console.log(docId);
   }));
 
@@ -462,136 +800,1313 @@ docCmd
   .description('Append a paragraph of text to a Yjs doc via realtime channel')
   .argument('<docId>', 'Document ID')
   .addOption(new Option('--text <text>', 'Paragraph text').makeOptionMandatory())
+  .addOption(new Option('--markdown', 'Treat --text as Markdown (inline marks, [[docId]] links, @[userId] mentions, lists, …)'))
   .action(withTelemetry('doc/append', async function (this: Command, docId: string) {
     const opts = this.optsWithGlobals();
     const workspaceId = getWorkspaceIdFrom(opts);
     if (!workspaceId) throw new Error('workspace-id is required');
     const httpOpts: any = await httpFromOpts(opts);
     const text = (opts as any).text as string;
-    const { accepted, timestamp } = await yAppendText({ workspaceId, docId, text, ...httpOpts } as any);
-    if ((opts as any).json) console.log(JSON.stringify({ accepted, timestamp }, null, 2));
-    else console.log(accepted ? 'OK' : 'FAILED');
+    const blocks = (opts as any).markdown ? parseMarkdown(text) : undefined;
+    const { accepted, timestamp, queued } = await yAppendText({ workspaceId, docId, text, blocks, ...httpOpts } as any);
+    if ((opts as any).json) console.log(JSON.stringify({ accepted, timestamp, queued }, null, 2));
+    else console.log(accepted ? 'OK' : queued ? 'QUEUED' : 'FAILED');
   }));
 
-// comment commands (CLI-013)
-const commentCmd = program.command('comment').description('Comment commands');
+docCmd
+  .command('import')
+  .description('Import a Markdown file as a new Yjs page doc via realtime channel')
+  .argument('<file>', 'Markdown file path')
+  .addOption(new Option('--title <title>', 'Document title (defaults to the leading # heading, then the file name)'))
+  .action(withTelemetry('doc/import', async function (this: Command, file: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    let markdown: string;
+    try {
+      markdown = await fs.readFile(file, 'utf8');
+    } catch (e) {
+      throw cliError(e, ['Check that the Markdown file exists and is readable.']);
+    }
+    const explicitTitle = (opts as any).title as string | undefined;
+    const page = explicitTitle ? { title: explicitTitle, blocks: parseMarkdown(markdown) } : parseMarkdownPage(markdown);
+    const title = page.title || path.basename(file).replace(/\.(md|markdown)$/i, '');
+    try {
+      await resolveImageBlocks(page.blocks, path.dirname(path.resolve(file)), workspaceId, httpOpts);
+      const { docId, timestamp } = await yCreateDoc({ workspaceId, title, blocks: page.blocks, ...httpOpts } as any);
+      if ((opts as any).json) console.log(JSON.stringify({ docId, title, blocks: page.blocks.length, timestamp }, null, 2));
+      else console.log(docId);
+    } catch (e) {
+      throw cliError(e, [
+        'Verify your base URL and cookie/token are valid for realtime access.',
+        'Check server logs for Socket.IO or Yjs errors.',
+        'Local images are uploaded relative to the Markdown file; check that they exist.',
+      ]);
+    }
+  }));
 
-commentCmd
-  .command('list')
-  .description('List comments for a document')
-  .argument('<docId>', 'Document ID')
-  .addOption(new Option('--first <n>', 'Limit results').argParser((v) => parseInt(String(v), 10)))
-  .addOption(new Option('--after <cursor>', 'Pagination cursor'))
-  .action(withTelemetry('comment/list', async function (this: Command, docId: string) {
+docCmd
+  .command('batch')
+  .description('Run newline-delimited JSON doc operations from stdin over one realtime connection')
+  .addOption(new Option('--stop-on-error', 'Stop at the first failing line'))
+  .action(withTelemetry('doc/batch', async function (this: Command) {
     const opts = this.optsWithGlobals();
     const workspaceId = getWorkspaceIdFrom(opts);
     if (!workspaceId) throw new Error('workspace-id is required');
     const httpOpts: any = await httpFromOpts(opts);
-    const first = (opts as any).first as number | undefined;
-    const after = (opts as any).after as string | undefined;
-    const conn = await listComments(workspaceId, docId, first, after, httpOpts);
-    if ((opts as any).json) {
-      // For JSON output, emit a flat items[] list to keep parsing simple for smoke tests.
-      console.log(JSON.stringify(toJsonList(conn.edges ?? [], undefined), null, 2));
-    } else {
-      const rows = (conn.edges ?? []).map((e) => ({ id: e.id, text: e.text ?? '' }));
-      for (const line of toTable(rows, ['id', 'text'])) console.log(line);
+    const isJson = Boolean((opts as any).json);
+    const { createInterface } = await import('node:readline');
+    const rl = createInterface({ input: (process as any).stdin, crlfDelay: Infinity });
+    const session = new RealtimeSession({ workspaceId, ...httpOpts });
+    try {
+      const summary = await runBatch(rl, { workspaceId, ...httpOpts, session }, {
+        stopOnError: Boolean((opts as any).stopOnError),
+        onResult: (r) => {
+          if (isJson) return console.log(JSON.stringify(r));
+          if (!r.ok) return console.error(`line ${r.line} ${r.op} failed: ${r.error}`);
+          console.log(`line ${r.line} ${r.op} ${r.docId ?? ''}`.trimEnd());
+          if (typeof r.markdown === 'string') console.log(r.markdown);
+        },
+      });
+      if (!isJson) console.error(`${summary.ok} ok, ${summary.failed} failed`);
+      if (summary.failed) (process as any).exitCode = 1;
+    } catch (e) {
+      throw cliError(e, [
+        'Verify your base URL and cookie/token are valid for realtime access.',
+        'Each stdin line must be a JSON object such as {"op":"append","docId":"...","text":"..."}.',
+      ]);
+    } finally {
+      rl.close();
+      await session.close();
     }
   }));
 
-commentCmd
-  .command('add')
-  .description('Add a comment to a document')
+function describeBlockChange(c: BlockChange): string {
+  const quote = (t: string) => JSON.stringify(t.length > 80 ? `${t.slice(0, 77)}...` : t);
+  switch (c.type) {
+    case 'added':
+      return `+ ${c.flavour} ${c.blockId}${c.text ? ` ${quote(c.text)}` : ''}`;
+    case 'removed':
+      return `- ${c.flavour} ${c.blockId}`;
+    case 'text':
+      return `~ ${c.flavour} ${c.blockId} ${quote(c.text ?? '')}`;
+    case 'props':
+      return `~ ${c.flavour} ${c.blockId} props: ${(c.props ?? []).join(', ')}`;
+    case 'moved':
+      return `> ${c.flavour} ${c.blockId} -> ${c.parentId ?? '(detached)'}`;
+  }
+}
+
+docCmd
+  .command('who')
+  .description('List the users currently in a doc and the block holding their cursor')
   .argument('<docId>', 'Document ID')
-  .addOption(new Option('--text <text>', 'Comment text').makeOptionMandatory())
-  .action(withTelemetry('comment/add', async function (this: Command, docId: string) {
+  .addOption(new Option('--wait <ms>', 'How long to wait for editors to answer').argParser((v) => parseInt(String(v), 10)).default(2000))
+  .action(withTelemetry('doc/who', async function (this: Command, docId: string) {
     const opts = this.optsWithGlobals();
     const workspaceId = getWorkspaceIdFrom(opts);
     if (!workspaceId) throw new Error('workspace-id is required');
     const httpOpts: any = await httpFromOpts(opts);
-    const text = (opts as any).text as string;
-    const id = await addComment(workspaceId, docId, text, httpOpts);
-    if ((opts as any).json) console.log(JSON.stringify({ id }, null, 2));
-    else console.log(id);
+    const session = new RealtimeSession({ workspaceId, ...httpOpts });
+    try {
+      const users = await collectPresence(await session.open(), { workspaceId, docId, waitMs: (opts as any).wait });
+      const doc = await session.getDoc(docId).catch(() => null);
+      const items = users.map((u) => {
+        const block = doc && u.blockId ? readBlockTree(doc, u.blockId) : null;
+        return { clientId: u.clientId, name: u.name, blockId: u.blockId ?? null, flavour: block?.flavour ?? null, text: block ? plainText(block.text) : null };
+      });
+      if ((opts as any).json) console.log(JSON.stringify(toJsonList(items), null, 2));
+      else if (!items.length) console.error(`Nobody else is in ${docId}`);
+      else {
+        const rows = items.map((u) => ({ name: u.name, block: u.blockId ?? '-', flavour: u.flavour ?? '', text: (u.text ?? '').slice(0, 60) }));
+        for (const line of toTable(rows, ['name', 'block', 'flavour', 'text'])) console.log(line);
+      }
+    } catch (e) {
+      throw cliError(e, [
+        'Verify the doc id and that your cookie/token is valid for realtime access.',
+        'Only editors with the doc open are listed; raise --wait on slow connections.',
+      ]);
+    } finally {
+      await session.close();
+    }
   }));
 
-commentCmd
-  .command('rm')
-  .description('Remove a comment by id')
+docCmd
+  .command('watch')
+  .description('Stream remote changes to a document (block added/removed/text changed) until interrupted')
   .argument('<docId>', 'Document ID')
-  .addOption(new Option('--id <id>', 'Comment ID').makeOptionMandatory())
-  .action(withTelemetry('comment/rm', async function (this: Command, docId: string) {
+  .action(withTelemetry('doc/watch', async function (this: Command, docId: string) {
     const opts = this.optsWithGlobals();
     const workspaceId = getWorkspaceIdFrom(opts);
     if (!workspaceId) throw new Error('workspace-id is required');
     const httpOpts: any = await httpFromOpts(opts);
-    const id = (opts as any).id as string;
-    const ok = await removeComment(workspaceId, docId, id, httpOpts);
-    if ((opts as any).json) console.log(JSON.stringify({ ok }, null, 2));
-    else console.log(ok ? 'Removed' : 'Not removed');
+    const isJson = Boolean((opts as any).json);
+    const controller = new AbortController();
+    const stop = () => controller.abort();
+    (process as any).once('SIGINT', stop);
+    (process as any).once('SIGTERM', stop);
+    let snapshot: ReturnType<typeof snapshotBlocks> = new Map();
+    try {
+      await yWatchDoc({
+        workspaceId,
+        docId,
+        ...httpOpts,
+        signal: controller.signal,
+        onReady: (doc) => {
+          snapshot = snapshotBlocks(doc);
+          if (!isJson) console.error(`Watching ${docId} (${snapshot.size} blocks); press Ctrl+C to stop`);
+        },
+        onUpdate: (doc, info) => {
+          const next = snapshotBlocks(doc);
+          const changes = diffBlockSnapshots(snapshot, next);
+          snapshot = next;
+          const ts = new Date(info.timestamp ?? Date.now()).toISOString();
+          for (const change of changes) {
+            if (isJson) console.log(JSON.stringify({ ts, docId, ...(info.editor ? { editor: info.editor } : {}), ...change }));
+            else console.log(`${ts} ${describeBlockChange(change)}${info.editor ? ` (by ${info.editor})` : ''}`);
+          }
+        },
+        onError: (err) => console.error(`skipped update: ${err.message}`),
+      });
+    } catch (e) {
+      throw cliError(e, [
+        'Verify the doc id and that your cookie/token is valid for realtime access.',
+        'The server must allow Socket.IO websocket connections from this host.',
+      ]);
+    } finally {
+      (process as any).off?.('SIGINT', stop);
+      (process as any).off?.('SIGTERM', stop);
+    }
   }));
 
-// search commands
-const searchCmd = program.command('search').description('Search commands');
+// block-level editing: every subcommand is one load -> Yjs transaction -> push round trip
+const docBlock = docCmd.command('block').description('Block-level editing commands');
 
-searchCmd
-  .command('semantic')
-  .description('Semantic search within a workspace')
-  .argument('<query>', 'Search query')
-  .action(withTelemetry('search/semantic', async function (this: Command, query: string) {
+function blockPositionFrom(opts: any): BlockPosition {
+  const given = ['after', 'before', 'parent'].filter((k) => typeof opts[k] === 'string');
+  if (given.length > 1) throw new Error('use only one of --after, --before or --parent');
+  return { after: opts.after, before: opts.before, parentId: opts.parent, index: opts.index };
+}
+
+function parsePropAssignments(pairs: string[] = []): Record<string, any> {
+  const props: Record<string, any> = {};
+  for (const pair of pairs) {
+    const eq = pair.indexOf('=');
+    if (eq <= 0) throw new Error(`invalid --prop ${pair} (expected key=value)`);
+    const raw = pair.slice(eq + 1);
+    let value: any = raw;
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      // plain string value
+    }
+    props[pair.slice(0, eq)] = value;
+  }
+  return props;
+}
+
+function blockTreeLines(node: BlockNode, depth = 0): string[] {
+  const type = typeof node.props?.type === 'string' ? `(${node.props.type})` : '';
+  const text = node.flavour === 'affine:page' ? plainText(node.props?.title) : plainText(node.text);
+  const shown = text.length > 60 ? `${text.slice(0, 57)}...` : text;
+  const line = `${'  '.repeat(depth)}${node.id}  ${node.flavour}${type}${shown ? `  ${JSON.stringify(shown)}` : ''}`;
+  return [line, ...(node.children as BlockNode[]).flatMap((c) => blockTreeLines(c, depth + 1))];
+}
+
+const BLOCK_EDIT_HINTS = [
+  'Use `affine doc block list <docId>` to look up block ids.',
+  'Verify your base URL and cookie/token are valid for realtime access.',
+];
+
+docBlock
+  .command('list')
+  .description('Show the block tree with ids, flavours and text')
+  .argument('<docId>', 'Document ID')
+  .action(withTelemetry('doc/block_list', async function (this: Command, docId: string) {
     const opts = this.optsWithGlobals();
     const workspaceId = getWorkspaceIdFrom(opts);
     if (!workspaceId) throw new Error('workspace-id is required');
     const httpOpts: any = await httpFromOpts(opts);
-    // Pre-check embeddings flag for friendlier guidance
-    const ws = await getWorkspace(workspaceId, httpOpts);
-    if (!ws?.enableDocEmbedding) {
-      throw new Error(withHints(
-        `Embeddings are disabled for workspace ${workspaceId}.`,
-        [
-          `Enable with: affine ws embeddings enable ${workspaceId}`,
-          'Ensure an embeddings provider is configured on the server.',
-        ],
-      ));
-    }
-
     try {
-      const matches = await semanticSearch(workspaceId, query, undefined, httpOpts);
-      if ((opts as any).json) {
-        console.log(JSON.stringify({ query, matches }, null, 2));
-      } else {
-        for (const m of matches) {
-          const score = typeof m.score === 'number' ? m.score.toFixed(3) : '';
-          const id = m.id ? ` ${m.id}` : '';
-          const snippet = (m as any).snippet ?? (m as any).text ?? '';
-          console.log(`${score}${id} ${snippet}`.trim());
-        }
-      }
-    } catch (e: any) {
-      throw cliError(e, ['If embeddings are configured, retry later or check server logs.']);
+      const page = readPageTree(await yLoadDoc({ workspaceId, docId, ...httpOpts }));
+      if (!page) throw new Error(`doc ${docId} has no page block`);
+      if ((opts as any).json) console.log(JSON.stringify(page, null, 2));
+      else console.log(blockTreeLines(page).join('\n'));
+    } catch (e) {
+      throw cliError(e, BLOCK_EDIT_HINTS.slice(1));
     }
   }));
 
-searchCmd
-  .command('keyword')
-  .description('Keyword search within a workspace')
-  .argument('<query>', 'Search query')
-  .addOption(new Option('--first <n>', 'Limit results').argParser((v) => parseInt(String(v), 10)))
-  .action(function (this: Command, query: string) {
-    let source = 'fallback';
-    let items: any[] = [];
-    return withTelemetry('search/keyword', async function (this: Command) {
+docBlock
+  .command('insert')
+  .description('Insert a block (default: at the end of the first note)')
+  .argument('<docId>', 'Document ID')
+  .addOption(new Option('--type <type>', 'Block type').choices(BLOCK_TYPES).default('paragraph'))
+  .addOption(new Option('--text <text>', 'Block text'))
+  .addOption(new Option('--after <blockId>', 'Insert after this block'))
+  .addOption(new Option('--before <blockId>', 'Insert before this block'))
+  .addOption(new Option('--parent <blockId>', 'Insert as a child of this block'))
+  .addOption(new Option('--index <n>', 'Child index under --parent').argParser((v) => parseInt(String(v), 10)))
+  .addOption(new Option('--checked', 'Mark a todo as done'))
+  .addOption(new Option('--language <lang>', 'Code block language'))
+  .action(withTelemetry('doc/block_insert', async function (this: Command, docId: string) {
     const opts = this.optsWithGlobals();
     const workspaceId = getWorkspaceIdFrom(opts);
     if (!workspaceId) throw new Error('workspace-id is required');
     const httpOpts: any = await httpFromOpts(opts);
-    const firstOpt = (opts as any).first as number | undefined;
-
+    const o = opts as any;
+    const position = blockPositionFrom(o);
+    const text = typeof o.text === 'string' ? [{ insert: o.text }] : [];
+    const spec = blockSpecFromType(o.type, text, { checked: Boolean(o.checked), language: o.language });
     try {
-      const result = await keywordSearchWithFallback(workspaceId, query, firstOpt, httpOpts);
-      source = result.source;
-      items = result.items;
-
+      const { result: blockId, timestamp } = await yEditDoc({ workspaceId, docId, ...httpOpts }, async (doc) => {
+        const { parentId, index } = resolvePosition(doc, position);
+        const [id] = await insertBlocks(doc, parentId, [spec], index);
+        return id;
+      });
+      if (o.json) console.log(JSON.stringify({ blockId, flavour: spec.flavour, timestamp }, null, 2));
+      else console.log(blockId);
+    } catch (e) {
+      throw cliError(e, BLOCK_EDIT_HINTS);
+    }
+  }));
+
+docBlock
+  .command('update')
+  .description('Replace the text and/or set props of a block')
+  .argument('<docId>', 'Document ID')
+  .argument('<blockId>', 'Block ID')
+  .addOption(new Option('--text <text>', 'New block text'))
+  .addOption(new Option('--prop <key=value>', 'Set a prop (value parsed as JSON when possible); repeatable').argParser(collectValues))
+  .action(withTelemetry('doc/block_update', async function (this: Command, docId: string, blockId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    const o = opts as any;
+    const props = parsePropAssignments(o.prop);
+    if (typeof o.text !== 'string' && !Object.keys(props).length) throw new Error('nothing to update: pass --text and/or --prop');
+    try {
+      const { changed, timestamp } = await yEditDoc({ workspaceId, docId, ...httpOpts }, (doc) =>
+        updateBlock(doc, blockId, { text: typeof o.text === 'string' ? [{ insert: o.text }] : undefined, props }),
+      );
+      if (o.json) console.log(JSON.stringify({ blockId, changed, timestamp }, null, 2));
+      else console.log(changed ? 'Updated' : 'Unchanged');
+    } catch (e) {
+      throw cliError(e, BLOCK_EDIT_HINTS);
+    }
+  }));
+
+docBlock
+  .command('move')
+  .description('Move a block (with its children) next to another block or under a parent')
+  .argument('<docId>', 'Document ID')
+  .argument('<blockId>', 'Block ID')
+  .addOption(new Option('--after <blockId>', 'Place after this block'))
+  .addOption(new Option('--before <blockId>', 'Place before this block'))
+  .addOption(new Option('--parent <blockId>', 'Place under this block'))
+  .addOption(new Option('--index <n>', 'Child index under --parent').argParser((v) => parseInt(String(v), 10)))
+  .action(withTelemetry('doc/block_move', async function (this: Command, docId: string, blockId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    const o = opts as any;
+    const position = blockPositionFrom(o);
+    if (!position.after && !position.before && !position.parentId) throw new Error('pass one of --after, --before or --parent');
+    try {
+      const { timestamp } = await yEditDoc({ workspaceId, docId, ...httpOpts }, (doc) => moveBlock(doc, blockId, position));
+      if (o.json) console.log(JSON.stringify({ blockId, timestamp }, null, 2));
+      else console.log('Moved');
+    } catch (e) {
+      throw cliError(e, BLOCK_EDIT_HINTS);
+    }
+  }));
+
+docBlock
+  .command('remove')
+  .description('Remove blocks and their children')
+  .argument('<docId>', 'Document ID')
+  .argument('<blockIds...>', 'Block IDs')
+  .action(withTelemetry('doc/block_remove', async function (this: Command, docId: string, blockIds: string[]) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    try {
+      const { result: removed, timestamp } = await yEditDoc({ workspaceId, docId, ...httpOpts }, async (doc) => {
+        const yBlocks = doc.getMap('blocks');
+        const missing = blockIds.filter((id) => !yBlocks.get(id));
+        if (missing.length) throw new Error(`block(s) not found: ${missing.join(', ')}`);
+        await removeBlocks(doc, blockIds);
+        return blockIds;
+      });
+      if ((opts as any).json) console.log(JSON.stringify({ removed, timestamp }, null, 2));
+      else console.log(`Removed ${removed.length}`);
+    } catch (e) {
+      throw cliError(e, BLOCK_EDIT_HINTS);
+    }
+  }));
+
+// checklists: affine:list blocks with prop:type 'todo'
+const docTodo = docCmd.command('todo').description('Todo/checklist commands');
+
+function todoLine(t: TodoItem): string {
+  return `${'  '.repeat(t.depth)}[${t.checked ? 'x' : ' '}] ${t.blockId}  ${t.text}`;
+}
+
+docTodo
+  .command('list')
+  .description('List todo items with their checked state')
+  .argument('<docId>', 'Document ID')
+  .addOption(new Option('--state <state>', 'Filter by state').choices(['all', 'open', 'done']).default('all'))
+  .action(withTelemetry('doc/todo_list', async function (this: Command, docId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    const state = (opts as any).state as 'all' | 'open' | 'done';
+    try {
+      const todos = listTodos(await yLoadDoc({ workspaceId, docId, ...httpOpts })).filter(
+        (t) => state === 'all' || t.checked === (state === 'done'),
+      );
+      if ((opts as any).json) console.log(JSON.stringify(todos, null, 2));
+      else if (todos.length) console.log(todos.map(todoLine).join('\n'));
+      else console.error('No todo items');
+    } catch (e) {
+      throw cliError(e, BLOCK_EDIT_HINTS.slice(1));
+    }
+  }));
+
+docTodo
+  .command('add')
+  .description('Add an unchecked todo item (default: after the last todo item, else at the end of the first note)')
+  .argument('<docId>', 'Document ID')
+  .addOption(new Option('--text <text>', 'Item text').makeOptionMandatory())
+  .addOption(new Option('--markdown', 'Parse inline Markdown in --text'))
+  .addOption(new Option('--after <blockId>', 'Insert after this block'))
+  .addOption(new Option('--parent <blockId>', 'Insert as a child of this block (e.g. a sub-item)'))
+  .action(withTelemetry('doc/todo_add', async function (this: Command, docId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    const o = opts as any;
+    const position = blockPositionFrom(o);
+    const text = o.markdown ? parseInline(o.text) : [{ insert: String(o.text) }];
+    try {
+      const { result: blockId, timestamp } = await yEditDoc({ workspaceId, docId, ...httpOpts }, async (doc) => {
+        if (!position.after && !position.parentId) {
+          const todos = listTodos(doc).filter((t) => t.depth === 0);
+          if (todos.length) position.after = todos[todos.length - 1].blockId;
+        }
+        const { parentId, index } = resolvePosition(doc, position);
+        const [id] = await insertBlocks(doc, parentId, [blockSpecFromType('todo', text)], index);
+        return id;
+      });
+      if (o.json) console.log(JSON.stringify({ blockId, timestamp }, null, 2));
+      else console.log(blockId);
+    } catch (e) {
+      throw cliError(e, BLOCK_EDIT_HINTS);
+    }
+  }));
+
+for (const [name, checked] of [['check', true], ['uncheck', false]] as const) {
+  docTodo
+    .command(name)
+    .description(`Mark todo items as ${checked ? 'done' : 'open'} by block id or text match`)
+    .argument('<docId>', 'Document ID')
+    .argument('[blockIds...]', 'Todo block IDs')
+    .addOption(new Option('--match <text>', 'Select todo items whose text contains this (case-insensitive)'))
+    .action(withTelemetry(`doc/todo_${name}`, async function (this: Command, docId: string, blockIds: string[]) {
+      const opts = this.optsWithGlobals();
+      const workspaceId = getWorkspaceIdFrom(opts);
+      if (!workspaceId) throw new Error('workspace-id is required');
+      const httpOpts: any = await httpFromOpts(opts);
+      const match = (opts as any).match as string | undefined;
+      if (!blockIds.length && !match) throw new Error('pass todo block ids or --match <text>');
+      try {
+        const { result, timestamp } = await yEditDoc({ workspaceId, docId, ...httpOpts }, async (doc) => {
+          const ids = [...blockIds];
+          if (match) {
+            const needle = match.toLowerCase();
+            const found = listTodos(doc).filter((t) => t.text.toLowerCase().includes(needle));
+            if (!found.length) throw new Error(`no todo item matches ${JSON.stringify(match)}`);
+            for (const t of found) if (!ids.includes(t.blockId)) ids.push(t.blockId);
+          }
+          const changed: string[] = [];
+          for (const id of ids) if (await setTodoChecked(doc, id, checked)) changed.push(id);
+          return { ids, changed };
+        });
+        if ((opts as any).json) console.log(JSON.stringify({ ...result, checked, timestamp }, null, 2));
+        else console.log(`${checked ? 'Checked' : 'Unchecked'} ${result.changed.length} of ${result.ids.length}`);
+      } catch (e) {
+        throw cliError(e, ['Use `affine doc todo list <docId>` to look up todo block ids.', BLOCK_EDIT_HINTS[1]]);
+      }
+    }));
+}
+
+docCmd
+  .command('pull')
+  .description('Save the raw Yjs state of a doc to a local .ydoc file')
+  .argument('<docId>', 'Document ID')
+  .addOption(new Option('--out <file>', 'Output file (default: <docId>.ydoc)'))
+  .action(withTelemetry('doc/pull', async function (this: Command, docId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    const outPath = ((opts as any).out as string | undefined) ?? `${docId}.ydoc`;
+    try {
+      const Y: any = await import('yjs');
+      const doc = await yLoadDoc({ workspaceId, docId, ...httpOpts });
+      const update: Uint8Array = Y.encodeStateAsUpdate(doc);
+      await fs.writeFile(outPath, Buffer.from(update));
+      if ((opts as any).json) console.log(JSON.stringify({ docId, outPath, bytes: update.length }, null, 2));
+      else console.log(outPath);
+    } catch (e) {
+      throw cliError(e, [
+        'Verify the doc id and that your cookie/token is valid for realtime access.',
+        'Check that the output directory exists and is writable.',
+      ]);
+    }
+  }));
+
+docCmd
+  .command('push')
+  .description('Push a local .ydoc file, sending only the changes the server is missing')
+  .argument('<file>', 'Yjs update file (e.g. written by doc pull or ws export --format ydoc)')
+  .addOption(new Option('--doc-id <docId>', 'Target document (default: file name without .ydoc)'))
+  .action(withTelemetry('doc/push', async function (this: Command, file: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    const docId = ((opts as any).docId as string | undefined) ?? path.basename(file).replace(/\.ydoc$/i, '');
+    let update: Uint8Array;
+    try {
+      update = new Uint8Array(await fs.readFile(file));
+    } catch (e) {
+      throw cliError(e, ['Check that the .ydoc file exists and is readable.']);
+    }
+    try {
+      const res = await yPushDocUpdate({ workspaceId, docId, update, ...httpOpts });
+      if ((opts as any).json) console.log(JSON.stringify({ docId, ...res }, null, 2));
+      else console.log(res.sent ? `Pushed ${res.bytes} bytes to ${docId}` : `${docId} is up to date`);
+    } catch (e) {
+      throw cliError(e, [
+        'Make sure the file is a Yjs update for this doc (pass --doc-id when the file name differs).',
+        'Verify your base URL and cookie/token are valid for realtime access.',
+      ]);
+    }
+  }));
+
+docCmd
+  .command('diff')
+  .description('Show block-level differences between the server doc and a local Markdown file or .ydoc snapshot')
+  .argument('<docId>', 'Document ID')
+  .addOption(new Option('--against <file>', 'Markdown file, or a Yjs snapshot when it ends in .ydoc').makeOptionMandatory())
+  .action(withTelemetry('doc/diff', async function (this: Command, docId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    const file = String((opts as any).against);
+    try {
+      const base = diffPageFromDoc(await yLoadDoc({ workspaceId, docId, ...httpOpts }));
+      let target: DiffPage;
+      if (/\.ydoc$/i.test(file)) {
+        const Y: any = await import('yjs');
+        const local = new Y.Doc();
+        Y.applyUpdate(local, new Uint8Array(await fs.readFile(file)));
+        target = diffPageFromDoc(local);
+      } else {
+        target = diffPageFromSpecs(parseMarkdownPage(await fs.readFile(file, 'utf8')));
+      }
+      const entries = diffPages(base, target);
+      if ((opts as any).json) console.log(JSON.stringify({ docId, against: file, changes: entries }, null, 2));
+      else if (!entries.length) console.log('No differences');
+      else for (const line of formatDocDiff(entries)) console.log(line);
+    } catch (e) {
+      throw cliError(e, [
+        'Verify the doc id and that your cookie/token is valid for realtime access.',
+        'Check that the --against file exists; .ydoc files must contain a Yjs update (see doc pull).',
+      ]);
+    }
+  }));
+
+docCmd
+  .command('sync')
+  .description('Make a doc match a Markdown file with minimal block inserts/updates/removals')
+  .argument('<file>', 'Markdown file path')
+  .argument('<docId>', 'Document ID')
+  .addOption(new Option('--dry-run', 'Print the planned operations without pushing or uploading anything'))
+  .action(withTelemetry('doc/sync', async function (this: Command, file: string, docId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    const dryRun = Boolean((opts as any).dryRun);
+    let markdown: string;
+    try {
+      markdown = await fs.readFile(file, 'utf8');
+    } catch (e) {
+      throw cliError(e, ['Check that the Markdown file exists and is readable.']);
+    }
+    const page = parseMarkdownPage(markdown);
+    try {
+      let ops: SyncOp[];
+      let timestamp: number | undefined;
+      if (dryRun) {
+        await resolveImageBlocks(page.blocks, path.dirname(path.resolve(file)), workspaceId, { ...httpOpts, dryRun });
+        ops = planSync(await yLoadDoc({ workspaceId, docId, ...httpOpts }), page);
+      } else {
+        await resolveImageBlocks(page.blocks, path.dirname(path.resolve(file)), workspaceId, httpOpts);
+        ({ result: ops, timestamp } = await yEditDoc({ workspaceId, docId, ...httpOpts }, async (doc) => {
+          const plan = planSync(doc, page);
+          await applySync(doc, plan);
+          return plan;
+        }));
+        const title = ops.find((op) => op.op === 'title');
+        if (title && title.op === 'title') {
+          await yEditWorkspaceRoot({ workspaceId, ...httpOpts }, (root) => upsertPageMeta(root, docId, { title: title.after }));
+        }
+      }
+      if ((opts as any).json) console.log(JSON.stringify({ docId, dryRun, ops, ...(timestamp ? { timestamp } : {}) }, null, 2));
+      else if (!ops.length) console.log(`${docId} is up to date`);
+      else {
+        for (const op of ops) console.log(formatSyncOp(op));
+        if (!dryRun) console.log(`Applied ${ops.length} operation(s) to ${docId}`);
+      }
+    } catch (e) {
+      throw cliError(e, [
+        'Verify the doc id and that your cookie/token is valid for realtime access.',
+        'Local images are uploaded relative to the Markdown file; check that they exist.',
+      ]);
+    }
+  }));
+
+docCmd
+  .command('duplicate')
+  .description('Copy a doc (with new block ids) into a new doc in the same workspace')
+  .argument('<docId>', 'Source document ID')
+  .addOption(new Option('--title <title>', 'Title of the copy (default: "<source title> (copy)")'))
+  .action(withTelemetry('doc/duplicate', async function (this: Command, docId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    try {
+      const res = await yDuplicateDoc({
+        workspaceId,
+        docId,
+        ...httpOpts,
+        title: (opts as any).title,
+        transform: async (doc) => {
+          if ((opts as any).title === undefined) await setPageTitle(doc, `${plainText(readPageTree(doc)?.props?.title) || 'Untitled'} (copy)`);
+        },
+      });
+      if ((opts as any).json) console.log(JSON.stringify({ sourceDocId: docId, ...res }, null, 2));
+      else {
+        if (res.queued) console.error(`${res.docId} is queued offline and not on the server yet; run \`affine realtime queue flush\` to deliver it`);
+        console.log(res.docId);
+      }
+    } catch (e) {
+      throw cliError(e, [
+        'Verify the source doc id and that your cookie/token is valid for realtime access.',
+      ]);
+    }
+  }));
+
+docCmd
+  .command('rename')
+  .description('Rename a doc (page title and workspace page list)')
+  .argument('<docId>', 'Document ID')
+  .addOption(new Option('--title <title>', 'New title').makeOptionMandatory())
+  .action(withTelemetry('doc/rename', async function (this: Command, docId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    try {
+      const res = await yRenameDoc({ workspaceId, docId, ...httpOpts, title: String((opts as any).title) });
+      if ((opts as any).json) console.log(JSON.stringify({ docId, ...res }, null, 2));
+      else if (!res.changed) console.log(`${docId} is already titled ${JSON.stringify(res.title)}`);
+      else console.log(`Renamed ${docId}: ${JSON.stringify(res.previousTitle)} -> ${JSON.stringify(res.title)}`);
+    } catch (e) {
+      throw cliError(e, [
+        'Verify the doc id and that your cookie/token is valid for realtime access.',
+      ]);
+    }
+  }));
+
+docCmd
+  .command('copy')
+  .description('Copy a doc (and its image/attachment blobs) to another workspace')
+  .argument('<docId>', 'Document ID')
+  .addOption(new Option('--to-workspace <id>', 'Destination workspace ID').makeOptionMandatory())
+  .addOption(new Option('--move', 'Delete the original once the copy has been verified'))
+  .action(withTelemetry('doc/copy', async function (this: Command, docId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    const isJson = Boolean((opts as any).json);
+    try {
+      const res = await copyDocToWorkspace({
+        ...httpOpts,
+        workspaceId,
+        docId,
+        targetWorkspaceId: (opts as any).toWorkspace,
+        move: Boolean((opts as any).move),
+        onProgress: (evt) => {
+          if (!isJson && (opts as any).verbose) console.error(`blob     ${evt.key} -> ${evt.targetKey}`);
+        },
+      });
+      if (isJson) console.log(JSON.stringify({ sourceDocId: docId, ...res }, null, 2));
+      else {
+        console.error(`${res.moved ? 'Moved' : 'Copied'} "${res.title}" to ${res.targetWorkspaceId} (${res.blobs} blob(s))`);
+        console.log(res.docId);
+      }
+    } catch (e) {
+      throw cliError(e, [
+        'Your credentials must grant access to both workspaces.',
+        'With --move the original is only deleted after the copy was verified; re-run without --move to inspect.',
+      ]);
+    }
+  }));
+
+docCmd
+  .command('from-template')
+  .description('Create a doc from a template page, filling {{placeholders}} in its text')
+  .argument('<templateDocId>', 'Template document ID')
+  .addOption(new Option('--var <name=value>', 'Placeholder value (repeatable)').argParser(collectValues))
+  .addOption(new Option('--title <title>', 'Title of the new doc (default: the template title with placeholders filled)'))
+  .addOption(new Option('--strict', 'Fail when a placeholder has no --var value'))
+  .action(withTelemetry('doc/from_template', async function (this: Command, templateDocId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    const vars = parseTemplateVars((opts as any).var);
+    let fill: FillResult = { replaced: 0, unresolved: [] };
+    try {
+      const res = await yDuplicateDoc({
+        workspaceId,
+        docId: templateDocId,
+        ...httpOpts,
+        title: (opts as any).title,
+        transform: async (doc) => {
+          fill = await fillPlaceholders(doc, vars);
+          if ((opts as any).strict && fill.unresolved.length) {
+            throw new Error(`no value for placeholder(s): ${fill.unresolved.join(', ')}`);
+          }
+        },
+      });
+      if ((opts as any).json) console.log(JSON.stringify({ templateDocId, ...res, ...fill }, null, 2));
+      else {
+        if (fill.unresolved.length) console.error(`warning: left unfilled: ${fill.unresolved.map((n) => `{{${n}}}`).join(', ')}`);
+        if (res.queued) console.error(`${res.docId} is queued offline and not on the server yet; run \`affine realtime queue flush\` to deliver it`);
+        console.log(res.docId);
+      }
+    } catch (e) {
+      throw cliError(e, [
+        'Pass one --var name=value per {{name}} placeholder in the template.',
+        'Verify the template doc id and that your cookie/token is valid for realtime access.',
+      ]);
+    }
+  }));
+
+// doc tags: ids in meta.pages[].tags, resolved against meta.properties.tags.options
+const docTag = docCmd.command('tag').description('Add or remove doc tags');
+
+const TAG_HINTS = [
+  'Use `affine tag list` to see the workspace tags.',
+  'Verify the workspace id and that your cookie/token is valid for realtime access.',
+];
+
+docTag
+  .command('add')
+  .description('Tag a doc (the tag is created when it does not exist yet)')
+  .argument('<docId>', 'Document ID')
+  .argument('<tag>', 'Tag name or id')
+  .action(withTelemetry('doc/tag_add', async function (this: Command, docId: string, tagName: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    try {
+      const { result } = await yEditWorkspaceRoot({ workspaceId, ...httpOpts }, async (root) => {
+        const existing = findTag(root, tagName);
+        const tag = existing ?? (await createTag(root, tagName));
+        return { tag, created: !existing, added: await addPageTag(root, docId, tag.id) };
+      });
+      if ((opts as any).json) console.log(JSON.stringify({ docId, ...result }, null, 2));
+      else {
+        if (result.created) console.error(`Created tag ${result.tag.value}`);
+        console.log(result.added ? `Tagged ${docId} with ${result.tag.value}` : `${docId} already has tag ${result.tag.value}`);
+      }
+    } catch (e) {
+      throw cliError(e, TAG_HINTS);
+    }
+  }));
+
+docTag
+  .command('rm')
+  .description('Remove a tag from a doc')
+  .argument('<docId>', 'Document ID')
+  .argument('<tag>', 'Tag name or id')
+  .action(withTelemetry('doc/tag_rm', async function (this: Command, docId: string, tagName: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    try {
+      const { result } = await yEditWorkspaceRoot({ workspaceId, ...httpOpts }, async (root) => {
+        const tag = findTag(root, tagName);
+        if (!tag) throw new Error(`tag ${tagName} not found`);
+        return { tag, removed: await removePageTag(root, docId, tag.id) };
+      });
+      if ((opts as any).json) console.log(JSON.stringify({ docId, ...result }, null, 2));
+      else console.log(result.removed ? `Removed tag ${result.tag.value} from ${docId}` : `${docId} does not have tag ${result.tag.value}`);
+    } catch (e) {
+      throw cliError(e, TAG_HINTS);
+    }
+  }));
+
+// doc links: LinkedPage references and embedded linked/synced docs
+docCmd
+  .command('links')
+  .description('List the docs a doc links to')
+  .argument('<docId>', 'Document ID')
+  .action(withTelemetry('doc/links', async function (this: Command, docId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    const session = new RealtimeSession({ workspaceId, ...httpOpts });
+    try {
+      const doc = await yLoadDoc({ workspaceId, docId, ...httpOpts, session });
+      const root = await yLoadDoc({ workspaceId, docId: workspaceId, ...httpOpts, session, allowEmpty: true });
+      const titles = new Map(listPageMetas(root).map((m) => [m.id, m.title]));
+      const items = collectDocLinks(doc).map((l) => ({ ...l, title: titles.get(l.docId) ?? null }));
+      if ((opts as any).json) console.log(JSON.stringify(toJsonList(items), null, 2));
+      else if (!items.length) console.error('No links');
+      else {
+        const rows = items.map((l) => ({ docId: l.docId, kind: l.kind, block: l.blockId, title: l.title ?? '(not in workspace)' }));
+        for (const line of toTable(rows, ['docId', 'kind', 'block', 'title'])) console.log(line);
+      }
+    } catch (e) {
+      throw cliError(e, ['Verify the doc id and that your cookie/token is valid for realtime access.']);
+    } finally {
+      await session.close();
+    }
+  }));
+
+docCmd
+  .command('backlinks')
+  .description('List the docs linking to a doc (scans every page in the workspace)')
+  .argument('<docId>', 'Document ID')
+  .action(withTelemetry('doc/backlinks', async function (this: Command, docId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    try {
+      const graph = await buildLinkGraph({ workspaceId, ...httpOpts });
+      for (const f of graph.failed) console.error(`failed   ${f.docId}: ${f.error}`);
+      const titles = new Map(graph.nodes.map((n) => [n.id, n.title]));
+      const items = backlinksFrom(graph, docId).map((e) => ({ docId: e.from, title: titles.get(e.from) ?? '', blocks: e.blocks }));
+      if ((opts as any).json) console.log(JSON.stringify(toJsonList(items), null, 2));
+      else if (!items.length) console.error('No backlinks');
+      else {
+        const rows = items.map((b) => ({ docId: b.docId, links: b.blocks.length, title: b.title }));
+        for (const line of toTable(rows, ['docId', 'links', 'title'])) console.log(line);
+      }
+    } catch (e) {
+      throw cliError(e, ['Verify the workspace id and that your cookie/token is valid for realtime access.']);
+    }
+  }));
+
+// doc props: custom properties in the root doc's affine:workspace-properties
+const docProps = docCmd.command('props').description('Read and write custom doc properties');
+
+docProps
+  .command('get')
+  .description('Show the properties set on a doc')
+  .argument('<docId>', 'Document ID')
+  .action(withTelemetry('doc/props_get', async function (this: Command, docId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    try {
+      const root = await yLoadDoc({ workspaceId, docId: workspaceId, ...httpOpts, allowEmpty: true });
+      const schemas = new Map(listPropertySchemas(root).map((p) => [p.id, p]));
+      const props = getDocProperties(root, docId).map((p) => ({ ...p, display: formatPropertyValue({ ...schemas.get(p.id)!, value: p.value }) }));
+      if ((opts as any).json) console.log(JSON.stringify(toJsonList(props), null, 2));
+      else if (!props.length) console.error('No properties set');
+      else for (const line of toTable(props.map((p) => ({ name: p.name, type: p.type, value: p.display })), ['name', 'type', 'value'])) console.log(line);
+    } catch (e) {
+      throw cliError(e, ['Verify the doc id and that your cookie/token is valid for realtime access.']);
+    }
+  }));
+
+docProps
+  .command('set')
+  .description('Set doc properties (an empty value clears one; unknown names create the property)')
+  .argument('<docId>', 'Document ID')
+  .argument('<key=value...>', 'Property assignments, e.g. status=Done due=2024-07-01')
+  .addOption(new Option('--type <type>', 'Type for newly created properties (inferred from the value otherwise)').choices(PROPERTY_TYPES.filter((t) => t !== 'createdBy')))
+  .action(withTelemetry('doc/props_set', async function (this: Command, docId: string, pairs: string[]) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    const assignments = parseAssignments(pairs);
+    try {
+      const { result, changed } = await yEditWorkspaceRoot({ workspaceId, ...httpOpts }, (root) =>
+        setDocProperties(root, docId, assignments, { type: (opts as any).type as PropertyType | undefined }),
+      );
+      if ((opts as any).json) console.log(JSON.stringify({ docId, changed, items: result }, null, 2));
+      else console.log(changed ? `Updated ${assignments.length} propert${assignments.length === 1 ? 'y' : 'ies'} on ${docId}` : `${docId} is up to date`);
+    } catch (e) {
+      throw cliError(e, [
+        'Use `affine doc props get <docId>` to see the current values.',
+        'Verify the doc id and that your cookie/token is valid for realtime access.',
+      ]);
+    }
+  }));
+
+// doc history: versions kept server-side, listed via GraphQL and fetched over REST
+const docHistory = docCmd.command('history').description('Doc version history commands');
+
+const HISTORY_HINTS = [
+  'Use `affine doc history list <docId>` to see the available timestamps.',
+  'Verify the doc id and that your cookie/token grants access to the workspace.',
+];
+
+docHistory
+  .command('list')
+  .description('List saved versions of a doc (newest first)')
+  .argument('<docId>', 'Document ID')
+  .addOption(new Option('--first <n>', 'Limit results').argParser((v) => parseInt(String(v), 10)))
+  .addOption(new Option('--before <timestamp>', 'Only versions older than this (ISO date or epoch ms)'))
+  .action(withTelemetry('doc/history_list', async function (this: Command, docId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    const before = (opts as any).before ? normalizeHistoryTimestamp((opts as any).before) : undefined;
+    try {
+      const items = await listDocHistories(workspaceId, docId, (opts as any).first, before, httpOpts);
+      if ((opts as any).json) console.log(JSON.stringify(toJsonList(items), null, 2));
+      else if (!items.length) console.error('No history versions');
+      else {
+        const rows = items.map((h) => ({ timestamp: h.timestamp, editor: h.editor?.name ?? '' }));
+        for (const line of toTable(rows, ['timestamp', 'editor'])) console.log(line);
+      }
+    } catch (e) {
+      throw cliError(e, HISTORY_HINTS.slice(1));
+    }
+  }));
+
+docHistory
+  .command('show')
+  .description('Render a saved version as Markdown')
+  .argument('<docId>', 'Document ID')
+  .addOption(new Option('--at <timestamp>', 'Version timestamp from `doc history list`').makeOptionMandatory())
+  .addOption(new Option('--out <file>', 'Write to a file instead of stdout'))
+  .action(withTelemetry('doc/history_show', async function (this: Command, docId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    try {
+      const page = readPageTree(await loadHistoryDoc(workspaceId, docId, (opts as any).at, httpOpts));
+      const markdown = page ? renderMarkdown(page) : '';
+      if ((opts as any).out) await fs.writeFile((opts as any).out, markdown, 'utf8');
+      if ((opts as any).json) console.log(JSON.stringify({ docId, at: normalizeHistoryTimestamp((opts as any).at), markdown }, null, 2));
+      else if ((opts as any).out) console.log((opts as any).out);
+      else process.stdout.write(markdown);
+    } catch (e) {
+      throw cliError(e, HISTORY_HINTS);
+    }
+  }));
+
+docHistory
+  .command('restore')
+  .description('Restore a doc to a saved version (pushed as a realtime update)')
+  .argument('<docId>', 'Document ID')
+  .addOption(new Option('--at <timestamp>', 'Version timestamp from `doc history list`').makeOptionMandatory())
+  .action(withTelemetry('doc/history_restore', async function (this: Command, docId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    try {
+      const res = await restoreDocVersion({ workspaceId, docId, at: (opts as any).at, ...httpOpts });
+      if ((opts as any).json) console.log(JSON.stringify({ docId, at: normalizeHistoryTimestamp((opts as any).at), ...res }, null, 2));
+      else if (!res.blocks) console.log(`${docId} already matches that version`);
+      else console.log(`Restored ${docId} to ${normalizeHistoryTimestamp((opts as any).at)} (${res.blocks} block(s) changed)`);
+    } catch (e) {
+      throw cliError(e, HISTORY_HINTS);
+    }
+  }));
+
+// edgeless commands: shapes, text, connectors and frames on the page's affine:surface block
+const edgelessCmd = program.command('edgeless').description('Edgeless canvas commands');
+
+const EDGELESS_HINTS = [
+  'Use `affine edgeless list <docId>` to look up element ids.',
+  'Verify your base URL and cookie/token are valid for realtime access.',
+];
+
+const parseXywhOption = (v: string) => parseXywh(v);
+const parseEndpoint = (v: string): ConnectorEnd => (/^\s*-?[\d.]+\s*,\s*-?[\d.]+\s*$/.test(v) ? parsePoint(v) : v);
+
+// Shared runner: apply one canvas edit and print the new id (or JSON with the timestamp)
+async function editCanvas(cmd: Command, docId: string, edit: (doc: any) => Promise<string>): Promise<void> {
+  const opts = cmd.optsWithGlobals();
+  const workspaceId = getWorkspaceIdFrom(opts);
+  if (!workspaceId) throw new Error('workspace-id is required');
+  const httpOpts: any = await httpFromOpts(opts);
+  try {
+    const { result: id, timestamp, queued } = await yEditDoc({ workspaceId, docId, ...httpOpts }, edit);
+    if ((opts as any).json) console.log(JSON.stringify({ id, docId, timestamp, queued }, null, 2));
+    else console.log(id);
+  } catch (e) {
+    throw cliError(e, EDGELESS_HINTS);
+  }
+}
+
+edgelessCmd
+  .command('list')
+  .description('List the canvas elements, notes and frames of a doc (back to front)')
+  .argument('<docId>', 'Document ID')
+  .action(withTelemetry('edgeless/list', async function (this: Command, docId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    try {
+      const doc = await yLoadDoc({ workspaceId, docId, ...httpOpts });
+      const items = listCanvasItems(doc);
+      if ((opts as any).json) console.log(JSON.stringify(toJsonList(items), null, 2));
+      else if (!items.length) console.error('No canvas content');
+      else {
+        const rows = items.map((i) => ({
+          id: i.id,
+          type: i.type,
+          xywh: i.xywh ? i.xywh.join(',') : '',
+          text: i.type === 'connector' ? `${i.source ?? '?'} -> ${i.target ?? '?'}${i.text ? ` ${JSON.stringify(i.text)}` : ''}` : (i.text ?? ''),
+        }));
+        for (const line of toTable(rows, ['id', 'type', 'xywh', 'text'])) console.log(line);
+      }
+    } catch (e) {
+      throw cliError(e, EDGELESS_HINTS.slice(1));
+    }
+  }));
+
+edgelessCmd
+  .command('add-shape')
+  .description('Add a shape (optionally with text) to the canvas')
+  .argument('<docId>', 'Document ID')
+  .addOption(new Option('--xywh <x,y,w,h>', 'Position and size').argParser(parseXywhOption).makeOptionMandatory())
+  .addOption(new Option('--shape <shape>', 'Shape type').choices([...SHAPE_TYPES]).default('rect'))
+  .addOption(new Option('--text <text>', 'Text inside the shape'))
+  .addOption(new Option('--fill <color>', 'Fill color: palette name (yellow, orange, red, magenta, purple, blue, teal, green, black, grey, white) or CSS color'))
+  .addOption(new Option('--stroke <color>', 'Border color (defaults to the fill color)'))
+  .addOption(new Option('--color <color>', 'Text color'))
+  .action(withTelemetry('edgeless/add_shape', async function (this: Command, docId: string) {
+    const o = this.opts() as any;
+    await editCanvas(this, docId, (doc) => addShape(doc, { xywh: o.xywh, shape: o.shape, text: o.text, fill: o.fill, stroke: o.stroke, color: o.color }));
+  }));
+
+edgelessCmd
+  .command('add-text')
+  .description('Add a free-standing text element to the canvas')
+  .argument('<docId>', 'Document ID')
+  .addOption(new Option('--text <text>', 'Text (\\n for line breaks)').makeOptionMandatory())
+  .addOption(new Option('--at <x,y>', 'Top-left corner (size estimated from the text)').argParser((v) => parsePoint(v)).conflicts('xywh'))
+  .addOption(new Option('--xywh <x,y,w,h>', 'Position and size').argParser(parseXywhOption))
+  .addOption(new Option('--font-size <n>', 'Font size').argParser((v) => parseInt(String(v), 10)).default(24))
+  .addOption(new Option('--color <color>', 'Text color (palette name or CSS color)'))
+  .addOption(new Option('--align <align>', 'Text alignment').choices(['left', 'center', 'right']).default('left'))
+  .action(withTelemetry('edgeless/add_text', async function (this: Command, docId: string) {
+    const o = this.opts() as any;
+    const text = String(o.text).replace(/\\n/g, '\n');
+    await editCanvas(this, docId, (doc) => addText(doc, { text, at: o.at, xywh: o.xywh, fontSize: o.fontSize, color: o.color, align: o.align }));
+  }));
+
+edgelessCmd
+  .command('add-connector')
+  .description('Connect two canvas elements (or x,y points) with an arrow')
+  .argument('<docId>', 'Document ID')
+  .addOption(new Option('--from <id|x,y>', 'Source element/block id or point').argParser(parseEndpoint).makeOptionMandatory())
+  .addOption(new Option('--to <id|x,y>', 'Target element/block id or point').argParser(parseEndpoint).makeOptionMandatory())
+  .addOption(new Option('--label <text>', 'Label on the connector'))
+  .addOption(new Option('--mode <mode>', 'Routing').choices(Object.keys(CONNECTOR_MODES)).default('orthogonal'))
+  .addOption(new Option('--stroke <color>', 'Line color (palette name or CSS color)'))
+  .addOption(new Option('--arrow <style>', 'Arrowhead at the target').choices([...ENDPOINT_STYLES]).default('arrow'))
+  .action(withTelemetry('edgeless/add_connector', async function (this: Command, docId: string) {
+    const o = this.opts() as any;
+    await editCanvas(this, docId, (doc) => addConnector(doc, { from: o.from, to: o.to, label: o.label, mode: o.mode, stroke: o.stroke, arrow: o.arrow }));
+  }));
+
+edgelessCmd
+  .command('add-frame')
+  .description('Add a titled frame, either at --xywh or around existing elements')
+  .argument('<docId>', 'Document ID')
+  .addOption(new Option('--title <title>', 'Frame title').makeOptionMandatory())
+  .addOption(new Option('--xywh <x,y,w,h>', 'Position and size').argParser(parseXywhOption).conflicts('around'))
+  .addOption(new Option('--around <ids>', 'Comma-separated element/block ids to enclose'))
+  .addOption(new Option('--padding <n>', 'Space around --around elements').argParser((v) => parseInt(String(v), 10)).default(40))
+  .addOption(new Option('--background <color>', 'Background color (palette name or CSS color)'))
+  .action(withTelemetry('edgeless/add_frame', async function (this: Command, docId: string) {
+    const o = this.opts() as any;
+    if (!o.xywh && !o.around) throw new Error('pass --xywh or --around');
+    const around = typeof o.around === 'string' ? o.around.split(',').map((s: string) => s.trim()).filter(Boolean) : undefined;
+    await editCanvas(this, docId, (doc) => addFrame(doc, { title: o.title, xywh: o.xywh, around, padding: o.padding, background: o.background }));
+  }));
+
+edgelessCmd
+  .command('import')
+  .description('Lay out a node/edge graph from JSON as shapes and connectors')
+  .argument('<file>', 'Diagram JSON: {"title"?, "direction"?, "nodes": [{"id", "label"?, "shape"?, "color"?}], "edges": [{"from", "to", "label"?}]}')
+  .addOption(new Option('--doc <docId>', 'Add to this doc (default: create a new doc)'))
+  .addOption(new Option('--title <title>', 'Diagram title (overrides the file; frames the diagram and names a new doc)'))
+  .addOption(new Option('--direction <dir>', 'Flow direction (overrides the file)').choices(['right', 'down']))
+  .action(withTelemetry('edgeless/import', async function (this: Command, file: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    const o = opts as any;
+    let diagram: Diagram;
+    try {
+      diagram = parseDiagram(JSON.parse(await fs.readFile(file, 'utf8')));
+    } catch (e) {
+      throw cliError(e, ['Check that the file exists and matches the diagram format shown in `affine edgeless import --help`.']);
+    }
+    if (o.title) diagram.title = o.title;
+    if (o.direction) diagram.direction = o.direction;
+    try {
+      let docId = o.doc as string | undefined;
+      if (!docId) {
+        const title = diagram.title || path.basename(file).replace(/\.json$/i, '');
+        ({ docId } = await yCreateDoc({ workspaceId, title, ...httpOpts } as any));
+      }
+      const { result, timestamp } = await yEditDoc({ workspaceId, docId: docId!, ...httpOpts }, (doc) => importDiagram(doc, diagram));
+      if (o.json) console.log(JSON.stringify({ docId, ...result, timestamp }, null, 2));
+      else console.log(`${docId} (${Object.keys(result.nodes).length} node(s), ${result.connectors.length} connector(s))`);
+    } catch (e) {
+      throw cliError(e, EDGELESS_HINTS.slice(1));
+    }
+  }));
+
+// tag commands: workspace tag options in the root doc's meta.properties.tags
+const tagCmd = program.command('tag').description('Workspace tag commands');
+
+tagCmd
+  .command('list')
+  .description('List workspace tags with their colors and doc counts')
+  .action(withTelemetry('tag/list', async function (this: Command) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    try {
+      const root = await yLoadDoc({ workspaceId, docId: workspaceId, ...httpOpts, allowEmpty: true });
+      const pages = listPageMetas(root);
+      const items = listTags(root).map((t) => ({ ...t, docs: pages.filter((m) => m.tags.includes(t.id)).length }));
+      if ((opts as any).json) console.log(JSON.stringify(toJsonList(items), null, 2));
+      else if (!items.length) console.error('No tags');
+      else for (const line of toTable(items, ['id', 'value', 'color', 'docs'])) console.log(line);
+    } catch (e) {
+      throw cliError(e, TAG_HINTS.slice(1));
+    }
+  }));
+
+tagCmd
+  .command('create')
+  .description('Create a tag')
+  .argument('<name>', 'Tag name')
+  .addOption(new Option('--color <color>', 'Palette color (red, orange, yellow, green, teal, blue, purple, pink, gray) or any CSS color'))
+  .action(withTelemetry('tag/create', async function (this: Command, name: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    try {
+      const { result: tag } = await yEditWorkspaceRoot({ workspaceId, ...httpOpts }, (root) => createTag(root, name, (opts as any).color));
+      if ((opts as any).json) console.log(JSON.stringify(tag, null, 2));
+      else console.log(tag.id);
+    } catch (e) {
+      throw cliError(e, TAG_HINTS);
+    }
+  }));
+
+tagCmd
+  .command('rename')
+  .description('Rename (and optionally recolor) a tag; tagged docs keep it')
+  .argument('<tag>', 'Tag name or id')
+  .argument('<newName>', 'New tag name')
+  .addOption(new Option('--color <color>', 'Also change the color (palette name or CSS color)'))
+  .action(withTelemetry('tag/rename', async function (this: Command, tagName: string, newName: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    try {
+      const { result: tag } = await yEditWorkspaceRoot({ workspaceId, ...httpOpts }, (root) =>
+        updateTag(root, tagName, { value: newName, color: (opts as any).color }),
+      );
+      if ((opts as any).json) console.log(JSON.stringify(tag, null, 2));
+      else console.log(`Renamed ${tagName} -> ${tag.value}`);
+    } catch (e) {
+      throw cliError(e, TAG_HINTS);
+    }
+  }));
+
+tagCmd
+  .command('delete')
+  .description('Delete a tag and remove it from every doc')
+  .argument('<tag>', 'Tag name or id')
+  .action(withTelemetry('tag/delete', async function (this: Command, tagName: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    try {
+      const { result } = await yEditWorkspaceRoot({ workspaceId, ...httpOpts }, (root) => deleteTag(root, tagName));
+      if ((opts as any).json) console.log(JSON.stringify(result, null, 2));
+      else console.log(`Deleted tag ${result.tag.value} (removed from ${result.pages} doc(s))`);
+    } catch (e) {
+      throw cliError(e, TAG_HINTS);
+    }
+  }));
+
+// comment commands (CLI-013)
+const commentCmd = program.command('comment').description('Comment commands');
+
+commentCmd
+  .command('list')
+  .description('List comments for a document')
+  .argument('<docId>', 'Document ID')
+  .addOption(new Option('--first <n>', 'Limit results').argParser((v) => parseInt(String(v), 10)))
+  .addOption(new Option('--after <cursor>', 'Pagination cursor'))
+  .action(withTelemetry('comment/list', async function (this: Command, docId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    const first = (opts as any).first as number | undefined;
+    const after = (opts as any).after as string | undefined;
+    const conn = await listComments(workspaceId, docId, first, after, httpOpts);
+    if ((opts as any).json) {
+      // For JSON output, emit a flat items[] list to keep parsing simple for smoke tests.
+      console.log(JSON.stringify(toJsonList(conn.edges ?? [], undefined), null, 2));
+    } else {
+      const rows = (conn.edges ?? []).map((e) => ({ id: e.id, text: e.text ?? '' }));
+      for (const line of toTable(rows, ['id', 'text'])) console.log(line);
+    }
+  }));
+
+commentCmd
+  .command('add')
+  .description('Add a comment to a document')
+  .argument('<docId>', 'Document ID')
+  .addOption(new Option('--text <text>', 'Comment text').makeOptionMandatory())
+  .action(withTelemetry('comment/add', async function (this: Command, docId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    const text = (opts as any).text as string;
+    const id = await addComment(workspaceId, docId, text, httpOpts);
+    if ((opts as any).json) console.log(JSON.stringify({ id }, null, 2));
+    else console.log(id);
+  }));
+
+commentCmd
+  .command('rm')
+  .description('Remove a comment by id')
+  .argument('<docId>', 'Document ID')
+  .addOption(new Option('--id <id>', 'Comment ID').makeOptionMandatory())
+  .action(withTelemetry('comment/rm', async function (this: Command, docId: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    const id = (opts as any).id as string;
+    const ok = await removeComment(workspaceId, docId, id, httpOpts);
+    if ((opts as any).json) console.log(JSON.stringify({ ok }, null, 2));
+    else console.log(ok ? 'Removed' : 'Not removed');
+  }));
+
+// search commands
+const searchCmd = program.command('search').description('Search commands');
+
+searchCmd
+  .command('semantic')
+  .description('Semantic search within a workspace')
+  .argument('<query>', 'Search query')
+  .action(withTelemetry('search/semantic', async function (this: Command, query: string) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    // Pre-check embeddings flag for friendlier guidance
+    const ws = await getWorkspace(workspaceId, httpOpts);
+    if (!ws?.enableDocEmbedding) {
+      throw new Error(withHints(
+        `Embeddings are disabled for workspace ${workspaceId}.`,
+        [
+          `Enable with: affine ws embeddings enable ${workspaceId}`,
+          'Ensure an embeddings provider is configured on the server.',
+        ],
+      ));
+    }
+
+    try {
+      const matches = await semanticSearch(workspaceId, query, undefined, httpOpts);
+      if ((opts as any).json) {
+        console.log(JSON.stringify({ query, matches }, null, 2));
+      } else {
+        for (const m of matches) {
+          const score = typeof m.score === 'number' ? m.score.toFixed(3) : '';
+          const id = m.id ? ` ${m.id}` : '';
+          const snippet = (m as any).snippet ?? (m as any).text ?? '';
+          console.log(`${score}${id} ${snippet}`.trim());
+        }
+      }
+    } catch (e: any) {
+      throw cliError(e, ['If embeddings are configured, retry later or check server logs.']);
+    }
+  }));
+
+searchCmd
+  .command('keyword')
+  .description('Keyword search within a workspace')
+  .argument('<query>', 'Search query')
+  .addOption(new Option('--first <n>', 'Limit results').argParser((v) => parseInt(String(v), 10)))
+  .action(function (this: Command, query: string) {
+    let source = 'fallback';
+    let items: any[] = [];
+    return withTelemetry('search/keyword', async function (this: Command) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts);
+    if (!workspaceId) throw new Error('workspace-id is required');
+    const httpOpts: any = await httpFromOpts(opts);
+    const firstOpt = (opts as any).first as number | undefined;
+
+    try {
+      const result = await keywordSearchWithFallback(workspaceId, query, firstOpt, httpOpts);
+      source = result.source;
+      items = result.items;
+
       if ((opts as any).json) {
         console.log(JSON.stringify({ query: result.query, source, total: items.length, items }, null, 2));
       } else {
@@ -690,6 +2205,105 @@ blobCmd
     }
   }));
 
+// realtime commands
+const realtimeCmd = program.command('realtime').description('Realtime connection commands');
+const queueCmd = realtimeCmd.command('queue').description('Updates queued on disk while the realtime connection was down');
+
+const queueDocOption = () => new Option('--doc <docId>', 'Only updates for this doc');
+
+queueCmd
+  .command('list')
+  .description('List queued updates (all workspaces unless --workspace-id is given)')
+  .addOption(queueDocOption())
+  .action(withTelemetry('realtime/queue/list', async function (this: Command) {
+    const opts = this.optsWithGlobals();
+    const workspaceId = getWorkspaceIdFrom(opts) || undefined;
+    const entries = await new OfflineQueue().list({ workspaceId, docId: (opts as any).doc });
+    if ((opts as any).json) {
+      console.log(JSON.stringify(toJsonList(entries), null, 2));
+      return;
+    }
+    if (!entries.length) {
+      console.log('Queue is empty');
+      return;
+    }
+    const rows = entries.map((e) => ({ workspaceId: e.workspaceId, docId: e.docId, createdAt: e.createdAt, bytes: e.bytes }));
+    for (const line of toTable(rows, ['workspaceId', 'docId', 'createdAt', 'bytes'])) console.log(line);
+  }));
+
+queueCmd
+  .command('flush')
+  .description('Deliver queued updates (all workspaces unless --workspace-id is given)')
+  .addOption(queueDocOption())
+  .action(withTelemetry('realtime/queue/flush', async function (this: Command) {
+    const opts = this.optsWithGlobals();
+    const httpOpts: any = await httpFromOpts(opts);
+    const queue = new OfflineQueue();
+    const docId = (opts as any).doc as string | undefined;
+    const pending = await queue.list({ workspaceId: getWorkspaceIdFrom(opts) || undefined, docId });
+    const workspaceIds = [...new Set(pending.map((e) => e.workspaceId))];
+    const results: Array<QueueFlushResult & { workspaceId: string; error?: string }> = [];
+    for (const workspaceId of workspaceIds) {
+      try {
+        results.push({ workspaceId, ...(await flushOfflineQueue({ ...httpOpts, workspaceId, docId, queue })) });
+      } catch (e: any) {
+        // An unreachable workspace must not hide what the others delivered
+        const remaining = pending.filter((entry) => entry.workspaceId === workspaceId).length;
+        results.push({ workspaceId, delivered: [], failed: [], remaining, error: String(e?.message ?? e) });
+      }
+    }
+    if ((opts as any).json) {
+      console.log(JSON.stringify(toJsonList(results), null, 2));
+    } else {
+      for (const r of results) {
+        for (const d of r.delivered) console.log(`delivered ${r.workspaceId} ${d.docId} (${d.updates} update(s), ${d.bytes} B)`);
+        for (const f of r.failed) console.error(`failed    ${r.workspaceId} ${f.docId}: ${f.error}`);
+        if (r.error) console.error(`failed    ${r.workspaceId}: ${r.error}`);
+      }
+      const delivered = results.reduce((n, r) => n + r.delivered.length, 0);
+      const remaining = results.reduce((n, r) => n + r.remaining, 0);
+      console.log(`${delivered} doc(s) delivered, ${remaining} update(s) still queued`);
+    }
+    const unreachable = results.filter((r) => r.error).length;
+    if (unreachable) {
+      console.error(withHints(`${unreachable} workspace(s) could not be flushed`, [
+        'Queued updates are kept; run the flush again once the server is reachable.',
+        'Verify your base URL and cookie/token are valid for realtime access.',
+      ]));
+    }
+    if (results.some((r) => r.failed.length || r.error)) (process as any).exitCode = 1;
+  }));
+
+queueCmd
+  .command('clear')
+  .description('Discard queued updates without delivering them')
+  .addOption(queueDocOption())
+  .addOption(new Option('--yes', 'Do not ask for confirmation'))
+  .action(withTelemetry('realtime/queue/clear', async function (this: Command) {
+    const opts = this.optsWithGlobals();
+    const queue = new OfflineQueue();
+    const filter = { workspaceId: getWorkspaceIdFrom(opts) || undefined, docId: (opts as any).doc as string | undefined };
+    const pending = await queue.list(filter);
+    if (pending.length && !(opts as any).yes) {
+      const stdin = (process as any).stdin;
+      if (!stdin?.isTTY) throw new Error('refusing to discard queued updates without confirmation; pass --yes');
+      const { createInterface } = await import('node:readline/promises');
+      const rl = createInterface({ input: stdin, output: (process as any).stdout });
+      try {
+        const answer = await rl.question(`Discard ${pending.length} queued update(s)? They will not reach the server. [y/N] `);
+        if (!/^y(es)?$/i.test(answer.trim())) {
+          console.error('Aborted');
+          return;
+        }
+      } finally {
+        rl.close();
+      }
+    }
+    const removed = await queue.clear(filter);
+    if ((opts as any).json) console.log(JSON.stringify({ removed: removed.length }, null, 2));
+    else console.log(`Discarded ${removed.length} queued update(s)`);
+  }));
+
 // whoami
 program
   .command('whoami')
@@ -0,0 +1,147 @@
+/**
+ * Linked-doc references for `affine doc links|backlinks` and `affine ws graph`
+ *
+ * A page links to another doc in two ways:
+ *   - inline: a Y.Text delta with `reference: { type: 'LinkedPage', pageId }`
+ *     (in block text, titles or table cells)
+ *   - as a block: `affine:embed-linked-doc` / `affine:embed-synced-doc` with `prop:pageId`
+ * Backlinks and the workspace graph have no server-side index to ask, so every
+ * page in the workspace page list is loaded over one realtime session.
+ */
+
+import { readPageTree, type BlockNode } from './blocks';
+import { listPageMetas } from './meta';
+import { loadDoc, RealtimeSession, type RealtimeOptions } from './yjs';
+
+export type LinkKind = 'reference' | 'embed';
+
+export type DocLink = {
+  /** Target doc id. */
+  docId: string;
+  /** Block holding the link. */
+  blockId: string;
+  kind: LinkKind;
+};
+
+const EMBED_FLAVOURS = new Set(['affine:embed-linked-doc', 'affine:embed-synced-doc']);
+
+// Walk a prop value (Y.Text, or Y.Map/Y.Array holding them) and report every LinkedPage reference.
+function visitReferences(value: any, found: (pageId: string) => void): void {
+  if (!value || typeof value !== 'object') return;
+  if (typeof value.toDelta === 'function') {
+    for (const op of value.toDelta()) {
+      const ref = op.attributes?.reference;
+      if (ref && typeof ref.pageId === 'string' && ref.pageId) found(ref.pageId);
+    }
+    return;
+  }
+  if (typeof value.forEach === 'function' && typeof value.toJSON === 'function') value.forEach((v: any) => visitReferences(v, found));
+}
+
+/** Outgoing links of a page, in document order (one entry per occurrence). */
+export function collectDocLinks(doc: any): DocLink[] {
+  const page = readPageTree(doc);
+  if (!page) return [];
+  const yBlocks = doc.getMap('blocks');
+  const links: DocLink[] = [];
+  const visit = (node: BlockNode) => {
+    const yBlock: any = yBlocks.get(node.id);
+    yBlock?.forEach?.((v: any, key: string) => {
+      if (key.startsWith('prop:')) visitReferences(v, (docId) => links.push({ docId, blockId: node.id, kind: 'reference' }));
+    });
+    if (EMBED_FLAVOURS.has(node.flavour) && typeof node.props?.pageId === 'string' && node.props.pageId) {
+      links.push({ docId: node.props.pageId, blockId: node.id, kind: 'embed' });
+    }
+    node.children.forEach(visit);
+  };
+  visit(page);
+  return links;
+}
+
+export type LinkGraphNode = { id: string; title: string };
+export type LinkGraphEdge = { from: string; to: string; blocks: string[] };
+
+export type LinkGraph = {
+  nodes: LinkGraphNode[];
+  edges: LinkGraphEdge[];
+  /** Pages with neither inbound nor outgoing links. */
+  orphans: string[];
+  /** Link targets that are not in the workspace page list (deleted or foreign docs). */
+  missing: string[];
+  /** Pages that could not be loaded. */
+  failed: Array<{ docId: string; error: string }>;
+};
+
+export type LinkGraphOptions = RealtimeOptions & {
+  onProgress?: (evt: { docId: string; index: number; total: number }) => void;
+};
+
+/** Load every page in the workspace page list (trashed ones excluded) and collect their links. */
+export async function buildLinkGraph(opts: LinkGraphOptions): Promise<LinkGraph> {
+  const { onProgress, ...rest } = opts;
+  const session = rest.session ?? new RealtimeSession(rest);
+  const sessionOpts = { ...rest, session };
+  try {
+    const root = await loadDoc({ ...sessionOpts, docId: opts.workspaceId, allowEmpty: true });
+    const pages = listPageMetas(root).filter((m) => !m.trash);
+    const known = new Set(pages.map((m) => m.id));
+    const graph: LinkGraph = { nodes: pages.map((m) => ({ id: m.id, title: m.title })), edges: [], orphans: [], missing: [], failed: [] };
+
+    for (const [index, page] of pages.entries()) {
+      onProgress?.({ docId: page.id, index, total: pages.length });
+      let links: DocLink[];
+      try {
+        links = collectDocLinks(await loadDoc({ ...sessionOpts, docId: page.id }));
+      } catch (e: any) {
+        graph.failed.push({ docId: page.id, error: String(e?.message ?? e) });
+        continue;
+      }
+      const byTarget = new Map<string, LinkGraphEdge>();
+      for (const link of links) {
+        if (link.docId === page.id) continue;
+        const edge = byTarget.get(link.docId) ?? { from: page.id, to: link.docId, blocks: [] };
+        if (!edge.blocks.includes(link.blockId)) edge.blocks.push(link.blockId);
+        byTarget.set(link.docId, edge);
+        if (!known.has(link.docId) && !graph.missing.includes(link.docId)) graph.missing.push(link.docId);
+      }
+      graph.edges.push(...byTarget.values());
+      // Loaded docs are not needed again; keep memory flat on large workspaces
+      if (!rest.session) session.forget(page.id);
+    }
+
+    const linked = new Set(graph.edges.flatMap((e) => [e.from, e.to]));
+    graph.orphans = pages.filter((m) => !linked.has(m.id)).map((m) => m.id);
+    return graph;
+  } finally {
+    if (!rest.session) await session.close();
+  }
+}
+
+/** Pages linking to `docId`, with the blocks holding the links. */
+export function backlinksFrom(graph: LinkGraph, docId: string): LinkGraphEdge[] {
+  return graph.edges.filter((e) => e.to === docId);
+}
+
+function dotString(s: string): string {
+  return `"${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/** Render the graph as Graphviz DOT (orphans dashed, missing targets in red). */
+export function formatGraphDot(graph: LinkGraph): string {
+  const orphans = new Set(graph.orphans);
+  const lines = ['digraph workspace {', '  node [shape=box];'];
+  for (const node of graph.nodes) {
+    const attrs = [`label=${dotString(node.title || node.id)}`];
+    if (orphans.has(node.id)) attrs.push('style=dashed');
+    lines.push(`  ${dotString(node.id)} [${attrs.join(', ')}];`);
+  }
+  for (const id of graph.missing) lines.push(`  ${dotString(id)} [label=${dotString(`${id} (missing)`)}, color=red];`);
+  for (const edge of graph.edges) {
+    const label = edge.blocks.length > 1 ? ` [label="${edge.blocks.length}"]` : '';
+    lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)}${label};`);
+  }
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+export default { collectDocLinks, buildLinkGraph, backlinksFrom, formatGraphDot };
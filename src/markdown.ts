@@ -0,0 +1,677 @@
+/**
+ * Markdown <-> BlockSuite block specs
+ *
+ * A small, dependency-free Markdown reader covering the constructs we map onto
+ * AFFiNE flavours: headings, paragraphs, quotes, bulleted/numbered/todo lists
+ * (nested by indentation), fenced code, dividers, GFM tables, standalone
+ * images and inline bold/italic/strike/code/links as Y.Text delta attributes.
+ * Two AFFiNE-specific inline forms mirror what the renderer writes: `[[docId]]`
+ * for a linked-doc reference and `@[userId]` for a member mention.
+ *
+ * The renderer goes the other way, from a page block tree read out of Yjs to
+ * deterministic Markdown, without relying on the server-side MCP tools.
+ */
+
+import { isTextProp, plainText, type BlockNode, type BlockSpec, type DeltaOp, type TextProp } from './blocks';
+
+// --- Inline -----------------------------------------------------------------
+
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|~<>@]/;
+
+function isAlnum(ch: string | undefined): boolean {
+  return !!ch && /[\p{L}\p{N}]/u.test(ch);
+}
+
+function pushOp(out: DeltaOp[], insert: string, attrs: Record<string, any>): void {
+  if (!insert) return;
+  const attributes = Object.keys(attrs).length ? { ...attrs } : undefined;
+  const last = out[out.length - 1];
+  if (last && JSON.stringify(last.attributes ?? null) === JSON.stringify(attributes ?? null)) {
+    last.insert += insert;
+    return;
+  }
+  out.push(attributes ? { insert, attributes } : { insert });
+}
+
+// Find the closing `]` for a `[` at `start`, honouring escapes and nesting.
+function findBracketClose(s: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < s.length; i++) {
+    const c = s[i];
+    if (c === '\\') {
+      i++;
+      continue;
+    }
+    if (c === '[') depth++;
+    else if (c === ']') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+// Find a closing emphasis delimiter; when the delimiter is followed by more of
+// the same character (e.g. `***x***`), prefer the outermost position.
+function findDelimiterClose(s: string, delim: string, from: number): number {
+  let j = s.indexOf(delim, from);
+  while (j >= 0) {
+    if (j > from && !/\s/.test(s[j - 1])) {
+      while (s[j + delim.length] === delim[0]) j++;
+      return j;
+    }
+    j = s.indexOf(delim, j + 1);
+  }
+  return -1;
+}
+
+function parseSpan(s: string, attrs: Record<string, any>, out: DeltaOp[]): void {
+  let buf = '';
+  const flush = () => {
+    pushOp(out, buf, attrs);
+    buf = '';
+  };
+  let i = 0;
+  while (i < s.length) {
+    const c = s[i];
+
+    if (c === '\\' && i + 1 < s.length && ESCAPABLE.test(s[i + 1])) {
+      buf += s[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (c === '`') {
+      let n = 0;
+      while (s[i + n] === '`') n++;
+      const fence = '`'.repeat(n);
+      const close = s.indexOf(fence, i + n);
+      if (close > i + n - 1 && s[close + n] !== '`') {
+        let code = s.slice(i + n, close);
+        if (code.startsWith(' ') && code.endsWith(' ') && code.trim()) code = code.slice(1, -1);
+        flush();
+        pushOp(out, code, { ...attrs, code: true });
+        i = close + n;
+        continue;
+      }
+      buf += fence;
+      i += n;
+      continue;
+    }
+
+    if (c === '<') {
+      const m = /^<((?:https?|mailto):[^\s<>]+)>/.exec(s.slice(i));
+      if (m) {
+        flush();
+        pushOp(out, m[1], { ...attrs, link: m[1] });
+        i += m[0].length;
+        continue;
+      }
+    }
+
+    if ((c === '[' && s[i + 1] === '[') || (c === '@' && s[i + 1] === '[')) {
+      // References and mentions are a single space carrying the attribute, as the editor stores them.
+      const m = c === '[' ? /^\[\[([^[\]\s]+)\]\]/.exec(s.slice(i)) : /^@\[([^[\]\s]+)\](?!\()/.exec(s.slice(i));
+      if (m) {
+        flush();
+        const attr = c === '[' ? { reference: { type: 'LinkedPage', pageId: m[1] } } : { mention: { member: m[1] } };
+        out.push({ insert: ' ', attributes: { ...attrs, ...attr } });
+        i += m[0].length;
+        continue;
+      }
+    }
+
+    if (c === '[') {
+      const close = findBracketClose(s, i);
+      if (close > i && s[close + 1] === '(') {
+        const end = s.indexOf(')', close + 2);
+        if (end > close) {
+          const label = s.slice(i + 1, close);
+          const url = s.slice(close + 2, end).trim().split(/\s+/)[0];
+          flush();
+          parseSpan(label, { ...attrs, link: url }, out);
+          i = end + 1;
+          continue;
+        }
+      }
+    }
+
+    const two = s.slice(i, i + 2);
+    if (two === '**' || two === '__' || two === '~~') {
+      const close = findDelimiterClose(s, two, i + 2);
+      const opensWord = two !== '__' || !isAlnum(s[i - 1]);
+      if (close > i + 2 && opensWord && !/\s/.test(s[i + 2])) {
+        flush();
+        const mark = two === '~~' ? 'strike' : 'bold';
+        parseSpan(s.slice(i + 2, close), { ...attrs, [mark]: true }, out);
+        i = close + 2;
+        continue;
+      }
+    }
+
+    if (c === '*' || c === '_') {
+      const opensWord = c === '*' || !isAlnum(s[i - 1]);
+      if (opensWord && s[i + 1] && !/\s/.test(s[i + 1])) {
+        let close = findDelimiterClose(s, c, i + 1);
+        if (c === '_' && close > 0 && isAlnum(s[close + 1])) close = -1;
+        if (close > i + 1) {
+          flush();
+          parseSpan(s.slice(i + 1, close), { ...attrs, italic: true }, out);
+          i = close + 1;
+          continue;
+        }
+      }
+    }
+
+    buf += c;
+    i++;
+  }
+  flush();
+}
+
+/** Parse inline Markdown into Y.Text delta operations. */
+export function parseInline(text: string): DeltaOp[] {
+  const out: DeltaOp[] = [];
+  parseSpan(String(text ?? ''), {}, out);
+  return out;
+}
+
+// --- Blocks -----------------------------------------------------------------
+
+const FENCE_RE = /^(\s*)(`{3,}|~{3,})\s*([^`\s]*)[^`]*$/;
+const HEADING_RE = /^\s{0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const HR_RE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE_RE = /^\s{0,3}>\s?(.*)$/;
+const LIST_RE = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const IMAGE_RE = /^\s{0,3}!\[((?:\\.|[^\]\\])*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)\s*$/;
+const TABLE_SEP_RE = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function isBlank(line: string | undefined): boolean {
+  return typeof line !== 'string' || line.trim() === '';
+}
+
+function indentWidth(ws: string): number {
+  let n = 0;
+  for (const ch of ws) n += ch === '\t' ? 4 : 1;
+  return n;
+}
+
+function splitTableRow(line: string): string[] {
+  let s = line.trim();
+  if (s.startsWith('|')) s = s.slice(1);
+  if (s.endsWith('|') && !s.endsWith('\\|')) s = s.slice(0, -1);
+  const cells: string[] = [];
+  let cur = '';
+  for (let i = 0; i < s.length; i++) {
+    if (s[i] === '\\' && s[i + 1] === '|') {
+      cur += '\\|';
+      i++;
+    } else if (s[i] === '|') {
+      cells.push(cur.trim());
+      cur = '';
+    } else {
+      cur += s[i];
+    }
+  }
+  cells.push(cur.trim());
+  return cells;
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+  return lines[i].includes('|') && typeof lines[i + 1] === 'string' && lines[i + 1].includes('-') && TABLE_SEP_RE.test(lines[i + 1]);
+}
+
+/**
+ * Fractional-index style order keys ('a0', 'a1', …) as used by BlockSuite for
+ * table rows and columns.
+ */
+export function orderKey(i: number): string {
+  const digits = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+  if (i < digits.length) return `a${digits[i]}`;
+  const n = i - digits.length;
+  return `b${digits[Math.floor(n / digits.length) % digits.length]}${digits[n % digits.length]}`;
+}
+
+function tableSpec(rows: string[][]): BlockSpec {
+  // affine:table stores rows/columns/cells as flat dotted prop keys
+  const props: Record<string, any> = {};
+  const width = Math.max(...rows.map((r) => r.length));
+  for (let c = 0; c < width; c++) {
+    props[`columns.c${c}.columnId`] = `c${c}`;
+    props[`columns.c${c}.order`] = orderKey(c);
+  }
+  rows.forEach((cells, r) => {
+    props[`rows.r${r}.rowId`] = `r${r}`;
+    props[`rows.r${r}.order`] = orderKey(r);
+    for (let c = 0; c < width; c++) {
+      const cell: TextProp = { $text: parseInline(cells[c] ?? '') };
+      props[`cells.r${r}:c${c}.text`] = cell;
+    }
+  });
+  return { flavour: 'affine:table', props };
+}
+
+function paragraph(type: string, text: string): BlockSpec {
+  return { flavour: 'affine:paragraph', props: { type, collapsed: false }, text: parseInline(text) };
+}
+
+function listItem(marker: string, body: string): BlockSpec {
+  const numbered = /^\d/.test(marker);
+  const todo = !numbered ? /^\[([ xX])\]\s+(.*)$/.exec(body) : null;
+  const type = numbered ? 'numbered' : todo ? 'todo' : 'bulleted';
+  const text = todo ? todo[2] : body;
+  return {
+    flavour: 'affine:list',
+    props: { type, checked: todo ? todo[1].toLowerCase() === 'x' : false, collapsed: false, order: null },
+    text: parseInline(text),
+  };
+}
+
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i];
+  return (
+    FENCE_RE.test(line) ||
+    HEADING_RE.test(line) ||
+    HR_RE.test(line) ||
+    QUOTE_RE.test(line) ||
+    LIST_RE.test(line) ||
+    IMAGE_RE.test(line) ||
+    isTableStart(lines, i)
+  );
+}
+
+/** Parse a Markdown document into BlockSuite block specs (children of a note). */
+export function parseMarkdown(md: string): BlockSpec[] {
+  const lines = String(md ?? '').replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockSpec[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE_RE.exec(line);
+    if (fence) {
+      const marker = fence[2];
+      const body: string[] = [];
+      i++;
+      while (i < lines.length) {
+        const l = lines[i];
+        const t = l.trim();
+        if (t.startsWith(marker[0].repeat(marker.length)) && /^(`+|~+)$/.test(t) && t[0] === marker[0]) break;
+        body.push(fence[1] && l.startsWith(fence[1]) ? l.slice(fence[1].length) : l);
+        i++;
+      }
+      i++; // closing fence (or EOF)
+      blocks.push({
+        flavour: 'affine:code',
+        props: { language: fence[3] || null, wrap: false, caption: '' },
+        text: body.length ? [{ insert: body.join('\n') }] : [],
+      });
+      continue;
+    }
+
+    const heading = HEADING_RE.exec(line);
+    if (heading) {
+      blocks.push(paragraph(`h${heading[1].length}`, heading[2] ?? ''));
+      i++;
+      continue;
+    }
+
+    if (HR_RE.test(line)) {
+      blocks.push({ flavour: 'affine:divider' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE_RE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        const q = QUOTE_RE.exec(lines[i]);
+        body.push(q ? q[1] : lines[i].trim());
+        i++;
+      }
+      blocks.push(paragraph('quote', body.join('\n')));
+      continue;
+    }
+
+    const image = IMAGE_RE.exec(line);
+    if (image) {
+      // `sourceId` keeps the raw target; importers resolve local paths to blob keys.
+      const src = image[2].startsWith('blob://') ? image[2].slice('blob://'.length) : image[2];
+      blocks.push({ flavour: 'affine:image', props: { sourceId: src, caption: image[1].replace(/\\(.)/g, '$1') } });
+      i++;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const rows: string[][] = [splitTableRow(line)];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      blocks.push(tableSpec(rows));
+      continue;
+    }
+
+    if (LIST_RE.test(line)) {
+      type Entry = { indent: number; marker: string; spec: BlockSpec; raw: string[] };
+      const stack: Entry[] = [];
+      const finishItem = (entry: Entry) => {
+        if (entry.raw.length > 1) entry.spec.text = listItem(entry.marker, entry.raw.join('\n')).text;
+      };
+      while (i < lines.length) {
+        const l = lines[i];
+        if (isBlank(l)) {
+          // A blank line only continues the list when more list content follows
+          let j = i + 1;
+          while (j < lines.length && isBlank(lines[j])) j++;
+          if (j < lines.length && (LIST_RE.test(lines[j]) || (stack.length && /^\s+\S/.test(lines[j])))) {
+            i = j;
+            continue;
+          }
+          break;
+        }
+        const m = LIST_RE.exec(l);
+        if (m) {
+          const indent = indentWidth(m[1]);
+          while (stack.length && stack[stack.length - 1].indent >= indent) finishItem(stack.pop()!);
+          const spec = listItem(m[2], m[3]);
+          if (stack.length) {
+            const parent = stack[stack.length - 1].spec;
+            (parent.children ??= []).push(spec);
+          } else {
+            blocks.push(spec);
+          }
+          stack.push({ indent, marker: m[2], spec, raw: [m[3]] });
+          i++;
+          continue;
+        }
+        if (stack.length && /^\s+\S/.test(l) && !startsBlock(lines, i)) {
+          // Lazy continuation line of the current item
+          stack[stack.length - 1].raw.push(l.trim());
+          i++;
+          continue;
+        }
+        break;
+      }
+      while (stack.length) finishItem(stack.pop()!);
+      continue;
+    }
+
+    const body: string[] = [];
+    while (i < lines.length && !isBlank(lines[i]) && (body.length === 0 || !startsBlock(lines, i))) {
+      body.push(lines[i].trim());
+      i++;
+    }
+    blocks.push(paragraph('text', body.join('\n')));
+  }
+
+  return blocks;
+}
+
+/**
+ * Parse a Markdown page. A leading level-1 heading becomes the page title and
+ * is removed from the body, mirroring how AFFiNE shows titles outside the note.
+ */
+export function parseMarkdownPage(md: string): { title?: string; blocks: BlockSpec[] } {
+  const blocks = parseMarkdown(md);
+  const first = blocks[0];
+  if (first && first.flavour === 'affine:paragraph' && first.props?.type === 'h1') {
+    return { title: plainText(first.text), blocks: blocks.slice(1) };
+  }
+  return { blocks };
+}
+
+// --- Rendering --------------------------------------------------------------
+
+export type RenderMarkdownOptions = {
+  /** Map a blob key (`prop:sourceId`) to the URL written for images/attachments. */
+  blobUrl?: (sourceId: string) => string;
+  /** Emit the page title as a leading `# Title` (default: true). */
+  includeTitle?: boolean;
+};
+
+const MARK_ORDER = ['bold', 'italic', 'strike'] as const;
+const MARK_TOKENS: Record<(typeof MARK_ORDER)[number], string> = { bold: '**', italic: '*', strike: '~~' };
+
+function escapeText(s: string): string {
+  let out = '';
+  for (let i = 0; i < s.length; i++) {
+    const c = s[i];
+    if (c === '\\' || c === '*' || c === '`' || c === '[' || c === ']') out += `\\${c}`;
+    else if (c === '~' && (s[i + 1] === '~' || s[i - 1] === '~')) out += '\\~';
+    else if (c === '_' && (!isAlnum(s[i - 1]) || !isAlnum(s[i + 1]))) out += '\\_';
+    else if (c === '<' && /^<(https?|mailto):/.test(s.slice(i))) out += '\\<';
+    else out += c;
+  }
+  return out;
+}
+
+// Keep paragraph lines from being re-read as headings, quotes, lists or rules.
+function escapeLineStart(line: string): string {
+  if (/^(#{1,6}(\s|$)|>|[-+](\s|$)|-{3,}\s*$)/.test(line)) return `\\${line}`;
+  return line.replace(/^(\d{1,9})([.)]\s)/, '$1\\$2');
+}
+
+function wrapCode(s: string): string {
+  let longest = 0;
+  for (const m of s.match(/`+/g) ?? []) longest = Math.max(longest, m.length);
+  const fence = '`'.repeat(longest + 1);
+  const pad = s.startsWith('`') || s.endsWith('`') ? ' ' : '';
+  return `${fence}${pad}${s}${pad}${fence}`;
+}
+
+// Split leading/trailing whitespace off emphasised runs so `** x **` never appears.
+function normalizeOps(delta: DeltaOp[]): DeltaOp[] {
+  const out: DeltaOp[] = [];
+  for (const op of delta) {
+    if (typeof op.insert !== 'string' || !op.insert) continue;
+    const a = op.attributes ?? {};
+    if (a.code || !MARK_ORDER.some((m) => a[m])) {
+      out.push(op);
+      continue;
+    }
+    const m = /^(\s*)([\s\S]*?)(\s*)$/.exec(op.insert)!;
+    const plain = { ...a };
+    for (const k of MARK_ORDER) delete plain[k];
+    const rest = Object.keys(plain).length ? plain : undefined;
+    if (m[1]) out.push(rest ? { insert: m[1], attributes: rest } : { insert: m[1] });
+    if (m[2]) out.push({ insert: m[2], attributes: a });
+    if (m[3]) out.push(rest ? { insert: m[3], attributes: rest } : { insert: m[3] });
+  }
+  return out;
+}
+
+function renderMarks(ops: DeltaOp[]): string {
+  let out = '';
+  const stack: string[] = [];
+  const closeTo = (n: number) => {
+    while (stack.length > n) out += MARK_TOKENS[stack.pop() as (typeof MARK_ORDER)[number]];
+  };
+  for (const op of ops) {
+    const a = op.attributes ?? {};
+    const desired = MARK_ORDER.filter((m) => a[m]);
+    let k = 0;
+    while (k < stack.length && k < desired.length && stack[k] === desired[k]) k++;
+    closeTo(k);
+    for (const m of desired.slice(k)) {
+      out += MARK_TOKENS[m];
+      stack.push(m);
+    }
+    if (a.reference && typeof a.reference === 'object' && a.reference.pageId) out += `[[${a.reference.pageId}]]`;
+    else if (a.mention && typeof a.mention === 'object' && a.mention.member) out += `@[${a.mention.member}]`;
+    else if (a.latex) out += `$${a.latex}$`;
+    else if (a.code) out += wrapCode(op.insert);
+    else if (a.underline) out += `<u>${escapeText(op.insert)}</u>`;
+    else out += escapeText(op.insert);
+  }
+  closeTo(0);
+  return out;
+}
+
+/** Render Y.Text delta operations as inline Markdown. */
+export function renderInline(delta: DeltaOp[] | undefined): string {
+  const ops = normalizeOps(delta ?? []);
+  let out = '';
+  let i = 0;
+  while (i < ops.length) {
+    const link = ops[i].attributes?.link;
+    let j = i;
+    while (j < ops.length && ops[j].attributes?.link === link) j++;
+    const inner = renderMarks(ops.slice(i, j));
+    out += link ? `[${inner}](${String(link).replace(/\s/g, '%20')})` : inner;
+    i = j;
+  }
+  return out;
+}
+
+function indentLines(s: string, pad: string): string {
+  return s
+    .split('\n')
+    .map((l) => (l ? pad + l : l))
+    .join('\n');
+}
+
+function renderTable(node: BlockNode): string {
+  const props = node.props ?? {};
+  const rows = new Map<string, string>();
+  const cols = new Map<string, string>();
+  for (const [key, value] of Object.entries(props)) {
+    const r = /^rows\.([^.]+)\.order$/.exec(key);
+    if (r) rows.set(r[1], String(value));
+    const c = /^columns\.([^.]+)\.order$/.exec(key);
+    if (c) cols.set(c[1], String(value));
+  }
+  const byOrder = (m: Map<string, string>) => [...m.entries()].sort((a, b) => (a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0)).map(([id]) => id);
+  const rowIds = byOrder(rows);
+  const colIds = byOrder(cols);
+  if (!rowIds.length || !colIds.length) return '';
+  const cell = (r: string, c: string) => {
+    const v = props[`cells.${r}:${c}.text`];
+    const text = isTextProp(v) ? renderInline(v.$text) : typeof v === 'string' ? escapeText(v) : '';
+    return text.replace(/\|/g, '\\|').replace(/\n/g, '<br>');
+  };
+  const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+  const out = [line(colIds.map((c) => cell(rowIds[0], c))), line(colIds.map(() => '---'))];
+  for (const r of rowIds.slice(1)) out.push(line(colIds.map((c) => cell(r, c))));
+  return out.join('\n');
+}
+
+function renderList(nodes: BlockNode[], start: number, opts: RenderMarkdownOptions): { text: string; next: number } {
+  const items: string[] = [];
+  let n = 1;
+  let i = start;
+  // Bulleted and numbered runs are separate Markdown lists
+  const numbered = (node: BlockNode) => node.props?.type === 'numbered';
+  while (i < nodes.length && nodes[i].flavour === 'affine:list' && numbered(nodes[i]) === numbered(nodes[start])) {
+    const node = nodes[i];
+    const props = node.props ?? {};
+    let marker = '-';
+    if (props.type === 'numbered') marker = `${n++}.`;
+    if (props.type === 'todo') marker = `- [${props.checked ? 'x' : ' '}]`;
+    const pad = ' '.repeat(props.type === 'numbered' ? marker.length + 1 : 2);
+    const [first, ...rest] = renderInline(node.text).split('\n');
+    let item = `${marker} ${first}`.trimEnd();
+    if (rest.length) item += `\n${indentLines(rest.join('\n'), pad)}`;
+    if (node.children.length) item += `\n${indentLines(renderBlocks(node.children, opts, '\n'), pad)}`;
+    items.push(item);
+    i++;
+  }
+  return { text: items.join('\n'), next: i };
+}
+
+function renderBlock(node: BlockNode, opts: RenderMarkdownOptions): string | null {
+  const props = node.props ?? {};
+  const blobUrl = opts.blobUrl ?? ((id: string) => `blob://${id}`);
+  switch (node.flavour) {
+    case 'affine:paragraph': {
+      const text = renderInline(node.text);
+      const type = String(props.type ?? 'text');
+      let out: string;
+      if (/^h[1-6]$/.test(type)) out = `${'#'.repeat(Number(type[1]))} ${text.replace(/\n/g, ' ')}`.trimEnd();
+      else if (type === 'quote') out = text.split('\n').map((l) => `> ${l}`.trimEnd()).join('\n');
+      else out = text.split('\n').map(escapeLineStart).join('\n');
+      if (node.children.length) out += `\n\n${renderBlocks(node.children, opts)}`;
+      return out;
+    }
+    case 'affine:code': {
+      const body = plainText(node.text);
+      let longest = 2;
+      for (const m of body.match(/^`{3,}/gm) ?? []) longest = Math.max(longest, m.length);
+      const fence = '`'.repeat(longest + 1);
+      return `${fence}${props.language ?? ''}\n${body}\n${fence}`;
+    }
+    case 'affine:divider':
+      return '---';
+    case 'affine:image': {
+      const caption = escapeText(String(props.caption ?? ''));
+      return props.sourceId ? `![${caption}](${blobUrl(String(props.sourceId))})` : null;
+    }
+    case 'affine:attachment': {
+      const name = escapeText(String(props.name ?? props.sourceId ?? 'attachment'));
+      return props.sourceId ? `[${name}](${blobUrl(String(props.sourceId))})` : null;
+    }
+    case 'affine:embed-linked-doc':
+    case 'affine:embed-synced-doc':
+      return props.pageId ? `[[${props.pageId}]]` : null;
+    case 'affine:bookmark':
+    case 'affine:embed-youtube':
+    case 'affine:embed-github':
+    case 'affine:embed-figma':
+    case 'affine:embed-loom':
+      return props.url ? `[${escapeText(String(props.title || props.url))}](${props.url})` : null;
+    case 'affine:latex':
+      return props.latex ? `$$\n${props.latex}\n$$` : null;
+    case 'affine:table':
+      return renderTable(node) || null;
+    case 'affine:note':
+      return renderBlocks(node.children, opts) || null;
+    case 'affine:surface':
+    case 'affine:frame':
+      return null;
+    default: {
+      // Unknown flavours: keep any text and children so content is not lost
+      const parts: string[] = [];
+      if (node.text?.length) parts.push(renderInline(node.text));
+      if (node.children.length) parts.push(renderBlocks(node.children, opts));
+      return parts.filter(Boolean).join('\n\n') || null;
+    }
+  }
+}
+
+function renderBlocks(nodes: BlockNode[], opts: RenderMarkdownOptions, listSeparator = '\n\n'): string {
+  const parts: string[] = [];
+  let i = 0;
+  while (i < nodes.length) {
+    if (nodes[i].flavour === 'affine:list') {
+      const { text, next } = renderList(nodes, i, opts);
+      parts.push(text);
+      i = next;
+      continue;
+    }
+    const out = renderBlock(nodes[i], opts);
+    if (out !== null && out !== '') parts.push(out);
+    i++;
+  }
+  return parts.join(listSeparator);
+}
+
+/**
+ * Render a page block tree (as returned by readPageTree) to Markdown. Only
+ * note content is rendered; edgeless-only surface elements are skipped.
+ */
+export function renderMarkdown(page: BlockNode, opts: RenderMarkdownOptions = {}): string {
+  const parts: string[] = [];
+  const title = plainText(page.props?.title);
+  if (opts.includeTitle !== false && title) parts.push(`# ${title.replace(/\n/g, ' ')}`);
+  const body = page.flavour === 'affine:page' ? renderBlocks(page.children, opts) : renderBlocks([page], opts);
+  if (body) parts.push(body);
+  return parts.length ? `${parts.join('\n\n')}\n` : '';
+}
+
+export default { parseInline, parseMarkdown, parseMarkdownPage, orderKey, renderInline, renderMarkdown };
@@ -0,0 +1,358 @@
+/**
+ * Workspace root doc metadata
+ *
+ * The workspace root Y.Doc (guid = workspace id) holds the sidebar view of the
+ * workspace: `meta.pages` (one Y.Map per doc with id/title/tags/…),
+ * `meta.properties.tags.options` (tag definitions) and `setting.collections`.
+ * These helpers read and mutate that structure on an already-loaded root doc;
+ * pushing the resulting update is left to the realtime layer in yjs.ts.
+ */
+
+import { getY, newBlockId } from './blocks';
+
+export type PageMeta = {
+  id: string;
+  title: string;
+  tags: string[];
+  createDate?: number;
+  updatedDate?: number;
+  trash?: boolean;
+  trashDate?: number;
+  [key: string]: any;
+};
+
+export type TagOption = {
+  id: string;
+  value: string;
+  color: string;
+  createDate?: number;
+  updateDate?: number;
+};
+
+export type Collection = {
+  id: string;
+  name: string;
+  rules: { filters: any[] };
+  allowList: string[];
+  [key: string]: any;
+};
+
+const TAG_COLORS = [
+  'var(--affine-tag-red)',
+  'var(--affine-tag-orange)',
+  'var(--affine-tag-yellow)',
+  'var(--affine-tag-green)',
+  'var(--affine-tag-teal)',
+  'var(--affine-tag-blue)',
+  'var(--affine-tag-purple)',
+  'var(--affine-tag-pink)',
+  'var(--affine-tag-gray)',
+];
+
+function toPlain(v: any): any {
+  return v && typeof v.toJSON === 'function' ? v.toJSON() : v;
+}
+
+function pageEntries(root: any): any[] {
+  const pages = root.getMap('meta').get('pages');
+  return pages && typeof pages.toArray === 'function' ? pages.toArray() : [];
+}
+
+function findPageEntry(root: any, docId: string): any | undefined {
+  return pageEntries(root).find((entry: any) => entry && typeof entry.get === 'function' && entry.get('id') === docId);
+}
+
+function tagOptionsArray(root: any): any | undefined {
+  const options = root.getMap('meta').get('properties')?.get?.('tags')?.get?.('options');
+  return options && typeof options.toArray === 'function' ? options : undefined;
+}
+
+function collectionsArray(root: any): any | undefined {
+  const arr = root.getMap('setting').get('collections');
+  return arr && typeof arr.toArray === 'function' ? arr : undefined;
+}
+
+export function listPageMetas(root: any): PageMeta[] {
+  return pageEntries(root)
+    .map((entry: any) => toPlain(entry))
+    .filter((m: any) => m && typeof m.id === 'string')
+    .map((m: any) => ({ ...m, title: String(m.title ?? ''), tags: Array.isArray(m.tags) ? m.tags : [] }));
+}
+
+export function getPageMeta(root: any, docId: string): PageMeta | undefined {
+  return listPageMetas(root).find((m) => m.id === docId);
+}
+
+/**
+ * Create or update a doc's `meta.pages` entry. New entries get the same shape
+ * createDoc registers (id, title, createDate, empty tags).
+ */
+export async function upsertPageMeta(root: any, docId: string, patch: { title?: string } = {}): Promise<void> {
+  const Y = await getY();
+  const meta = root.getMap('meta');
+  Y.transact(root, () => {
+    let pages = meta.get('pages');
+    if (!pages || !(pages instanceof Y.Array)) {
+      pages = new Y.Array();
+      meta.set('pages', pages);
+    }
+    const existing = findPageEntry(root, docId);
+    if (existing) {
+      if (typeof patch.title === 'string' && existing.get('title') !== patch.title) existing.set('title', patch.title);
+      return;
+    }
+    const yDocMeta: any = new Y.Map();
+    yDocMeta.set('id', docId);
+    yDocMeta.set('title', patch.title ?? '');
+    yDocMeta.set('createDate', Date.now());
+    yDocMeta.set('tags', new Y.Array());
+    pages.push([yDocMeta]);
+  });
+}
+
+/** Drop a doc's `meta.pages` entry; returns false when there was none. */
+export function removePageMeta(root: any, docId: string): boolean {
+  const entries = pageEntries(root);
+  const index = entries.findIndex((entry: any) => entry && typeof entry.get === 'function' && entry.get('id') === docId);
+  if (index === -1) return false;
+  root.getMap('meta').get('pages').delete(index, 1);
+  return true;
+}
+
+/**
+ * Move a doc to the trash (`trash: true` plus `trashDate`) or back out of it,
+ * as the app does. Returns false when the entry was already in that state.
+ */
+export async function setPageTrash(root: any, docId: string, trash: boolean): Promise<boolean> {
+  const entry = findPageEntry(root, docId);
+  if (!entry) throw new Error(`doc ${docId} is not registered in workspace meta`);
+  if (Boolean(entry.get('trash')) === trash) return false;
+  const Y = await getY();
+  Y.transact(root, () => {
+    entry.set('trash', trash);
+    if (trash) entry.set('trashDate', Date.now());
+    else entry.delete('trashDate');
+  });
+  return true;
+}
+
+export function listTags(root: any): TagOption[] {
+  const options = tagOptionsArray(root);
+  if (!options) return [];
+  return options
+    .toArray()
+    .map((o: any) => toPlain(o))
+    .filter((o: any) => o && typeof o.id === 'string');
+}
+
+/** Accept a palette name (`red`, `blue`, …) or any CSS color value. */
+export function resolveTagColor(color: string): string {
+  const named = `var(--affine-tag-${color.trim().toLowerCase()})`;
+  return TAG_COLORS.includes(named) ? named : color;
+}
+
+/** Find a tag by id or display value. */
+export function findTag(root: any, nameOrId: string): TagOption | undefined {
+  const tags = listTags(root);
+  return tags.find((t) => t.id === nameOrId) ?? tags.find((t) => t.value === nameOrId);
+}
+
+function requireTag(root: any, nameOrId: string): TagOption {
+  const tag = findTag(root, nameOrId);
+  if (!tag) throw new Error(`tag ${nameOrId} not found`);
+  return tag;
+}
+
+/** Create a tag; throws when one with the same value exists. Without `color` a stable palette color is picked. */
+export async function createTag(root: any, value: string, color?: string): Promise<TagOption> {
+  if (!value.trim()) throw new Error('tag name is empty');
+  if (listTags(root).some((t) => t.value === value)) throw new Error(`tag ${value} already exists`);
+
+  const Y = await getY();
+  let hash = 0;
+  for (const ch of value) hash = (hash * 31 + ch.charCodeAt(0)) >>> 0;
+  const now = Date.now();
+  const tag: TagOption = {
+    id: newBlockId(),
+    value,
+    color: color ? resolveTagColor(color) : TAG_COLORS[hash % TAG_COLORS.length],
+    createDate: now,
+    updateDate: now,
+  };
+  Y.transact(root, () => {
+    const meta = root.getMap('meta');
+    let properties = meta.get('properties');
+    if (!properties || !(properties instanceof Y.Map)) {
+      properties = new Y.Map();
+      meta.set('properties', properties);
+    }
+    let tags = properties.get('tags');
+    if (!tags || !(tags instanceof Y.Map)) {
+      tags = new Y.Map();
+      properties.set('tags', tags);
+    }
+    let options = tags.get('options');
+    if (!options || !(options instanceof Y.Array)) {
+      options = new Y.Array();
+      tags.set('options', options);
+    }
+    const yTag = new Y.Map();
+    for (const [k, v] of Object.entries(tag)) yTag.set(k, v);
+    options.push([yTag]);
+  });
+  return tag;
+}
+
+/** Find a tag by its display value, creating it (with a stable palette color) when missing. */
+export async function ensureTag(root: any, value: string, color?: string): Promise<TagOption> {
+  return listTags(root).find((t) => t.value === value) ?? (await createTag(root, value, color));
+}
+
+// Options written by the app may be plain objects rather than Y.Maps; those are replaced whole.
+async function patchTagOption(root: any, tagId: string, patch: Partial<TagOption>): Promise<TagOption> {
+  const Y = await getY();
+  const options = tagOptionsArray(root)!;
+  const index = options.toArray().findIndex((o: any) => toPlain(o)?.id === tagId);
+  const next: TagOption = { ...toPlain(options.get(index)), ...patch, updateDate: Date.now() };
+  Y.transact(root, () => {
+    const entry = options.get(index);
+    if (entry instanceof Y.Map) {
+      for (const [k, v] of Object.entries(next)) if (entry.get(k) !== v) entry.set(k, v);
+      return;
+    }
+    options.delete(index, 1);
+    options.insert(index, [next]);
+  });
+  return next;
+}
+
+/** Rename a tag (and optionally recolor it); pages keep referring to it by id. */
+export async function updateTag(root: any, nameOrId: string, patch: { value?: string; color?: string }): Promise<TagOption> {
+  const tag = requireTag(root, nameOrId);
+  const update: Partial<TagOption> = {};
+  if (patch.value !== undefined && patch.value !== tag.value) {
+    if (!patch.value.trim()) throw new Error('tag name is empty');
+    if (listTags(root).some((t) => t.value === patch.value)) throw new Error(`tag ${patch.value} already exists`);
+    update.value = patch.value;
+  }
+  if (patch.color !== undefined) {
+    const color = resolveTagColor(patch.color);
+    if (color !== tag.color) update.color = color;
+  }
+  if (!Object.keys(update).length) return tag;
+  return await patchTagOption(root, tag.id, update);
+}
+
+/** Delete a tag and strip it from every page; returns the number of pages that carried it. */
+export async function deleteTag(root: any, nameOrId: string): Promise<{ tag: TagOption; pages: number }> {
+  const tag = requireTag(root, nameOrId);
+  const Y = await getY();
+  let pages = 0;
+  Y.transact(root, () => {
+    const options = tagOptionsArray(root)!;
+    options.delete(options.toArray().findIndex((o: any) => toPlain(o)?.id === tag.id), 1);
+    for (const entry of pageEntries(root)) {
+      const tags = entry?.get?.('tags');
+      if (!(tags instanceof Y.Array)) continue;
+      const index = tags.toArray().indexOf(tag.id);
+      if (index === -1) continue;
+      tags.delete(index, 1);
+      pages++;
+    }
+  });
+  return { tag, pages };
+}
+
+/** Add a tag id to a doc's `meta.pages[].tags` (no-op when already present). */
+export async function addPageTag(root: any, docId: string, tagId: string): Promise<boolean> {
+  const entry = findPageEntry(root, docId);
+  if (!entry) throw new Error(`doc ${docId} is not registered in workspace meta`);
+  const Y = await getY();
+  let added = false;
+  Y.transact(root, () => {
+    let tags = entry.get('tags');
+    if (!tags || !(tags instanceof Y.Array)) {
+      tags = new Y.Array();
+      entry.set('tags', tags);
+    }
+    if (!tags.toArray().includes(tagId)) {
+      tags.push([tagId]);
+      added = true;
+    }
+  });
+  return added;
+}
+
+/** Remove a tag id from a doc's `meta.pages[].tags`; returns false when it was not there. */
+export async function removePageTag(root: any, docId: string, tagId: string): Promise<boolean> {
+  const entry = findPageEntry(root, docId);
+  if (!entry) throw new Error(`doc ${docId} is not registered in workspace meta`);
+  const tags = entry.get('tags');
+  const index = tags && typeof tags.toArray === 'function' ? tags.toArray().indexOf(tagId) : -1;
+  if (index === -1) return false;
+  const Y = await getY();
+  Y.transact(root, () => tags.delete(index, 1));
+  return true;
+}
+
+export function listCollections(root: any): Collection[] {
+  const arr = collectionsArray(root);
+  if (!arr) return [];
+  return arr
+    .toArray()
+    .map((c: any) => toPlain(c))
+    .filter((c: any) => c && typeof c.id === 'string');
+}
+
+/**
+ * Add a doc to the collection with the given name (created on demand). Collections
+ * are plain objects in `setting.collections`, so updates replace the entry.
+ */
+export async function addDocToCollection(root: any, name: string, docId: string): Promise<Collection> {
+  const Y = await getY();
+  const setting = root.getMap('setting');
+  let result: Collection | undefined;
+  Y.transact(root, () => {
+    let arr = setting.get('collections');
+    if (!arr || !(arr instanceof Y.Array)) {
+      arr = new Y.Array();
+      setting.set('collections', arr);
+    }
+    const items: any[] = arr.toArray().map((c: any) => toPlain(c));
+    const idx = items.findIndex((c) => c && c.name === name);
+    if (idx < 0) {
+      result = { id: newBlockId(), name, rules: { filters: [] }, allowList: [docId] };
+      arr.push([result]);
+      return;
+    }
+    const current: Collection = items[idx];
+    const allowList = Array.isArray(current.allowList) ? current.allowList : [];
+    if (allowList.includes(docId)) {
+      result = current;
+      return;
+    }
+    result = { ...current, allowList: [...allowList, docId] };
+    arr.delete(idx, 1);
+    arr.insert(idx, [result]);
+  });
+  return result!;
+}
+
+export default {
+  listPageMetas,
+  getPageMeta,
+  upsertPageMeta,
+  removePageMeta,
+  setPageTrash,
+  listTags,
+  resolveTagColor,
+  findTag,
+  createTag,
+  ensureTag,
+  updateTag,
+  deleteTag,
+  addPageTag,
+  removePageTag,
+  listCollections,
+  addDocToCollection,
+};
@@ -0,0 +1,248 @@
+/**
+ * Awareness (presence) over the realtime channel for `affine doc who` and `--presence`
+ *
+ * Every doc has an awareness room next to its update room:
+ *   - `space:join-awareness` / `space:leave-awareness` enter and leave it
+ *   - `space:load-awarenesses` asks the other clients in the room to resend
+ *     their state (the server relays it to them as `space:collect-awareness`)
+ *   - `space:update-awareness` broadcasts our state; peers receive it as
+ *     `space:broadcast-awareness-update`
+ * Payloads are y-protocols awareness updates, base64 encoded: a list of
+ * (clientID, clock, JSON state) entries where a `null` state means the client
+ * left. Editors drop states that are not refreshed within 30s.
+ */
+
+import type { RealtimeOptions, RealtimeTransport } from './yjs';
+
+export type AwarenessEntry = { clientId: number; clock: number; state: Record<string, any> | null };
+
+export type PresenceState = {
+  /** Name shown to the editors of the doc (e.g. `release-bot`). */
+  name: string;
+  /** CSS color of the cursor/avatar. */
+  color?: string;
+};
+
+export type PresenceUser = {
+  clientId: number;
+  name: string;
+  /** Block holding the user's cursor or selection, if any. */
+  blockId?: string;
+  state: Record<string, any>;
+};
+
+const REFRESH_MS = 15_000;
+
+function writeVarUint(out: number[], n: number): void {
+  while (n > 0x7f) {
+    out.push(0x80 | (n & 0x7f));
+    n = Math.floor(n / 128);
+  }
+  out.push(n);
+}
+
+/** Encode entries in the y-protocols awareness update format. */
+export function encodeAwarenessUpdate(entries: AwarenessEntry[]): Uint8Array {
+  const out: number[] = [];
+  writeVarUint(out, entries.length);
+  for (const entry of entries) {
+    writeVarUint(out, entry.clientId);
+    writeVarUint(out, entry.clock);
+    const json = Buffer.from(JSON.stringify(entry.state), 'utf8');
+    writeVarUint(out, json.length);
+    for (const byte of json) out.push(byte);
+  }
+  return new Uint8Array(out);
+}
+
+export function decodeAwarenessUpdate(update: Uint8Array): AwarenessEntry[] {
+  let pos = 0;
+  const readVarUint = () => {
+    let n = 0;
+    let mult = 1;
+    for (;;) {
+      if (pos >= update.length) throw new Error('truncated awareness update');
+      const byte = update[pos++];
+      n += (byte & 0x7f) * mult;
+      if (byte < 0x80) return n;
+      mult *= 128;
+    }
+  };
+  const entries: AwarenessEntry[] = [];
+  const count = readVarUint();
+  for (let i = 0; i < count; i++) {
+    const clientId = readVarUint();
+    const clock = readVarUint();
+    const len = readVarUint();
+    if (pos + len > update.length) throw new Error('truncated awareness update');
+    const state = JSON.parse(Buffer.from(update.subarray(pos, pos + len)).toString('utf8'));
+    pos += len;
+    entries.push({ clientId, clock, state });
+  }
+  return entries;
+}
+
+function decodePayload(raw: any): Uint8Array {
+  if (typeof raw === 'string') return new Uint8Array(Buffer.from(raw, 'base64'));
+  if (raw instanceof Uint8Array) return raw;
+  if (raw instanceof ArrayBuffer) return new Uint8Array(raw);
+  throw new Error('unsupported awareness payload');
+}
+
+async function emitChecked(transport: RealtimeTransport, event: string, payload: Record<string, any>): Promise<any> {
+  const ack: any = await transport.emit(event, payload);
+  const error = ack && typeof ack === 'object' ? ack.error : undefined;
+  if (error) throw new Error(`realtime ${event} failed: ${typeof error === 'string' ? error : error.message ?? JSON.stringify(error)}`);
+  return ack;
+}
+
+// Editors keep selections per doc under `selectionV2` (older ones: a flat `selection` list).
+function cursorBlockId(state: Record<string, any>, docId: string): string | undefined {
+  const byDoc = state.selectionV2;
+  const lists = [byDoc?.[docId], state.selection, ...(byDoc && typeof byDoc === 'object' ? Object.values(byDoc) : [])];
+  for (const list of lists) {
+    if (!Array.isArray(list)) continue;
+    for (const sel of list) {
+      const blockId = sel?.blockId ?? sel?.from?.blockId;
+      if (typeof blockId === 'string' && blockId) return blockId;
+    }
+  }
+  return undefined;
+}
+
+/** Name and cursor block of an awareness state. */
+export function describePresence(clientId: number, state: Record<string, any>, docId: string): PresenceUser {
+  const name = String(state.user?.name ?? state.name ?? '').trim() || `client ${clientId}`;
+  return { clientId, name, blockId: cursorBlockId(state, docId), state };
+}
+
+export type CollectPresenceOptions = Pick<RealtimeOptions, 'workspaceId' | 'clientVersion'> & {
+  docId: string;
+  /** How long to wait for peers to answer (default 2000ms). */
+  waitMs?: number;
+};
+
+/**
+ * Ask the clients in a doc's awareness room for their state and list the
+ * connected users. `transport` must have joined the workspace already.
+ */
+export async function collectPresence(transport: RealtimeTransport, opts: CollectPresenceOptions): Promise<PresenceUser[]> {
+  if (!transport.on) throw new Error('transport does not support server events');
+  const room = { spaceType: 'workspace', spaceId: opts.workspaceId, docId: opts.docId };
+  const states = new Map<number, AwarenessEntry>();
+  const off = transport.on('space:broadcast-awareness-update', (msg: any) => {
+    if (msg?.spaceId !== opts.workspaceId || msg?.docId !== opts.docId) return;
+    try {
+      for (const entry of decodeAwarenessUpdate(decodePayload(msg.awarenessUpdate))) {
+        const known = states.get(entry.clientId);
+        if (!known || entry.clock >= known.clock) states.set(entry.clientId, entry);
+      }
+    } catch {
+      // ignore malformed updates from other clients
+    }
+  });
+  try {
+    await emitChecked(transport, 'space:join-awareness', { ...room, clientVersion: opts.clientVersion ?? '1.0.0' });
+    await emitChecked(transport, 'space:load-awarenesses', room);
+    await new Promise((resolve) => setTimeout(resolve, Math.max(0, opts.waitMs ?? 2000)));
+  } finally {
+    off();
+    await transport.emit('space:leave-awareness', room).catch(() => undefined);
+  }
+  return [...states.values()]
+    .filter((entry) => entry.state)
+    .map((entry) => describePresence(entry.clientId, entry.state!, opts.docId))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Announces the CLI as an editor of the docs it writes: joins each doc's
+ * awareness room on first use, refreshes the state before editors time it
+ * out, answers `space:collect-awareness`, re-enters after a reconnect, and
+ * clears the state on stop().
+ */
+export class PresenceBroadcaster {
+  private readonly clientId = Math.floor(Math.random() * 0xffffffff);
+  private clock = 0;
+  private readonly docs = new Set<string>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private readonly unsubscribe: Array<() => void> = [];
+
+  constructor(
+    private readonly transport: RealtimeTransport,
+    private readonly opts: Pick<RealtimeOptions, 'workspaceId' | 'clientVersion'> & { presence: PresenceState },
+  ) {}
+
+  /** Docs the broadcaster is currently present in. */
+  get docIds(): string[] {
+    return [...this.docs];
+  }
+
+  private state(docId: string): Record<string, any> {
+    const { name, color } = this.opts.presence;
+    return { user: { name }, ...(color ? { color } : {}), selectionV2: { [docId]: [] } };
+  }
+
+  private async send(docId: string, state: Record<string, any> | null): Promise<void> {
+    const update = encodeAwarenessUpdate([{ clientId: this.clientId, clock: ++this.clock, state }]);
+    await emitChecked(this.transport, 'space:update-awareness', {
+      spaceType: 'workspace',
+      spaceId: this.opts.workspaceId,
+      docId,
+      awarenessUpdate: Buffer.from(update).toString('base64'),
+    });
+  }
+
+  private async join(docId: string): Promise<void> {
+    await emitChecked(this.transport, 'space:join-awareness', {
+      spaceType: 'workspace',
+      spaceId: this.opts.workspaceId,
+      docId,
+      clientVersion: this.opts.clientVersion ?? '1.0.0',
+    });
+    await this.send(docId, this.state(docId));
+  }
+
+  /** Show the presence in `docId` (no-op when already there). */
+  async enter(docId: string): Promise<void> {
+    if (this.docs.has(docId)) return;
+    this.docs.add(docId);
+    if (!this.timer) this.start();
+    try {
+      await this.join(docId);
+    } catch (err) {
+      this.docs.delete(docId);
+      throw err;
+    }
+  }
+
+  private start(): void {
+    this.timer = setInterval(() => {
+      for (const docId of this.docs) this.send(docId, this.state(docId)).catch(() => undefined);
+    }, REFRESH_MS);
+    (this.timer as any).unref?.();
+    const off = this.transport.on?.('space:collect-awareness', (msg: any) => {
+      if (msg?.spaceId === this.opts.workspaceId && this.docs.has(msg?.docId)) this.send(msg.docId, this.state(msg.docId)).catch(() => undefined);
+    });
+    if (off) this.unsubscribe.push(off);
+    const offReconnect = this.transport.onReconnect?.(async () => {
+      for (const docId of this.docs) await this.join(docId);
+    });
+    if (offReconnect) this.unsubscribe.push(offReconnect);
+  }
+
+  /** Clear the state in every doc and leave their awareness rooms. */
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    for (const off of this.unsubscribe.splice(0)) off();
+    for (const docId of this.docs) {
+      const room = { spaceType: 'workspace', spaceId: this.opts.workspaceId, docId };
+      await this.send(docId, null).catch(() => undefined);
+      await this.transport.emit('space:leave-awareness', room).catch(() => undefined);
+    }
+    this.docs.clear();
+  }
+}
+
+export default { encodeAwarenessUpdate, decodeAwarenessUpdate, describePresence, collectPresence, PresenceBroadcaster };
@@ -0,0 +1,292 @@
+/**
+ * Custom doc properties for `affine doc props` and `doc list --where/--columns`
+ *
+ * The workspace root doc keeps them under `affine:workspace-properties`:
+ *   - `schema.pageProperties.custom[propId]`: {id, name, type, order, options?}
+ *   - `pageProperties[docId].custom[propId]`: {id, value, visibility, order}
+ * Values are typed by the schema (text, number, date as YYYY-MM-DD, checkbox,
+ * select storing an option id, createdBy storing a user id, read-only).
+ */
+
+import { getY, newBlockId } from './blocks';
+import { getPageMeta, listPageMetas, listTags } from './meta';
+
+export const PROPERTY_TYPES = ['text', 'number', 'date', 'checkbox', 'select', 'createdBy'] as const;
+export type PropertyType = (typeof PROPERTY_TYPES)[number];
+
+export type PropertySchema = {
+  id: string;
+  name: string;
+  type: string;
+  order?: string;
+  options?: Array<{ id: string; value: string; color?: string }>;
+  [key: string]: any;
+};
+
+export type DocProperty = {
+  id: string;
+  name: string;
+  type: string;
+  value: any;
+};
+
+const ROOT_KEY = 'affine:workspace-properties';
+// Page-list fields usable in --where/--columns next to custom properties
+const BUILTIN_COLUMNS = ['id', 'title', 'tags', 'createDate', 'updatedDate'];
+
+function toPlain(v: any): any {
+  return v && typeof v.toJSON === 'function' ? v.toJSON() : v;
+}
+
+function workspaceProperties(root: any): any {
+  return toPlain(root.getMap(ROOT_KEY)) ?? {};
+}
+
+/** Custom property definitions, in display order. */
+export function listPropertySchemas(root: any): PropertySchema[] {
+  const custom = workspaceProperties(root).schema?.pageProperties?.custom ?? {};
+  return Object.values<any>(custom)
+    .filter((p) => p && typeof p.id === 'string')
+    .map((p) => ({ ...p, name: String(p.name ?? p.id), type: String(p.type ?? 'text') }))
+    .sort((a, b) => String(a.order ?? '').localeCompare(String(b.order ?? '')) || a.name.localeCompare(b.name));
+}
+
+/** Find a property definition by name (exact, then case-insensitive) or id. */
+export function findPropertySchema(root: any, nameOrId: string): PropertySchema | undefined {
+  const schemas = listPropertySchemas(root);
+  const lower = nameOrId.toLowerCase();
+  return (
+    schemas.find((p) => p.name === nameOrId) ??
+    schemas.find((p) => p.name.toLowerCase() === lower) ??
+    schemas.find((p) => p.id === nameOrId)
+  );
+}
+
+/** A doc's property values (only the ones that are set), in schema order. */
+export function getDocProperties(root: any, docId: string): DocProperty[] {
+  const values = workspaceProperties(root).pageProperties?.[docId]?.custom ?? {};
+  return listPropertySchemas(root)
+    .filter((p) => values[p.id] && values[p.id].value !== undefined && values[p.id].value !== null)
+    .map((p) => ({ id: p.id, name: p.name, type: p.type, value: values[p.id].value }));
+}
+
+/** Parse repeated `key=value` arguments. */
+export function parseAssignments(pairs: string[] = []): Array<[string, string]> {
+  return pairs.map((pair) => {
+    const eq = pair.indexOf('=');
+    if (eq <= 0) throw new Error(`invalid assignment ${pair} (expected key=value)`);
+    return [pair.slice(0, eq).trim(), pair.slice(eq + 1)];
+  });
+}
+
+/** Pick a type for a new property from its first value. */
+export function inferPropertyType(raw: string): PropertyType {
+  if (/^(true|false)$/i.test(raw)) return 'checkbox';
+  if (/^-?\d+(\.\d+)?$/.test(raw)) return 'number';
+  if (/^\d{4}-\d{2}-\d{2}$/.test(raw)) return 'date';
+  return 'text';
+}
+
+/** Convert a CLI string to the stored value for `type` (select values are resolved by setDocProperties). */
+export function parsePropertyValue(type: string, raw: string): any {
+  switch (type) {
+    case 'number': {
+      const n = Number(raw);
+      if (!raw.trim() || !Number.isFinite(n)) throw new Error(`invalid number: ${raw}`);
+      return n;
+    }
+    case 'checkbox':
+      if (/^(true|yes|y|1|on)$/i.test(raw)) return true;
+      if (/^(false|no|n|0|off)$/i.test(raw)) return false;
+      throw new Error(`invalid checkbox value: ${raw} (expected true or false)`);
+    case 'date': {
+      const date = new Date(raw);
+      if (!raw.trim() || Number.isNaN(date.getTime())) throw new Error(`invalid date: ${raw}`);
+      return date.toISOString().slice(0, 10);
+    }
+    case 'createdBy':
+      throw new Error('createdBy properties are read-only');
+    default:
+      return raw;
+  }
+}
+
+/** Human-readable form of a stored value (select option ids become their labels). */
+export function formatPropertyValue(prop: { type: string; value: any; options?: PropertySchema['options'] }): string {
+  if (prop.value === undefined || prop.value === null) return '';
+  if (prop.type === 'select') return prop.options?.find((o) => o.id === prop.value)?.value ?? String(prop.value);
+  if (typeof prop.value === 'object') return JSON.stringify(prop.value);
+  return String(prop.value);
+}
+
+// Nested maps written by the app are Y.Maps, but tolerate plain objects by converting them in place.
+function childMap(Y: any, parent: any, key: string): any {
+  const existing = parent.get(key);
+  if (existing instanceof Y.Map) return existing;
+  const map = new Y.Map();
+  if (existing && typeof existing === 'object') {
+    for (const [k, v] of Object.entries(existing)) map.set(k, v);
+  }
+  parent.set(key, map);
+  return map;
+}
+
+// Select options are a Y.Array of Y.Maps, like `meta.properties.tags.options`, so
+// concurrent additions merge; a plain array (older writes) is converted in place.
+function optionsArray(Y: any, ySchema: any): any {
+  const existing = ySchema.get('options');
+  if (existing instanceof Y.Array) return existing;
+  const options = new Y.Array();
+  for (const option of Array.isArray(existing) ? existing : []) options.push([optionMap(Y, option)]);
+  ySchema.set('options', options);
+  return options;
+}
+
+function optionMap(Y: any, option: Record<string, any>): any {
+  const yOption = new Y.Map();
+  for (const [k, v] of Object.entries(option)) yOption.set(k, v);
+  return yOption;
+}
+
+function nextOrder(schemas: PropertySchema[]): string {
+  const last = schemas.map((p) => String(p.order ?? '')).sort().pop();
+  return last ? `${last}0` : 'a0';
+}
+
+export type SetPropertiesOptions = {
+  /** Type for properties that do not exist yet (inferred from the value otherwise). */
+  type?: PropertyType;
+};
+
+/**
+ * Set (or, with an empty value, clear) custom properties on a doc. Unknown
+ * names create a property definition; select values not yet among the
+ * options are added. Returns the doc's properties afterwards.
+ */
+export async function setDocProperties(
+  root: any,
+  docId: string,
+  assignments: Array<[string, string]>,
+  opts: SetPropertiesOptions = {},
+): Promise<DocProperty[]> {
+  if (!getPageMeta(root, docId)) throw new Error(`doc ${docId} is not registered in workspace meta`);
+  if (opts.type && !PROPERTY_TYPES.includes(opts.type)) throw new Error(`unknown property type ${opts.type}`);
+  const Y = await getY();
+
+  // Validate everything before the first write
+  const planned = assignments.map(([name, raw]) => {
+    const schema = findPropertySchema(root, name);
+    const type = schema?.type ?? opts.type ?? inferPropertyType(raw);
+    if (raw === '') {
+      if (!schema) throw new Error(`property ${name} not found`);
+      return { name, schema, type, raw, value: undefined };
+    }
+    return { name, schema, type, raw, value: type === 'select' ? raw : parsePropertyValue(type, raw) };
+  });
+
+  Y.transact(root, () => {
+    const yProps = root.getMap(ROOT_KEY);
+    const yCustomSchema = childMap(Y, childMap(Y, childMap(Y, yProps, 'schema'), 'pageProperties'), 'custom');
+    const yDocCustom = childMap(Y, childMap(Y, childMap(Y, yProps, 'pageProperties'), docId), 'custom');
+
+    for (const { name, schema: found, type, raw, value } of planned) {
+      let schema = found;
+      if (!schema) {
+        schema = { id: newBlockId(), name, type, source: 'custom', order: nextOrder(listPropertySchemas(root)) };
+        const ySchema = new Y.Map();
+        for (const [k, v] of Object.entries(schema)) ySchema.set(k, v);
+        yCustomSchema.set(schema.id, ySchema);
+      }
+      if (value === undefined) {
+        yDocCustom.delete(schema.id);
+        continue;
+      }
+
+      let stored = value;
+      if (type === 'select') {
+        const yOptions = optionsArray(Y, childMap(Y, yCustomSchema, schema.id));
+        const options: NonNullable<PropertySchema['options']> = yOptions.toJSON();
+        let option = options.find((o) => o.value === raw) ?? options.find((o) => o.id === raw);
+        if (!option) {
+          option = { id: newBlockId(), value: raw };
+          yOptions.push([optionMap(Y, option)]);
+        }
+        stored = option.id;
+      }
+
+      const current = yDocCustom.get(schema.id);
+      if (toPlain(current)?.value === stored) continue;
+      const yValue = new Y.Map();
+      yValue.set('id', schema.id);
+      yValue.set('value', stored);
+      yValue.set('visibility', toPlain(current)?.visibility ?? 'visible');
+      yDocCustom.set(schema.id, yValue);
+    }
+  });
+  return getDocProperties(root, docId);
+}
+
+/**
+ * One flat record per page-list entry (trashed docs excluded) with the
+ * built-in columns and every custom property, formatted for --where/--columns.
+ */
+export function listDocRecords(root: any): Array<Record<string, string>> {
+  const schemas = listPropertySchemas(root);
+  const tagNames = new Map(listTags(root).map((t) => [t.id, t.value]));
+  return listPageMetas(root)
+    .filter((m) => !m.trash)
+    .map((m) => {
+      const record: Record<string, string> = {
+        id: m.id,
+        title: m.title,
+        tags: m.tags.map((id) => tagNames.get(id) ?? id).join(','),
+        createDate: m.createDate ? new Date(m.createDate).toISOString() : '',
+        updatedDate: m.updatedDate ? new Date(m.updatedDate).toISOString() : '',
+      };
+      const values = new Map(getDocProperties(root, m.id).map((p) => [p.id, p.value]));
+      for (const schema of schemas) record[schema.name] = formatPropertyValue({ ...schema, value: values.get(schema.id) });
+      return record;
+    });
+}
+
+// Resolve a --where/--columns key against the record's keys, case-insensitively for properties.
+function recordKey(root: any, key: string): string {
+  if (BUILTIN_COLUMNS.includes(key)) return key;
+  const schema = findPropertySchema(root, key);
+  if (!schema) throw new Error(`unknown column ${key} (built-in: ${BUILTIN_COLUMNS.join(', ')}; or a doc property name)`);
+  return schema.name;
+}
+
+/** Resolve `--columns a,b,c` to record keys. */
+export function resolveColumns(root: any, columns: string[]): string[] {
+  return columns.map((c) => c.trim()).filter(Boolean).map((c) => recordKey(root, c));
+}
+
+/**
+ * Filter records by `key=value` conditions (all must hold). Values compare as
+ * formatted text; `tags=x` matches docs carrying tag x and `key=` matches unset.
+ */
+export function filterDocRecords(
+  root: any,
+  records: Array<Record<string, string>>,
+  where: Array<[string, string]>,
+): Array<Record<string, string>> {
+  const conditions = where.map(([key, value]) => [recordKey(root, key), value] as const);
+  return records.filter((r) =>
+    conditions.every(([key, value]) => (key === 'tags' ? r.tags.split(',').includes(value) : (r[key] ?? '') === value)),
+  );
+}
+
+export default {
+  listPropertySchemas,
+  findPropertySchema,
+  getDocProperties,
+  parseAssignments,
+  inferPropertyType,
+  parsePropertyValue,
+  formatPropertyValue,
+  setDocProperties,
+  listDocRecords,
+  resolveColumns,
+  filterDocRecords,
+};
@@ -0,0 +1,130 @@
+/**
+ * Durable offline queue for realtime updates (`affine realtime queue`)
+ *
+ * When a push fails because the connection is gone, the Yjs update is kept on
+ * disk instead of being lost: one file per update under
+ * `<dir>/<workspaceId>/<docId>/`. Yjs updates are idempotent and commute, so
+ * queued ones can be merged per doc and delivered later, even if the server
+ * already got some of them before the socket dropped.
+ *
+ * Default dir: ~/.affine/cli/queue (override with AFFINE_CLI_QUEUE_DIR).
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+
+export type QueuedUpdate = {
+  /** File name of the entry, unique within its doc. */
+  id: string;
+  workspaceId: string;
+  docId: string;
+  createdAt: string;
+  bytes: number;
+};
+
+export type QueueFilter = { workspaceId?: string; docId?: string };
+
+export type OfflineQueueOptions = {
+  dir?: string;
+  /** Called after an update was written to the queue. */
+  onAdd?: (entry: QueuedUpdate) => void;
+};
+
+const SUFFIX = '.update';
+
+export function resolveQueueDir(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.AFFINE_CLI_QUEUE_DIR) return path.resolve(env.AFFINE_CLI_QUEUE_DIR);
+  return path.join(os.homedir(), '.affine', 'cli', 'queue');
+}
+
+async function readDirNames(dir: string): Promise<string[]> {
+  try {
+    return (await fs.readdir(dir)).sort();
+  } catch (err: any) {
+    if (err && (err.code === 'ENOENT' || err.code === 'ENOTDIR')) return [];
+    throw err;
+  }
+}
+
+export class OfflineQueue {
+  readonly dir: string;
+
+  constructor(private readonly opts: OfflineQueueOptions = {}) {
+    this.dir = opts.dir ?? resolveQueueDir();
+  }
+
+  private docDir(workspaceId: string, docId: string): string {
+    return path.join(this.dir, encodeURIComponent(workspaceId), encodeURIComponent(docId));
+  }
+
+  private entryPath(entry: QueuedUpdate): string {
+    return path.join(this.docDir(entry.workspaceId, entry.docId), entry.id);
+  }
+
+  /** Persist an update; written to a temp file first so a crash never leaves a partial entry. */
+  async add(workspaceId: string, docId: string, update: Uint8Array): Promise<QueuedUpdate> {
+    const dir = this.docDir(workspaceId, docId);
+    await fs.mkdir(dir, { recursive: true, mode: 0o700 });
+    const now = Date.now();
+    // Zero-padded timestamp first so names sort in queue order
+    const id = `${String(now).padStart(15, '0')}-${crypto.randomBytes(4).toString('hex')}${SUFFIX}`;
+    const file = path.join(dir, id);
+    await fs.writeFile(`${file}.tmp`, update, { mode: 0o600 });
+    await fs.rename(`${file}.tmp`, file);
+    const entry = { id, workspaceId, docId, createdAt: new Date(now).toISOString(), bytes: update.length };
+    this.opts.onAdd?.(entry);
+    return entry;
+  }
+
+  /** Queued updates, oldest first (per doc), optionally limited to one workspace or doc. */
+  async list(filter: QueueFilter = {}): Promise<QueuedUpdate[]> {
+    const workspaces = filter.workspaceId ? [encodeURIComponent(filter.workspaceId)] : await readDirNames(this.dir);
+    const entries: QueuedUpdate[] = [];
+    for (const ws of workspaces) {
+      const docs = filter.docId ? [encodeURIComponent(filter.docId)] : await readDirNames(path.join(this.dir, ws));
+      for (const doc of docs) {
+        const dir = path.join(this.dir, ws, doc);
+        for (const id of await readDirNames(dir)) {
+          if (!id.endsWith(SUFFIX)) continue;
+          const { size } = await fs.stat(path.join(dir, id));
+          const createdAt = new Date(parseInt(id, 10)).toISOString();
+          entries.push({ id, workspaceId: decodeURIComponent(ws), docId: decodeURIComponent(doc), createdAt, bytes: size });
+        }
+      }
+    }
+    return entries;
+  }
+
+  async read(entry: QueuedUpdate): Promise<Uint8Array> {
+    return new Uint8Array(await fs.readFile(this.entryPath(entry)));
+  }
+
+  /** Delete delivered (or discarded) entries and prune directories left empty. */
+  async remove(entries: QueuedUpdate[]): Promise<void> {
+    const dirs = new Set<string>();
+    for (const entry of entries) {
+      await fs.rm(this.entryPath(entry), { force: true });
+      dirs.add(this.docDir(entry.workspaceId, entry.docId));
+    }
+    for (const dir of dirs) {
+      for (const d of [dir, path.dirname(dir)]) {
+        try {
+          await fs.rmdir(d);
+        } catch {
+          // not empty (or already gone)
+        }
+      }
+    }
+  }
+
+  /** Drop queued updates without delivering them; returns what was removed. */
+  async clear(filter: QueueFilter = {}): Promise<QueuedUpdate[]> {
+    const entries = await this.list(filter);
+    await this.remove(entries);
+    return entries;
+  }
+}
+
+export default { OfflineQueue, resolveQueueDir };
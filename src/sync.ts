@@ -0,0 +1,202 @@
+/**
+ * Declarative Markdown -> page sync for `affine doc sync`
+ *
+ * The page's first note is aligned with the parsed Markdown one sibling list
+ * at a time (see alignByContent). Blocks that still match keep their ids —
+ * so comments and teammates' edits on them survive — changed blocks are
+ * patched in place, and only the difference is inserted or removed.
+ *
+ * Text updates are minimal Y.Text edits: the common prefix/suffix is kept and
+ * only the Markdown-expressible marks (bold, italic, strike, code, links,
+ * doc references, mentions) are reformatted, so other inline attributes on
+ * untouched text are left alone.
+ */
+
+import {
+  findNoteBlockId,
+  getY,
+  insertBlocks,
+  plainText,
+  readPageTree,
+  removeBlocks,
+  updateBlock,
+  type BlockNode,
+  type BlockSpec,
+  type DeltaOp,
+} from './blocks';
+import { alignByContent } from './diff';
+import { renderInline } from './markdown';
+
+export type SyncOp =
+  | { op: 'title'; before: string; after: string }
+  | { op: 'update'; blockId: string; flavour: string; text?: DeltaOp[]; props?: Record<string, any>; summary: string }
+  | { op: 'insert'; parentId: string; index: number; spec: BlockSpec; summary: string }
+  | { op: 'remove'; blockId: string; flavour: string; summary: string };
+
+const SYNC_MARKS = ['bold', 'italic', 'strike', 'code', 'link', 'reference', 'mention'];
+// UI state and auto-numbering that Markdown cannot express
+const IGNORED_PROPS = new Set(['collapsed', 'order']);
+
+// Project a delta onto the marks Markdown can express, so other attributes never count as a change.
+function projectDelta(delta: DeltaOp[] | undefined): DeltaOp[] {
+  return (delta ?? []).map((op) => {
+    const attributes: Record<string, any> = {};
+    for (const k of SYNC_MARKS) if (op.attributes?.[k] !== undefined) attributes[k] = op.attributes[k];
+    return Object.keys(attributes).length ? { insert: op.insert, attributes } : { insert: op.insert };
+  });
+}
+
+const kindOf = (b: BlockSpec) => `${b.flavour}|${b.props?.type ?? ''}`;
+const keyOf = (b: BlockSpec) => `${kindOf(b)}|${renderInline(projectDelta(b.text))}|${b.props?.sourceId ?? ''}`;
+
+function serializeProp(v: unknown): string {
+  return JSON.stringify(v ?? null);
+}
+
+function summarize(b: BlockSpec): string {
+  const text = b.text ? plainText(b.text) : typeof b.props?.sourceId === 'string' ? b.props.sourceId : '';
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+/**
+ * Plan the operations that make the page match `page` (as returned by
+ * parseMarkdownPage). Removals come before inserts; insert indexes refer to
+ * the sibling list after removals and earlier inserts have been applied.
+ */
+export function planSync(doc: any, page: { title?: string; blocks: BlockSpec[] }): SyncOp[] {
+  const tree = readPageTree(doc);
+  const noteId = findNoteBlockId(doc);
+  const note = (tree?.children as BlockNode[] | undefined)?.find((n) => n.id === noteId);
+  if (!tree || !note) throw new Error('doc has no page/note block to sync into');
+
+  const ops: SyncOp[] = [];
+  const removals: SyncOp[] = [];
+  const inserts: SyncOp[] = [];
+  const title = plainText(tree.props?.title);
+  if (page.title !== undefined && page.title !== title) ops.push({ op: 'title', before: title, after: page.title });
+
+  const visit = (parentId: string, existing: BlockNode[], wanted: BlockSpec[]) => {
+    let index = 0;
+    for (const step of alignByContent<BlockNode, BlockSpec>(existing, wanted, { a: keyOf, b: keyOf }, { a: kindOf, b: kindOf })) {
+      if (step.type === 'remove') {
+        removals.push({ op: 'remove', blockId: step.a.id, flavour: step.a.flavour, summary: summarize(step.a) });
+        continue;
+      }
+      if (step.type === 'add') {
+        inserts.push({ op: 'insert', parentId, index: index++, spec: step.b, summary: summarize(step.b) });
+        continue;
+      }
+      const { a, b } = step;
+      const update: Extract<SyncOp, { op: 'update' }> = { op: 'update', blockId: a.id, flavour: a.flavour, summary: summarize(b) };
+      if (b.text && renderInline(projectDelta(a.text)) !== renderInline(projectDelta(b.text))) update.text = b.text;
+      for (const [k, v] of Object.entries(b.props ?? {})) {
+        if (IGNORED_PROPS.has(k) || serializeProp(a.props?.[k]) === serializeProp(v)) continue;
+        (update.props ??= {})[k] = v;
+      }
+      if (update.text || update.props) ops.push(update);
+      visit(a.id, a.children as BlockNode[], b.children ?? []);
+      index++;
+    }
+  };
+  visit(note.id, note.children as BlockNode[], page.blocks);
+  return [...ops, ...removals, ...inserts];
+}
+
+/** Per-character attributes of a delta (UTF-16 units, matching Y.Text indexes). */
+function marksPerChar(delta: DeltaOp[]): Array<Record<string, any>> {
+  const out: Array<Record<string, any>> = [];
+  for (const op of delta) {
+    if (typeof op.insert !== 'string') continue;
+    for (let k = 0; k < op.insert.length; k++) out.push(op.attributes ?? {});
+  }
+  return out;
+}
+
+// Rewrite a Y.Text to `target` touching as little as possible.
+function patchText(yText: any, target: DeltaOp[]): void {
+  const before: string = yText.toString();
+  const after = plainText(target);
+  let p = 0;
+  while (p < before.length && p < after.length && before[p] === after[p]) p++;
+  let s = 0;
+  while (s < before.length - p && s < after.length - p && before[before.length - 1 - s] === after[after.length - 1 - s]) s++;
+
+  if (before.length - p - s > 0) yText.delete(p, before.length - p - s);
+  let pos = 0;
+  for (const op of target) {
+    if (typeof op.insert !== 'string') continue;
+    const start = Math.max(pos, p);
+    const end = Math.min(pos + op.insert.length, after.length - s);
+    if (end > start) yText.insert(start, op.insert.slice(start - pos, end - pos), op.attributes ?? {});
+    pos += op.insert.length;
+  }
+
+  // Re-apply Markdown marks on the kept prefix/suffix where they differ
+  const current = marksPerChar(yText.toDelta());
+  const patches = marksPerChar(target).map((want, i) => {
+    const patch: Record<string, any> = {};
+    for (const k of SYNC_MARKS) {
+      if (serializeProp(current[i]?.[k]) !== serializeProp(want[k])) patch[k] = want[k] ?? null;
+    }
+    return JSON.stringify(patch);
+  });
+  let i = 0;
+  while (i < patches.length) {
+    let j = i + 1;
+    while (j < patches.length && patches[j] === patches[i]) j++;
+    if (patches[i] !== '{}') yText.format(i, j - i, JSON.parse(patches[i]));
+    i = j;
+  }
+}
+
+/** Apply a plan from planSync to the doc (call inside editDoc so it is pushed as one update). */
+export async function applySync(doc: any, ops: SyncOp[]): Promise<void> {
+  const Y = await getY();
+  const yBlocks = doc.getMap('blocks');
+  for (const op of ops) {
+    switch (op.op) {
+      case 'title': {
+        const tree = readPageTree(doc)!;
+        const yPage: any = yBlocks.get(tree.id);
+        let yTitle: any = yPage.get('prop:title');
+        if (!(yTitle instanceof Y.Text)) {
+          yTitle = new Y.Text();
+          yPage.set('prop:title', yTitle);
+        }
+        Y.transact(doc, () => patchText(yTitle, [{ insert: op.after }]));
+        break;
+      }
+      case 'update': {
+        const yText: any = yBlocks.get(op.blockId)?.get('prop:text');
+        if (op.text && yText instanceof Y.Text) Y.transact(doc, () => patchText(yText, op.text!));
+        else if (op.text) await updateBlock(doc, op.blockId, { text: op.text });
+        if (op.props) await updateBlock(doc, op.blockId, { props: op.props });
+        break;
+      }
+      case 'remove':
+        await removeBlocks(doc, [op.blockId]);
+        break;
+      case 'insert':
+        await insertBlocks(doc, op.parentId, [op.spec], op.index);
+        break;
+    }
+  }
+}
+
+/** One line per planned operation, for `--dry-run`. */
+export function formatSyncOp(op: SyncOp): string {
+  switch (op.op) {
+    case 'title':
+      return `title   ${JSON.stringify(op.before)} -> ${JSON.stringify(op.after)}`;
+    case 'update': {
+      const what = [op.text ? 'text' : '', ...Object.keys(op.props ?? {})].filter(Boolean).join(', ');
+      return `update  ${op.blockId} ${op.flavour} (${what}) ${op.summary}`.trimEnd();
+    }
+    case 'insert':
+      return `insert  ${op.spec.flavour} at ${op.parentId}[${op.index}] ${op.summary}`.trimEnd();
+    case 'remove':
+      return `remove  ${op.blockId} ${op.flavour} ${op.summary}`.trimEnd();
+  }
+}
+
+export default { planSync, applySync, formatSyncOp };
@@ -0,0 +1,72 @@
+/**
+ * Template instantiation for `affine doc from-template`
+ *
+ * A template is an ordinary page whose text contains `{{name}}`
+ * placeholders. The page is duplicated (see duplicateDoc) and every Y.Text
+ * prop of the copy — title, block text, table cells — has its placeholders
+ * replaced in place, keeping the formatting of the placeholder.
+ */
+
+import { getY } from './blocks';
+
+const PLACEHOLDER_RE = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/** Parse repeated `--var name=value` options. */
+export function parseTemplateVars(pairs: string[] = []): Record<string, string> {
+  const vars: Record<string, string> = {};
+  for (const pair of pairs) {
+    const eq = pair.indexOf('=');
+    if (eq <= 0) throw new Error(`invalid --var ${pair} (expected name=value)`);
+    vars[pair.slice(0, eq).trim()] = pair.slice(eq + 1);
+  }
+  return vars;
+}
+
+// Formatting attributes in effect at a Y.Text index.
+function attributesAt(yText: any, index: number): Record<string, any> {
+  let pos = 0;
+  for (const op of yText.toDelta()) {
+    const len = typeof op.insert === 'string' ? op.insert.length : 1;
+    if (index < pos + len) return op.attributes ?? {};
+    pos += len;
+  }
+  return {};
+}
+
+export type FillResult = {
+  /** Number of placeholders replaced. */
+  replaced: number;
+  /** Placeholder names without a value, sorted; they are left in the text. */
+  unresolved: string[];
+};
+
+/** Replace `{{name}}` placeholders in every Y.Text prop of every block. */
+export async function fillPlaceholders(doc: any, vars: Record<string, string>): Promise<FillResult> {
+  const Y = await getY();
+  const result: FillResult = { replaced: 0, unresolved: [] };
+  Y.transact(doc, () => {
+    doc.getMap('blocks').forEach((yBlock: any) => {
+      if (!yBlock || typeof yBlock.forEach !== 'function') return;
+      yBlock.forEach((v: any, key: string) => {
+        if (!key.startsWith('prop:') || !(v instanceof Y.Text)) return;
+        const matches = [...String(v.toString()).matchAll(PLACEHOLDER_RE)];
+        // Replace back to front so earlier indexes stay valid
+        for (const m of matches.reverse()) {
+          const name = m[1];
+          if (!Object.prototype.hasOwnProperty.call(vars, name)) {
+            if (!result.unresolved.includes(name)) result.unresolved.push(name);
+            continue;
+          }
+          const attrs = attributesAt(v, m.index!);
+          v.delete(m.index!, m[0].length);
+          if (vars[name]) v.insert(m.index!, vars[name], attrs);
+          result.replaced++;
+        }
+      });
+    });
+  });
+  result.unresolved.sort();
+  return result;
+}
+
+export default { parseTemplateVars, fillPlaceholders };
@@ -0,0 +1,95 @@
+/**
+ * Trash semantics for `affine doc trash|restore|purge`
+ *
+ * Trashing is what the app does: the doc stays intact and its page-list entry
+ * (`meta.pages[]` in the workspace root) gets `trash: true` and a `trashDate`.
+ * Only `purge` deletes the doc itself (`space:delete-doc`), drops the entry and
+ * then checks via GraphQL that the doc is really gone.
+ */
+
+import { getDoc } from './graphql';
+import { getPageMeta, listPageMetas, removePageMeta, setPageTrash, type PageMeta } from './meta';
+import { deleteDocRealtime, editWorkspaceRoot, loadDoc, RealtimeSession, type RealtimeOptions } from './yjs';
+
+export type TrashResult = {
+  docId: string;
+  title: string;
+  /** False when the doc was already in the requested state. */
+  changed: boolean;
+  trashDate?: number;
+};
+
+async function setTrash(opts: RealtimeOptions & { docId: string }, trash: boolean): Promise<TrashResult> {
+  const { result } = await editWorkspaceRoot(opts, async (root) => {
+    const changed = await setPageTrash(root, opts.docId, trash);
+    return { changed, meta: getPageMeta(root, opts.docId)! };
+  });
+  return {
+    docId: opts.docId,
+    title: result.meta.title,
+    changed: result.changed,
+    ...(result.meta.trashDate ? { trashDate: result.meta.trashDate } : {}),
+  };
+}
+
+/** Move a doc to the trash. */
+export async function trashDoc(opts: RealtimeOptions & { docId: string }): Promise<TrashResult> {
+  return await setTrash(opts, true);
+}
+
+/** Take a doc out of the trash. */
+export async function restoreDoc(opts: RealtimeOptions & { docId: string }): Promise<TrashResult> {
+  return await setTrash(opts, false);
+}
+
+/** Page-list entries currently in the trash, most recently trashed first. */
+export async function listTrash(opts: RealtimeOptions): Promise<PageMeta[]> {
+  const root = await loadDoc({ ...opts, docId: opts.workspaceId, allowEmpty: true });
+  return listPageMetas(root)
+    .filter((m) => m.trash)
+    .sort((a, b) => (b.trashDate ?? 0) - (a.trashDate ?? 0));
+}
+
+export type PurgeDocOptions = RealtimeOptions & {
+  docId: string;
+  /** How often to ask GraphQL whether the doc is gone (default 5). */
+  verifyAttempts?: number;
+  verifyIntervalMs?: number;
+};
+
+// GraphQL reports a deleted doc as null or as a "not found" error, depending on the server version.
+async function docExists(workspaceId: string, docId: string, opts: RealtimeOptions): Promise<boolean> {
+  try {
+    return Boolean(await getDoc(workspaceId, docId, opts));
+  } catch (e: any) {
+    if (/not[ _]?found/i.test(String(e?.message ?? ''))) return false;
+    throw e;
+  }
+}
+
+/** Permanently delete a doc and its page-list entry, then verify it is gone. */
+export async function purgeDoc(opts: PurgeDocOptions): Promise<{ docId: string; title?: string }> {
+  const { verifyAttempts = 5, verifyIntervalMs = 1000, ...rest } = opts;
+  const session = rest.session ?? new RealtimeSession(rest);
+  const sessionOpts = { ...rest, session };
+  let title: string | undefined;
+  try {
+    await deleteDocRealtime(sessionOpts);
+    await editWorkspaceRoot(sessionOpts, (root) => {
+      title = getPageMeta(root, opts.docId)?.title;
+      return removePageMeta(root, opts.docId);
+    });
+  } finally {
+    if (!rest.session) await session.close();
+  }
+
+  // Deletion is applied asynchronously server-side; give it a moment before giving up
+  for (let attempt = 1; ; attempt++) {
+    if (!(await docExists(opts.workspaceId, opts.docId, rest))) break;
+    if (attempt >= verifyAttempts) throw new Error(`doc ${opts.docId} still exists after purge`);
+    await new Promise((resolve) => setTimeout(resolve, verifyIntervalMs));
+  }
+  return { docId: opts.docId, ...(title !== undefined ? { title } : {}) };
+}
+
+export default { trashDoc, restoreDoc, listTrash, purgeDoc };
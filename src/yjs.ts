@@ -6,21 +6,60 @@
  */
 
 import type { HttpOptions } from './http';
-// Use dynamic import for Yjs to avoid ESM/CJS build friction
-async function getY() {
-  return (await import('yjs')) as any;
-}
+import { copyBlocks, getY, insertBlocks, plainText, readPageTree, setPageTitle, type BlockSpec } from './blocks';
+import { upsertPageMeta } from './meta';
+import type { OfflineQueue } from './queue';
+import { PresenceBroadcaster, type PresenceState } from './presence';
 
 export type RealtimeTransport = {
   connect(): Promise<void>;
   emit<T = unknown>(event: string, payload?: Record<string, any>): Promise<T | void>;
   close(): Promise<void>;
+  /** Subscribe to a server-pushed event; returns an unsubscribe function. Optional for request/ack-only transports. */
+  on?(event: string, handler: (payload: any) => void): () => void;
+  /**
+   * How update payloads are sent: raw bytes (Socket.IO binary attachments) or
+   * base64 text. Transports without it get base64. One starting with 'binary'
+   * is switched to 'base64' if the server rejects its first binary push.
+   */
+  encoding?: PayloadEncoding;
+  /** Payload counters, updated by the push/load helpers when present. */
+  stats?: TransportStats;
+  /** Run `handler` each time the transport is back after a dropped connection (and has re-joined its spaces). */
+  onReconnect?(handler: () => void | Promise<void>): () => void;
+  /** Announces the connection as an editor of the docs it pushes to (see RealtimeOptions.presence). */
+  presence?: PresenceBroadcaster;
+};
+
+export type PayloadEncoding = 'binary' | 'base64';
+
+export type TransportStats = {
+  pushes: number;
+  /** Raw Yjs update bytes pushed. */
+  updateBytes: number;
+  /** Size of the pushed payloads as sent (base64 text is ~4/3 of the raw bytes). */
+  sentBytes: number;
+  loads: number;
+  /** Raw Yjs bytes received from space:load-doc. */
+  loadedBytes: number;
+  /** Pushes re-sent as base64 after the server rejected binary. */
+  fallbacks: number;
 };
 
 export type RealtimeOptions = Pick<HttpOptions, 'baseUrl' | 'headers' | 'token' | 'cookie' | 'timeoutMs' | 'debug'> & {
   workspaceId: string;
   clientVersion?: string;
   transport?: RealtimeTransport;
+  /** Shared session: reuses its socket, join and cached docs instead of a per-call connection. */
+  session?: RealtimeSession;
+  /** Send updates as base64 text only, without trying binary payloads first (default: try binary). */
+  base64Only?: boolean;
+  /** Reconnect attempts (with backoff) after a failed connect or a dropped socket; 0 disables (default 5). */
+  reconnectAttempts?: number;
+  /** Keep updates that could not be delivered for lack of a connection, and deliver them on the next join. */
+  queue?: OfflineQueue;
+  /** Show this user in the awareness of every doc written over the connection, until it closes. */
+  presence?: PresenceState;
 };
 
 function randId(len = 16): string {
@@ -73,13 +112,59 @@ export async function buildInitialPageUpdate(title?: string, content?: string):
   return Y.encodeStateAsUpdate(spaceDoc);
 }
 
+function debugLog(opts: Pick<RealtimeOptions, 'debug'>, msg: string): void {
+  if (!opts.debug) return;
+  if (typeof opts.debug === 'function') opts.debug(msg);
+  else console.debug(msg);
+}
+
+function connectionError(message: string, code: string, cause?: any): Error {
+  const err = new Error(message);
+  (err as any).code = code;
+  if (cause) (err as any).cause = cause;
+  return err;
+}
+
+const CONNECTION_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH']);
+
+/** Whether `err` means the server could not be reached (as opposed to rejecting the request). */
+export function isConnectionError(err: any): boolean {
+  if (!err || typeof err !== 'object') return false;
+  if (CONNECTION_ERROR_CODES.has(err.code) || CONNECTION_ERROR_CODES.has(err.cause?.code)) return true;
+  // engine.io reports failed websocket/polling connects as TransportError
+  return err.type === 'TransportError' || err.message === 'transport not connected';
+}
+
+const RECONNECT_DELAY_MS = 500;
+const RECONNECT_DELAY_MAX_MS = 10_000;
+
 /**
- * Default Socket.IO transport (dynamic import). Not used in tests.
- * If socket.io-client is missing at runtime, throws a clear error.
+ * Default Socket.IO transport (socket.io-client is imported dynamically; a
+ * clear error is thrown if it is missing). Failed connects and dropped
+ * sockets are retried with exponential backoff (Socket.IO's reconnection,
+ * `reconnectAttempts` times). While the socket is down, emits wait for it to
+ * come back; acks in flight when it dropped fail with ECONNRESET, since the
+ * server may never answer them. After a reconnect the transport re-joins
+ * every space it had joined before letting emits through, then runs the
+ * onReconnect handlers.
  */
 export class SocketIoTransport implements RealtimeTransport {
   private socket: any | null = null;
-  constructor(private readonly opts: RealtimeOptions) {}
+  encoding: PayloadEncoding;
+  readonly stats: TransportStats = { pushes: 0, updateBytes: 0, sentBytes: 0, loads: 0, loadedBytes: 0, fallbacks: 0 };
+  /** space:join payloads by space id, replayed after a reconnect. */
+  private readonly joined = new Map<string, Record<string, any>>();
+  private readonly inflight = new Set<(err: Error) => void>();
+  private readonly reconnectHandlers = new Set<() => void | Promise<void>>();
+  private ready: Promise<void> = Promise.resolve();
+  private settleReady: { resolve(): void; reject(err: Error): void } | null = null;
+
+  readonly presence?: PresenceBroadcaster;
+
+  constructor(private readonly opts: RealtimeOptions) {
+    this.encoding = opts.base64Only ? 'base64' : 'binary';
+    if (opts.presence) this.presence = new PresenceBroadcaster(this, { ...opts, presence: opts.presence });
+  }
 
   async connect(): Promise<void> {
     if (this.socket) return;
@@ -99,7 +184,8 @@ export class SocketIoTransport implements RealtimeTransport {
     if (this.opts.cookie && !extraHeaders['cookie']) extraHeaders['cookie'] = this.opts.cookie;
     if (this.opts.token && !extraHeaders['authorization']) extraHeaders['authorization'] = `Bearer ${this.opts.token}`;
 
-    this.socket = io(base, {
+    const attempts = Math.max(0, this.opts.reconnectAttempts ?? 5);
+    const socket = io(base, {
       transports: ['websocket'],
       extraHeaders,
       // Provide cookie-like handshake auth compatibility if a cookie string is present
@@ -107,34 +193,120 @@ export class SocketIoTransport implements RealtimeTransport {
         ? { token: this.opts.cookie, userId: '' }
         : undefined,
       timeout: Math.max(1, this.opts.timeoutMs ?? 30_000),
+      reconnection: attempts > 0,
+      reconnectionAttempts: attempts,
+      reconnectionDelay: RECONNECT_DELAY_MS,
+      reconnectionDelayMax: RECONNECT_DELAY_MAX_MS,
     });
 
-    await new Promise<void>((resolve, reject) => {
-      const timer = setTimeout(() => reject(new Error('realtime connect timeout')), Math.max(1, this.opts.timeoutMs ?? 30_000));
-      this.socket!.once('connect', () => {
-        clearTimeout(timer);
-        resolve();
-      });
-      this.socket!.once('connect_error', (err: any) => {
-        clearTimeout(timer);
-        reject(err);
+    try {
+      await new Promise<void>((resolve, reject) => {
+        let failures = 0;
+        const done = (err?: Error) => {
+          clearTimeout(timer);
+          socket.off('connect', onConnect);
+          socket.off('connect_error', onError);
+          if (err) reject(err);
+          else resolve();
+        };
+        const onConnect = () => done();
+        const onError = (err: any) => {
+          // Auth/middleware rejections leave the socket inactive; those are not retried
+          failures++;
+          if (socket.active && failures <= attempts) {
+            debugLog(this.opts, `realtime connect failed (${err?.message ?? err}), retry ${failures}/${attempts}`);
+            return;
+          }
+          done(err instanceof Error ? err : new Error(String(err?.message ?? err)));
+        };
+        const timer = setTimeout(
+          () => done(connectionError('realtime connect timeout', 'ETIMEDOUT')),
+          Math.max(1, this.opts.timeoutMs ?? 30_000),
+        );
+        socket.on('connect', onConnect);
+        socket.on('connect_error', onError);
       });
+    } catch (err) {
+      // Stop the reconnection loop, or it keeps the process alive
+      socket.disconnect();
+      throw err;
+    }
+
+    this.socket = socket;
+    socket.on('disconnect', (reason: string) => this.onDisconnect(socket, reason));
+    socket.on('connect', () => void this.onReconnected(socket));
+    socket.io?.on?.('reconnect_failed', () => {
+      this.settleReady?.reject(connectionError(`realtime connection lost after ${attempts} reconnect attempt(s)`, 'ECONNRESET'));
+      this.settleReady = null;
+    });
+  }
+
+  private onDisconnect(socket: any, reason: string): void {
+    if (this.socket !== socket) return;
+    const lost = connectionError(`realtime connection lost (${reason})`, 'ECONNRESET');
+    for (const fail of this.inflight) fail(lost);
+    this.inflight.clear();
+    if (!socket.active || (this.opts.reconnectAttempts ?? 5) <= 0) {
+      // Closed by the server (Socket.IO does not reconnect these) or reconnection is off
+      this.ready = Promise.reject(lost);
+      this.ready.catch(() => undefined);
+      return;
+    }
+    debugLog(this.opts, `realtime disconnected (${reason}), reconnecting`);
+    this.settleReady?.reject(lost);
+    this.ready = new Promise<void>((resolve, reject) => {
+      this.settleReady = { resolve, reject };
     });
+    this.ready.catch(() => undefined);
+  }
+
+  private async onReconnected(socket: any): Promise<void> {
+    if (this.socket !== socket || !this.settleReady) return;
+    const settle = this.settleReady;
+    try {
+      for (const payload of this.joined.values()) {
+        const ack = await new Promise<any>((resolve) => socket.emit('space:join', payload, resolve));
+        ensureAckOk(ack, 'space:join');
+      }
+    } catch (err: any) {
+      if (this.settleReady === settle) this.settleReady = null;
+      settle.reject(err);
+      return;
+    }
+    if (this.settleReady === settle) this.settleReady = null;
+    debugLog(this.opts, `realtime reconnected, re-joined ${this.joined.size} space(s)`);
+    settle.resolve();
+    for (const handler of this.reconnectHandlers) {
+      try {
+        await handler();
+      } catch (err: any) {
+        debugLog(this.opts, `realtime reconnect handler failed: ${err?.message ?? err}`);
+      }
+    }
   }
 
   async emit<T = unknown>(event: string, payload?: Record<string, any>): Promise<T | void> {
     if (!this.socket) throw new Error('transport not connected');
-    return await new Promise<T | void>((resolve, reject) => {
+    await this.ready;
+    const s = this.socket;
+    if (!s) throw new Error('transport not connected');
+    const ack = await new Promise<T | void>((resolve, reject) => {
+      const fail = (err: Error) => reject(err);
+      this.inflight.add(fail);
       try {
         // Socket.IO ack: last arg is callback(err, data?)
-        this.socket.emit(event, payload ?? {}, (ack: any) => {
+        s.emit(event, payload ?? {}, (ack: any) => {
+          this.inflight.delete(fail);
           if (!ack || typeof ack !== 'object' || 'data' in ack) return resolve(ack?.data as T);
           resolve(ack as T);
         });
       } catch (e) {
+        this.inflight.delete(fail);
         reject(e);
       }
     });
+    if (event === 'space:join' && payload?.spaceId && !extractRealtimeError(ack)) this.joined.set(String(payload.spaceId), payload);
+    return ack;
   }
 
   /**
@@ -147,10 +319,27 @@ export class SocketIoTransport implements RealtimeTransport {
     this.socket.emit(event, payload ?? {});
   }
 
+  on(event: string, handler: (payload: any) => void): () => void {
+    if (!this.socket) throw new Error('transport not connected');
+    const s = this.socket;
+    s.on(event, handler);
+    return () => s.off(event, handler);
+  }
+
+  onReconnect(handler: () => void | Promise<void>): () => void {
+    this.reconnectHandlers.add(handler);
+    return () => this.reconnectHandlers.delete(handler);
+  }
+
   async close(): Promise<void> {
     if (!this.socket) return;
+    // Clear our presence right away instead of leaving editors to time it out
+    if (this.presence?.docIds.length && this.socket.connected) await this.presence.stop();
     const s = this.socket;
     this.socket = null;
+    this.joined.clear();
+    this.reconnectHandlers.clear();
+    if (this.stats.pushes || this.stats.loads) debugLog(this.opts, `realtime ${formatTransportStats(this.stats, this.encoding)}`);
     try {
       await new Promise<void>((res) => {
         s.once('disconnect', () => res());
@@ -165,17 +354,18 @@ export class SocketIoTransport implements RealtimeTransport {
 }
 
 async function ensureTransport(opts: RealtimeOptions): Promise<RealtimeTransport> {
+  if (opts.session) return await opts.session.open();
   if (opts.transport) return opts.transport;
   const t = new SocketIoTransport(opts);
   await t.connect();
   return t;
 }
 
-async function joinWorkspace(transport: RealtimeTransport, workspaceId: string, clientVersion = '1.0.0') {
-  await emitWithAckTimeout(transport, { workspaceId } as any, 'space:join', {
+async function joinWorkspace(transport: RealtimeTransport, opts: RealtimeOptions) {
+  await emitWithAckTimeout(transport, opts, 'space:join', {
     spaceType: 'workspace',
-    spaceId: workspaceId,
-    clientVersion,
+    spaceId: opts.workspaceId,
+    clientVersion: opts.clientVersion ?? '1.0.0',
   }, 'space:join');
 }
 
@@ -227,86 +417,439 @@ async function emitWithAckTimeout<T = unknown>(
   }
 }
 
-async function appendDocMetaToWorkspaceRoot(
+// Updates arrive as base64 strings or binary buffers depending on the server.
+function decodeUpdatePayload(raw: any): Uint8Array {
+  if (typeof raw === 'string') return new Uint8Array(Buffer.from(raw, 'base64'));
+  if (raw instanceof Uint8Array) return raw;
+  if (raw instanceof ArrayBuffer) return new Uint8Array(raw);
+  throw new Error('unsupported update payload');
+}
+
+const isUpdatePayload = (v: any) => typeof v === 'string' || v instanceof Uint8Array || v instanceof ArrayBuffer;
+
+// space:load-doc acks carry `missing` (diff vs our state vector) and `state`; counted in the transport's stats.
+function snapshotFromLoadDoc(transport: RealtimeTransport, res: any): Uint8Array | undefined {
+  const raw = isUpdatePayload(res?.missing) ? res.missing : isUpdatePayload(res?.state) ? res.state : undefined;
+  const buf = raw === undefined ? undefined : decodeUpdatePayload(raw);
+  if (transport.stats) {
+    transport.stats.loads++;
+    transport.stats.loadedBytes += buf?.length ?? 0;
+  }
+  return buf?.length ? buf : undefined;
+}
+
+function formatBytes(n: number): string {
+  return n < 1024 ? `${n} B` : n < 1024 * 1024 ? `${(n / 1024).toFixed(1)} KB` : `${(n / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/** One-line summary of a transport's payload counters, for --verbose output. */
+export function formatTransportStats(stats: TransportStats, encoding: PayloadEncoding = 'base64'): string {
+  const parts = [`${stats.loads} load(s) ${formatBytes(stats.loadedBytes)}`, `${stats.pushes} push(es) ${formatBytes(stats.sentBytes)} as ${encoding}`];
+  const base64Bytes = Math.ceil(stats.updateBytes / 3) * 4;
+  if (stats.pushes && stats.sentBytes < base64Bytes) {
+    parts.push(`saved ${Math.round((1 - stats.sentBytes / base64Bytes) * 100)}% vs base64 (${formatBytes(base64Bytes)})`);
+  }
+  if (stats.fallbacks) parts.push(`${stats.fallbacks} binary push(es) rejected, fell back to base64`);
+  return parts.join(', ');
+}
+
+// Load a doc over space:load-doc into a fresh Y.Doc (guid = docId).
+async function fetchDoc(transport: RealtimeTransport, opts: RealtimeOptions, docId: string, allowEmpty = false): Promise<any> {
+  const res = await emitWithAckTimeout<any>(
+    transport,
+    opts,
+    'space:load-doc',
+    {
+      spaceType: 'workspace',
+      spaceId: opts.workspaceId,
+      docId,
+    },
+    'space:load-doc',
+  );
+  ensureAckOk(res, 'space:load-doc');
+  const snapshot = snapshotFromLoadDoc(transport, res);
+  if (!snapshot && !allowEmpty) throw new Error(`doc ${docId} not found or empty`);
+  const Y = await getY();
+  const doc = new Y.Doc({ guid: docId });
+  if (snapshot) Y.applyUpdate(doc, snapshot);
+  return doc;
+}
+
+type PushAck = {
+  accepted: boolean;
+  timestamp?: number;
+  /** The connection was down; the update was written to the offline queue instead. */
+  queued?: boolean;
+};
+
+// Transports whose server has accepted a binary push; later rejections are real errors.
+const binaryConfirmed = new WeakSet<RealtimeTransport>();
+
+async function emitPushUpdate(
   transport: RealtimeTransport,
-  workspaceId: string,
+  opts: RealtimeOptions,
   docId: string,
-  title?: string,
-) {
-  const Y = await getY();
-  const rootDoc = new Y.Doc({ guid: workspaceId });
-  let snapshotB64: string | undefined;
+  update: Uint8Array,
+): Promise<PushAck> {
+  const send = async (binary: boolean) => {
+    const payload = binary ? Buffer.from(update) : Buffer.from(update).toString('base64');
+    const res = await emitWithAckTimeout<{ accepted?: boolean; timestamp?: number; error?: any }>(
+      transport,
+      opts,
+      'space:push-doc-update',
+      {
+        spaceType: 'workspace',
+        spaceId: opts.workspaceId,
+        docId,
+        update: payload,
+      },
+      'space:push-doc-update',
+    );
+    return { res, sentBytes: payload.length };
+  };
 
+  const binary = transport.encoding === 'binary';
+  let { res, sentBytes } = await send(binary);
+  if (binary && extractRealtimeError(res) && !binaryConfirmed.has(transport)) {
+    // Servers that only take base64 reject the first binary push; stay on base64 for this connection
+    transport.encoding = 'base64';
+    if (transport.stats) transport.stats.fallbacks++;
+    ({ res, sentBytes } = await send(false));
+  }
+  ensureAckOk(res, 'space:push-doc-update');
+  if (transport.encoding === 'binary') binaryConfirmed.add(transport);
+  if (transport.stats) {
+    transport.stats.pushes++;
+    transport.stats.updateBytes += update.length;
+    transport.stats.sentBytes += sentBytes;
+  }
+  return { accepted: (res as any)?.accepted !== false, timestamp: (res as any)?.timestamp };
+}
+
+// Pushes go through the session queue when one is in use. Updates that fail
+// for lack of a connection go to the offline queue when there is one. With
+// presence on, the doc's editors see us from the first push until close.
+async function pushUpdate(
+  transport: RealtimeTransport,
+  opts: RealtimeOptions,
+  docId: string,
+  update: Uint8Array,
+): Promise<PushAck> {
+  if (transport.presence && docId !== opts.workspaceId) {
+    await transport.presence.enter(docId).catch((err) => debugLog(opts, `realtime presence in ${docId} failed: ${err?.message ?? err}`));
+  }
+  const queue = opts.queue ?? opts.session?.offlineQueue;
   try {
-    const res = await transport.emit<any>('space:load-doc', {
-      spaceType: 'workspace',
-      spaceId: workspaceId,
-      docId: workspaceId,
-    });
-    if (!res || typeof res !== 'object' || 'error' in res) {
-      return;
+    if (opts.session) return await opts.session.push(docId, update);
+    return await emitPushUpdate(transport, opts, docId, update);
+  } catch (err) {
+    if (!queue || !isConnectionError(err)) throw err;
+    await queue.add(opts.workspaceId, docId, update);
+    debugLog(opts, `realtime push of ${docId} queued offline: ${(err as any)?.message ?? err}`);
+    return { accepted: false, queued: true };
+  }
+}
+
+export type QueueFlushResult = {
+  delivered: Array<{ docId: string; updates: number; bytes: number }>;
+  failed: Array<{ docId: string; error: string }>;
+  /** Entries still queued for the workspace (or doc) after the flush. */
+  remaining: number;
+};
+
+/**
+ * Push the queued updates of `opts.workspaceId`, merged into one update per
+ * doc, and drop them once acknowledged. A rejected push is reported and its
+ * entries kept; a connection error stops the flush and is thrown.
+ */
+async function drainQueue(
+  transport: RealtimeTransport,
+  opts: RealtimeOptions,
+  queue: OfflineQueue,
+  docId?: string,
+): Promise<QueueFlushResult> {
+  const entries = await queue.list({ workspaceId: opts.workspaceId, docId });
+  const result: QueueFlushResult = { delivered: [], failed: [], remaining: entries.length };
+  if (!entries.length) return result;
+  const Y = await getY();
+  const byDoc = new Map<string, typeof entries>();
+  for (const entry of entries) byDoc.set(entry.docId, [...(byDoc.get(entry.docId) ?? []), entry]);
+  for (const [id, docEntries] of byDoc) {
+    try {
+      const updates = await Promise.all(docEntries.map((entry) => queue.read(entry)));
+      const update = updates.length === 1 ? updates[0] : Y.mergeUpdates(updates);
+      await emitPushUpdate(transport, opts, id, update);
+      await queue.remove(docEntries);
+      result.delivered.push({ docId: id, updates: docEntries.length, bytes: update.length });
+      result.remaining -= docEntries.length;
+    } catch (err: any) {
+      if (isConnectionError(err)) throw err;
+      result.failed.push({ docId: id, error: String(err?.message ?? err) });
     }
-    snapshotB64 = res.missing || res.state;
-  } catch {
-    return;
   }
+  if (result.delivered.length) {
+    const count = result.delivered.reduce((n, d) => n + d.updates, 0);
+    debugLog(opts, `realtime queue: delivered ${count} update(s) for ${result.delivered.length} doc(s)`);
+  }
+  return result;
+}
+
+// Write paths deliver what the offline queue holds for the workspace right
+// after joining, before loading the doc they edit; read-only commands leave
+// the queue alone. Entries that still cannot be delivered stay queued.
+async function drainBeforeWrite(transport: RealtimeTransport, opts: RealtimeOptions): Promise<void> {
+  const queue = opts.queue ?? opts.session?.offlineQueue;
+  if (!queue) return;
+  try {
+    await drainQueue(transport, opts, queue);
+  } catch (err: any) {
+    debugLog(opts, `realtime queue not delivered: ${err?.message ?? err}`);
+  }
+}
 
-  if (!snapshotB64) return;
+export type FlushQueueOptions = RealtimeOptions & {
+  queue: OfflineQueue;
+  /** Only deliver this doc's updates. */
+  docId?: string;
+};
 
+/** Connect and deliver the queued updates of a workspace (`affine realtime queue flush`). */
+export async function flushOfflineQueue(opts: FlushQueueOptions): Promise<QueueFlushResult> {
+  // Flush on a connection of our own so the result covers exactly what this call delivered
+  const rest = { ...opts, session: undefined };
+  const transport = await ensureTransport(rest);
   try {
-    const buf = Buffer.from(snapshotB64, 'base64');
-    if (!buf.length) return;
-    Y.applyUpdate(rootDoc, new Uint8Array(buf));
-
-    const meta = rootDoc.getMap('meta');
-    let pages = meta.get('pages');
-    if (!pages || !(pages instanceof Y.Array)) {
-      pages = new Y.Array();
-      meta.set('pages', pages);
+    await joinWorkspace(transport, rest);
+    return await drainQueue(transport, rest, opts.queue, opts.docId);
+  } finally {
+    if (!opts.transport) await transport.close();
+  }
+}
+
+/**
+ * Record the updates a doc emits until stop(). Pushes send only these local
+ * edits (merged into one update) instead of `encodeStateAsUpdate` of the
+ * whole doc, which carries its entire history.
+ */
+function recordUpdates(Y: any, doc: any): { stop(): void; update(): Uint8Array | null } {
+  const updates: Uint8Array[] = [];
+  const onUpdate = (update: Uint8Array) => updates.push(update);
+  doc.on('update', onUpdate);
+  return {
+    stop: () => doc.off('update', onUpdate),
+    update: () => (updates.length === 0 ? null : updates.length === 1 ? updates[0] : Y.mergeUpdates(updates)),
+  };
+}
+
+/**
+ * One realtime connection shared by many doc operations: connects and joins
+ * the workspace once, caches each doc's Y.Doc after its first load, and sends
+ * pushes one at a time in call order. Pass it as `session` to createDoc,
+ * appendText, loadDoc, editDoc or deleteDocRealtime; close() drains the queue.
+ * With an offline queue, it is delivered by each write (see drainBeforeWrite)
+ * and after a reconnect once the session has written.
+ */
+export class RealtimeSession {
+  private transport: RealtimeTransport | null = null;
+  private opening: Promise<RealtimeTransport> | null = null;
+  private readonly docs = new Map<string, Promise<any>>();
+  private queue: Promise<unknown> = Promise.resolve();
+  private queued = 0;
+  private closed = false;
+  private wrote = false;
+  private stopReconnect: (() => void) | null = null;
+
+  constructor(private readonly opts: Omit<RealtimeOptions, 'session'>) {}
+
+  get workspaceId(): string {
+    return this.opts.workspaceId;
+  }
+
+  get offlineQueue(): OfflineQueue | undefined {
+    return this.opts.queue;
+  }
+
+  /** Number of pushes not yet acknowledged. */
+  get pending(): number {
+    return this.queued;
+  }
+
+  /** Connect and join the workspace once; later calls return the same transport. */
+  async open(): Promise<RealtimeTransport> {
+    if (this.closed) throw new Error('realtime session is closed');
+    if (!this.opening) {
+      const opening = (async () => {
+        const transport = this.opts.transport ?? new SocketIoTransport(this.opts);
+        await transport.connect();
+        await joinWorkspace(transport, this.opts);
+        const queue = this.opts.queue;
+        if (queue && transport.onReconnect) {
+          this.stopReconnect = transport.onReconnect(async () => {
+            if (this.wrote) await drainQueue(transport, this.opts, queue);
+          });
+        }
+        this.transport = transport;
+        return transport;
+      })();
+      // A failed connect/join may be retried by the next call.
+      opening.catch(() => {
+        if (this.opening === opening) this.opening = null;
+      });
+      this.opening = opening;
     }
+    return await this.opening;
+  }
 
-    const existingIds = pages
-      .toArray()
-      .map((entry: any) => (entry && typeof entry.get === 'function' ? entry.get('id') : undefined))
-      .filter(Boolean);
-    if (existingIds.includes(docId)) {
-      return;
+  /** Cached Y.Doc for `docId`, loaded over `space:load-doc` on first use. */
+  async getDoc(docId: string, { allowEmpty = false }: { allowEmpty?: boolean } = {}): Promise<any> {
+    let pending = this.docs.get(docId);
+    if (!pending) {
+      pending = this.open().then((transport) => fetchDoc(transport, this.opts, docId, allowEmpty));
+      this.docs.set(docId, pending);
+      pending.catch(() => this.docs.delete(docId));
     }
+    return await pending;
+  }
+
+  /** Seed the cache with a doc built locally (e.g. just created). */
+  remember(docId: string, doc: any): void {
+    this.docs.set(docId, Promise.resolve(doc));
+  }
+
+  forget(docId: string): void {
+    this.docs.delete(docId);
+  }
+
+  /** Queue an update push; resolves with the server ack once it has been sent. */
+  push(docId: string, update: Uint8Array): Promise<PushAck> {
+    this.queued++;
+    this.wrote = true;
+    const run = async (): Promise<PushAck> => {
+      try {
+        return await emitPushUpdate(await this.open(), this.opts, docId, update);
+      } finally {
+        this.queued--;
+      }
+    };
+    const p = this.queue.then(run, run);
+    this.queue = p.catch(() => undefined);
+    return p;
+  }
+
+  /** Wait until every queued push has been acknowledged (or failed). */
+  async flush(): Promise<void> {
+    await this.queue;
+  }
 
-    const yDocMeta: any = new Y.Map();
-    yDocMeta.set('id', docId);
-    yDocMeta.set('title', title ?? '');
-    yDocMeta.set('createDate', Date.now());
-    yDocMeta.set('tags', new Y.Array());
-    pages.push([yDocMeta]);
+  /** Drain queued pushes, drop cached docs and close the socket if the session opened it. */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    await this.flush();
+    this.closed = true;
+    this.docs.clear();
+    this.stopReconnect?.();
+    this.stopReconnect = null;
+    const transport = this.transport;
+    this.transport = null;
+    this.opening = null;
+    if (transport && !this.opts.transport) await transport.close();
+  }
+}
 
-    const update = Y.encodeStateAsUpdate(rootDoc);
-    await transport.emit('space:push-doc-update', {
+/**
+ * Root doc a new doc gets registered in, loaded before the new doc is pushed
+ * so that the registration can be queued alongside it if the connection drops
+ * in between. Null when the workspace has no readable root doc; a lost
+ * connection is thrown, before anything was written.
+ */
+async function loadRootForRegistration(transport: RealtimeTransport, opts: RealtimeOptions): Promise<any | null> {
+  const workspaceId = opts.workspaceId;
+  try {
+    // Reuse the session's copy so later root edits in the same session see this entry.
+    if (opts.session) return await opts.session.getDoc(workspaceId);
+    const res = await transport.emit<any>('space:load-doc', {
       spaceType: 'workspace',
       spaceId: workspaceId,
       docId: workspaceId,
-      update: Buffer.from(update).toString('base64'),
     });
-  } catch {
-    // ignore; doc creation already succeeded at this point
+    if (!res || typeof res !== 'object' || 'error' in res) return null;
+    const snapshot = snapshotFromLoadDoc(transport, res);
+    if (!snapshot) return null;
+    const Y = await getY();
+    const rootDoc = new Y.Doc({ guid: workspaceId });
+    Y.applyUpdate(rootDoc, snapshot);
+    return rootDoc;
+  } catch (err) {
+    if (isConnectionError(err)) throw err;
+    debugLog(opts, `realtime root doc of ${workspaceId} not loaded, page-list registration skipped: ${(err as any)?.message ?? err}`);
+    return null;
+  }
+}
+
+/**
+ * Add `docId` to the root `meta.pages` through pushUpdate, so a dropped
+ * connection queues the entry like the doc itself. Resolves to undefined when
+ * there is nothing to push; a rejected push is thrown.
+ */
+async function registerDocInWorkspaceRoot(
+  transport: RealtimeTransport,
+  opts: RealtimeOptions,
+  rootDoc: any,
+  docId: string,
+  title?: string,
+): Promise<PushAck | undefined> {
+  if (!rootDoc) return undefined;
+  const Y = await getY();
+  const meta = rootDoc.getMap('meta');
+  const existingIds = (meta.get('pages')?.toArray?.() ?? [])
+    .map((entry: any) => (entry && typeof entry.get === 'function' ? entry.get('id') : undefined))
+    .filter(Boolean);
+  if (existingIds.includes(docId)) return undefined;
+
+  const recording = recordUpdates(Y, rootDoc);
+  try {
+    Y.transact(rootDoc, () => {
+      let pages = meta.get('pages');
+      if (!pages || !(pages instanceof Y.Array)) {
+        pages = new Y.Array();
+        meta.set('pages', pages);
+      }
+      const yDocMeta: any = new Y.Map();
+      yDocMeta.set('id', docId);
+      yDocMeta.set('title', title ?? '');
+      yDocMeta.set('createDate', Date.now());
+      yDocMeta.set('tags', new Y.Array());
+      pages.push([yDocMeta]);
+    });
+  } finally {
+    recording.stop();
+  }
+
+  try {
+    return await pushUpdate(transport, opts, opts.workspaceId, recording.update()!);
+  } catch (err: any) {
+    throw new Error(`doc ${docId} was created but not added to the workspace page list: ${err?.message ?? err}`);
   }
 }
 
 export type CreateDocOptions = RealtimeOptions & {
   title: string;
   content?: string;
+  /** Additional blocks (e.g. parsed from Markdown) appended under the note after `content`. */
+  blocks?: BlockSpec[];
+  /** Register the doc in the root `meta.pages` (default true); false when the caller writes that entry itself. */
+  register?: boolean;
 };
 
-export async function createDoc(opts: CreateDocOptions): Promise<{ docId: string; timestamp?: number }>{
-  const workspaceId = opts.workspaceId;
+export async function createDoc(opts: CreateDocOptions): Promise<{ docId: string; timestamp?: number; queued?: boolean }>{
   const transport = await ensureTransport(opts);
-  const clientVersion = opts.clientVersion ?? '1.0.0';
-  let needClose = !opts.transport;
+  let needClose = !opts.transport && !opts.session;
   try {
-    await joinWorkspace(transport, workspaceId, clientVersion);
+    if (!opts.session) await joinWorkspace(transport, opts);
+    await drainBeforeWrite(transport, opts);
     const docId = randId(20);
     // Build a real BlockSuite page scaffold with optional title/content (deterministic ids)
-    const update = await (async () => {
+    const built = await (async () => {
       const Y = await getY();
       const spaceDoc = new Y.Doc();
       const yBlocks = spaceDoc.getMap('blocks');
@@ -343,73 +886,137 @@ export async function createDoc(opts: CreateDocOptions): Promise<{ docId: string
         yBlocks.set(paraId, yPara);
       }
 
-      return Y.encodeStateAsUpdate(spaceDoc);
+      if (opts.blocks?.length) await insertBlocks(spaceDoc, noteId, opts.blocks);
+
+      return { spaceDoc, update: Y.encodeStateAsUpdate(spaceDoc) };
     })();
-    const res = await emitWithAckTimeout<{ accepted?: boolean; timestamp?: number; error?: any }>(
-      transport,
-      opts,
-      'space:push-doc-update',
-      {
-      spaceType: 'workspace',
-      spaceId: workspaceId,
-      docId,
-      // Socket.IO supports binary; send Buffer to preserve bytes
-      update: Buffer.from(update).toString('base64'),
-      },
-      'space:push-doc-update',
-    );
-    ensureAckOk(res, 'space:push-doc-update');
-    await appendDocMetaToWorkspaceRoot(transport, workspaceId, docId, opts.title);
-    return { docId, timestamp: (res as any)?.timestamp };
+    const { spaceDoc, update } = built;
+    const rootDoc = opts.register === false ? null : await loadRootForRegistration(transport, opts);
+    const res = await pushUpdate(transport, opts, docId, update);
+    opts.session?.remember(docId, spaceDoc);
+    const registered = await registerDocInWorkspaceRoot(transport, opts, rootDoc, docId, opts.title);
+    return res.queued || registered?.queued ? { docId, queued: true } : { docId, timestamp: res.timestamp };
+  } finally {
+    if (needClose) await transport.close();
+  }
+}
+
+export type DuplicateDocOptions = RealtimeOptions & {
+  /** Source doc to copy. */
+  docId: string;
+  /** Already loaded source doc (e.g. from another workspace); skips loading `docId`. */
+  source?: any;
+  /** Title of the copy (default: the source title). */
+  title?: string;
+  /** Adjust the copy (e.g. fill template placeholders) before it is pushed. */
+  transform?: (doc: any) => void | Promise<void>;
+};
+
+/**
+ * Copy a doc under new block ids as a brand new doc: one full update via
+ * space:push-doc-update, then registration in the root `meta.pages`. With an
+ * offline queue and a dropped connection, both are queued and the result says
+ * `queued: true`.
+ */
+export async function duplicateDoc(opts: DuplicateDocOptions): Promise<{ docId: string; title: string; timestamp?: number; queued?: boolean }> {
+  const transport = await ensureTransport(opts);
+  let needClose = !opts.transport && !opts.session;
+  try {
+    if (!opts.session) await joinWorkspace(transport, opts);
+    await drainBeforeWrite(transport, opts);
+    const source = opts.source ?? (opts.session ? await opts.session.getDoc(opts.docId) : await fetchDoc(transport, opts, opts.docId));
+    const Y = await getY();
+    const docId = randId(20);
+    const spaceDoc = new Y.Doc({ guid: docId });
+    await copyBlocks(source, spaceDoc);
+    if (typeof opts.title === 'string') await setPageTitle(spaceDoc, opts.title);
+    await opts.transform?.(spaceDoc);
+    const title = plainText(readPageTree(spaceDoc)?.props?.title);
+
+    const rootDoc = await loadRootForRegistration(transport, opts);
+    const res = await pushUpdate(transport, opts, docId, Y.encodeStateAsUpdate(spaceDoc));
+    opts.session?.remember(docId, spaceDoc);
+    const registered = await registerDocInWorkspaceRoot(transport, opts, rootDoc, docId, title);
+    return res.queued || registered?.queued ? { docId, title, queued: true } : { docId, title, timestamp: res.timestamp };
   } finally {
     if (needClose) await transport.close();
   }
 }
 
+export type RenameDocResult = {
+  title: string;
+  previousTitle: string;
+  /** False when both the page title and the page-list entry already had `title`. */
+  changed: boolean;
+  timestamp?: number;
+};
+
+/**
+ * Rename a doc: the `affine:page` block's `prop:title` and its root
+ * `meta.pages[].title`. Both docs are loaded before anything is written, and
+ * the page title is reverted if the page-list update fails.
+ */
+export async function renameDoc(opts: RealtimeOptions & { docId: string; title: string }): Promise<RenameDocResult> {
+  const session = opts.session ?? new RealtimeSession(opts);
+  const sessionOpts = { ...opts, session };
+  try {
+    const doc = await session.getDoc(opts.docId);
+    await session.getDoc(opts.workspaceId, { allowEmpty: true });
+    const previousTitle = plainText(readPageTree(doc)?.props?.title);
+
+    const page = await editDoc({ ...sessionOpts, docId: opts.docId }, (d) => setPageTitle(d, opts.title));
+    try {
+      const meta = await editWorkspaceRoot(sessionOpts, (root) => upsertPageMeta(root, opts.docId, { title: opts.title }));
+      return { title: opts.title, previousTitle, changed: page.changed || meta.changed, timestamp: page.timestamp ?? meta.timestamp };
+    } catch (e) {
+      if (page.changed) await editDoc({ ...sessionOpts, docId: opts.docId }, (d) => setPageTitle(d, previousTitle)).catch(() => undefined);
+      throw e;
+    }
+  } finally {
+    if (!opts.session) await session.close();
+  }
+}
+
 export type AppendTextOptions = RealtimeOptions & {
   docId: string;
   text: string;
+  /** Formatted blocks (e.g. parsed from Markdown) to append instead of a plain `text` paragraph. */
+  blocks?: BlockSpec[];
 };
 
-export async function appendText(opts: AppendTextOptions): Promise<{ accepted: boolean; timestamp?: number }>{
+export async function appendText(opts: AppendTextOptions): Promise<{ accepted: boolean; timestamp?: number; queued?: boolean }>{
   const workspaceId = opts.workspaceId;
   const transport = await ensureTransport(opts);
-  const clientVersion = opts.clientVersion ?? '1.0.0';
-  let needClose = !opts.transport;
+  let needClose = !opts.transport && !opts.session;
   try {
-    await joinWorkspace(transport, workspaceId, clientVersion);
+    if (!opts.session) await joinWorkspace(transport, opts);
+    await drainBeforeWrite(transport, opts);
     const withTimeout = <T>(p: Promise<T>, ms = 3000) => new Promise<T>((resolve, reject) => {
       const t = setTimeout(() => reject(new Error('pull timeout')), ms);
       p.then(v => { clearTimeout(t); resolve(v); }, e => { clearTimeout(t); reject(e); });
     });
 
     const Y = await getY();
-    const doc = new Y.Doc();
-    let havePulled = false;
-    try {
-      const pulled = await withTimeout(
-        transport.emit<any>('space:load-doc', {
-          spaceType: 'workspace',
-          spaceId: workspaceId,
-          docId: opts.docId,
-        }) as Promise<any>,
-      );
-      const snapBase64 =
-        typeof (pulled as any)?.missing === 'string'
-          ? (pulled as any).missing
-          : typeof (pulled as any)?.state === 'string'
-            ? (pulled as any).state
-            : undefined;
-      if (snapBase64) {
-        const buf = Buffer.from(snapBase64, 'base64');
-        if (buf.length) {
-          Y.applyUpdate(doc, new Uint8Array(buf));
+    const doc = opts.session ? await opts.session.getDoc(opts.docId) : new Y.Doc();
+    let havePulled = Boolean(opts.session);
+    if (!havePulled) {
+      try {
+        const pulled = await withTimeout(
+          transport.emit<any>('space:load-doc', {
+            spaceType: 'workspace',
+            spaceId: workspaceId,
+            docId: opts.docId,
+          }) as Promise<any>,
+        );
+        const snapshot = snapshotFromLoadDoc(transport, pulled);
+        if (snapshot) {
+          Y.applyUpdate(doc, snapshot);
           havePulled = true;
         }
+      } catch {
+        // Fallback: rely on deterministic ids from create
+        havePulled = false;
       }
-    } catch {
-      // Fallback: rely on deterministic ids from create
-      havePulled = false;
     }
 
     const yBlocks = doc.getMap('blocks');
@@ -428,48 +1035,252 @@ export async function appendText(opts: AppendTextOptions): Promise<{ accepted: b
     if (!noteId) throw new Error('append failed: could not locate note block under page');
 
     const paraId = `p:${Date.now().toString(36)}${randId(6)}`;
-    Y.transact(doc, () => {
-      const yPara: any = new Y.Map();
-      yPara.set('sys:id', paraId);
-      yPara.set('sys:flavour', 'affine:paragraph');
-      yPara.set('sys:version', 1);
-      yPara.set('sys:children', Y.Array.from([]));
-      yPara.set('prop:type', 'text');
-      yPara.set('prop:collapsed', false);
-      yPara.set('prop:text', new Y.Text(String(opts.text ?? '')));
-      yBlocks.set(paraId, yPara);
-
-      // If we didn't pull, the note won't exist in our local doc; create a minimal stub so the child push is well-formed
-      if (!yBlocks.get(noteId)) {
-        const yNote: any = new Y.Map();
-        yNote.set('sys:id', noteId);
-        yNote.set('sys:flavour', 'affine:note');
-        yNote.set('sys:version', 1);
-        yNote.set('sys:children', Y.Array.from([]));
-        yBlocks.set(noteId, yNote);
-      }
-      const yNote: any = yBlocks.get(noteId);
-      const yChildren = yNote.get('sys:children');
-      yChildren.push([paraId]);
-    });
+    const recording = recordUpdates(Y, doc);
+    try {
+      Y.transact(doc, () => {
+        // If we didn't pull, the note won't exist in our local doc; create a minimal stub so the child push is well-formed
+        if (!yBlocks.get(noteId)) {
+          const yNote: any = new Y.Map();
+          yNote.set('sys:id', noteId);
+          yNote.set('sys:flavour', 'affine:note');
+          yNote.set('sys:version', 1);
+          yNote.set('sys:children', Y.Array.from([]));
+          yBlocks.set(noteId, yNote);
+        }
+        if (opts.blocks) return;
 
-    const update = Y.encodeStateAsUpdate(doc);
-    const res = await emitWithAckTimeout<{ accepted?: boolean; timestamp?: number; error?: any }>(
+        const yPara: any = new Y.Map();
+        yPara.set('sys:id', paraId);
+        yPara.set('sys:flavour', 'affine:paragraph');
+        yPara.set('sys:version', 1);
+        yPara.set('sys:children', Y.Array.from([]));
+        yPara.set('prop:type', 'text');
+        yPara.set('prop:collapsed', false);
+        yPara.set('prop:text', new Y.Text(String(opts.text ?? '')));
+        yBlocks.set(paraId, yPara);
+
+        const yNote: any = yBlocks.get(noteId);
+        const yChildren = yNote.get('sys:children');
+        yChildren.push([paraId]);
+      });
+      if (opts.blocks) await insertBlocks(doc, noteId, opts.blocks);
+    } finally {
+      recording.stop();
+    }
+
+    const update = recording.update();
+    if (!update) return { accepted: true };
+    return await pushUpdate(transport, opts, opts.docId, update);
+  } finally {
+    if (needClose) await transport.close();
+  }
+}
+
+export type LoadDocOptions = RealtimeOptions & {
+  docId: string;
+  /** Return an empty doc instead of failing when the server has no state (used for the workspace root). */
+  allowEmpty?: boolean;
+};
+
+/**
+ * Load a doc's current state over `space:load-doc` into a fresh Y.Doc (or the
+ * session's cached copy). Throws when the server reports an error or the doc
+ * has no content (unless `allowEmpty`).
+ */
+export async function loadDoc(opts: LoadDocOptions): Promise<any> {
+  const transport = await ensureTransport(opts);
+  let needClose = !opts.transport && !opts.session;
+  try {
+    if (opts.session) return await opts.session.getDoc(opts.docId, { allowEmpty: opts.allowEmpty });
+    await joinWorkspace(transport, opts);
+    return await fetchDoc(transport, opts, opts.docId, opts.allowEmpty);
+  } finally {
+    if (needClose) await transport.close();
+  }
+}
+
+export type EditDocOptions = RealtimeOptions & {
+  docId: string;
+  /** Start from an empty doc instead of failing when the server has no state (used for the workspace root). */
+  allowEmpty?: boolean;
+};
+
+export type EditDocResult<T> = {
+  result: T;
+  /** False when `mutate` left the doc unchanged and nothing was pushed. */
+  changed: boolean;
+  accepted: boolean;
+  timestamp?: number;
+  /** The push was written to the offline queue (see RealtimeOptions.queue). */
+  queued?: boolean;
+};
+
+/**
+ * Load a doc, let `mutate` edit it locally, then push just those edits (see
+ * recordUpdates) when there were any, insertions or deletions. All edits
+ * share one join/load/push round trip.
+ */
+export async function editDoc<T>(
+  opts: EditDocOptions,
+  mutate: (doc: any) => T | Promise<T>,
+): Promise<EditDocResult<T>> {
+  const transport = await ensureTransport(opts);
+  let needClose = !opts.transport && !opts.session;
+  try {
+    if (!opts.session) await joinWorkspace(transport, opts);
+    await drainBeforeWrite(transport, opts);
+    const doc = opts.session
+      ? await opts.session.getDoc(opts.docId, { allowEmpty: opts.allowEmpty })
+      : await fetchDoc(transport, opts, opts.docId, opts.allowEmpty);
+    const Y = await getY();
+    const recording = recordUpdates(Y, doc);
+    let result: T;
+    try {
+      result = await mutate(doc);
+    } finally {
+      recording.stop();
+    }
+
+    // Delete-only edits emit updates too, so those count as changes
+    const update = recording.update();
+    if (!update) return { result, changed: false, accepted: true };
+    const { accepted, timestamp, queued } = await pushUpdate(transport, opts, opts.docId, update);
+    return { result, changed: true, accepted, timestamp, ...(queued ? { queued } : {}) };
+  } finally {
+    if (needClose) await transport.close();
+  }
+}
+
+/** editDoc on the workspace root doc (meta.pages, tags, collections). */
+export async function editWorkspaceRoot<T>(
+  opts: RealtimeOptions,
+  mutate: (root: any) => T | Promise<T>,
+): Promise<EditDocResult<T>> {
+  return editDoc({ ...opts, docId: opts.workspaceId, allowEmpty: true }, mutate);
+}
+
+export type PushDocUpdateOptions = RealtimeOptions & {
+  docId: string;
+  /** A Yjs update holding the local state, e.g. a `.ydoc` file written by `doc pull`. */
+  update: Uint8Array;
+};
+
+export type PushDocUpdateResult = {
+  /** False when the server already had everything in `update`. */
+  sent: boolean;
+  /** Size of the pushed diff in bytes (0 when nothing was sent). */
+  bytes: number;
+  accepted: boolean;
+  timestamp?: number;
+};
+
+/**
+ * Push only what the server is missing from a local update: load the server's
+ * state, diff the local update against its state vector and send the result.
+ * Nothing is sent when applying the diff would not change the server doc.
+ */
+export async function pushDocUpdate(opts: PushDocUpdateOptions): Promise<PushDocUpdateResult> {
+  const workspaceId = opts.workspaceId;
+  const transport = await ensureTransport(opts);
+  let needClose = !opts.transport && !opts.session;
+  try {
+    if (!opts.session) await joinWorkspace(transport, opts);
+    await drainBeforeWrite(transport, opts);
+    const Y = await getY();
+    const res = await emitWithAckTimeout<any>(
       transport,
       opts,
-      'space:push-doc-update',
+      'space:load-doc',
       {
         spaceType: 'workspace',
         spaceId: workspaceId,
         docId: opts.docId,
-        update: Buffer.from(update).toString('base64'),
       },
-      'space:push-doc-update',
+      'space:load-doc',
     );
-    ensureAckOk(res, 'space:push-doc-update');
-    const accepted = (res as any)?.accepted !== false;
-    return { accepted, timestamp: (res as any)?.timestamp };
+    // A missing doc is fine here: pushing the whole update recreates it.
+    const serverUpdate = extractRealtimeError(res) ? undefined : snapshotFromLoadDoc(transport, res);
+    const server = new Y.Doc({ guid: opts.docId });
+    if (serverUpdate) Y.applyUpdate(server, serverUpdate);
+
+    const diff: Uint8Array = Y.diffUpdate(opts.update, Y.encodeStateVector(server));
+    const before = Y.snapshot(server);
+    Y.applyUpdate(server, diff);
+    if (Y.equalSnapshots(before, Y.snapshot(server))) return { sent: false, bytes: 0, accepted: true };
+
+    const { accepted, timestamp } = await pushUpdate(transport, opts, opts.docId, diff);
+    opts.session?.forget(opts.docId);
+    return { sent: true, bytes: diff.length, accepted, timestamp };
+  } finally {
+    if (needClose) await transport.close();
+  }
+}
+
+export type DocUpdateInfo = {
+  docId: string;
+  timestamp?: number;
+  /** User id of the author when the server reports it. */
+  editor?: string;
+};
+
+export type WatchDocOptions = RealtimeOptions & {
+  docId: string;
+  /** Called once with the loaded doc, before any remote update is applied. */
+  onReady?: (doc: any) => void;
+  /** Called after each broadcast update has been applied to the local doc. */
+  onUpdate: (doc: any, info: DocUpdateInfo) => void;
+  /** Called for broadcasts that could not be applied; they are skipped otherwise. */
+  onError?: (err: Error) => void;
+  /** Stop watching when aborted; without a signal the watch runs until the process exits. */
+  signal?: AbortSignal;
+};
+
+/**
+ * Load a doc and keep it in sync with `space:broadcast-doc-update(s)` events
+ * pushed by the server. Subscribes before loading so nothing between the load
+ * and the subscription is missed (re-applying a known update is a no-op).
+ */
+export async function watchDoc(opts: WatchDocOptions): Promise<void> {
+  const workspaceId = opts.workspaceId;
+  const transport = await ensureTransport(opts);
+  let needClose = !opts.transport && !opts.session;
+  const offs: (() => void)[] = [];
+  try {
+    if (typeof transport.on !== 'function') throw new Error('realtime transport does not support subscriptions');
+    const Y = await getY();
+    let doc: any = null;
+    const pending: any[] = [];
+    const apply = (payload: any) => {
+      if (!payload || payload.docId !== opts.docId) return;
+      if (payload.spaceId && payload.spaceId !== workspaceId) return;
+      if (!doc) {
+        pending.push(payload);
+        return;
+      }
+      try {
+        const updates: any[] = Array.isArray(payload.updates) ? payload.updates : [payload.update];
+        for (const u of updates) Y.applyUpdate(doc, decodeUpdatePayload(u), 'remote');
+      } catch (e: any) {
+        opts.onError?.(e instanceof Error ? e : new Error(String(e)));
+        return;
+      }
+      opts.onUpdate(doc, { docId: opts.docId, timestamp: payload.timestamp, editor: payload.editor });
+    };
+    offs.push(transport.on('space:broadcast-doc-update', apply));
+    offs.push(transport.on('space:broadcast-doc-updates', apply));
+
+    if (!opts.session) await joinWorkspace(transport, opts);
+    doc = opts.session ? await opts.session.getDoc(opts.docId) : await fetchDoc(transport, opts, opts.docId);
+    opts.onReady?.(doc);
+    for (const payload of pending.splice(0)) apply(payload);
+
+    await new Promise<void>((resolve) => {
+      if (!opts.signal) return;
+      if (opts.signal.aborted) return resolve();
+      opts.signal.addEventListener('abort', () => resolve(), { once: true });
+    });
   } finally {
+    for (const off of offs) off();
     if (needClose) await transport.close();
   }
 }
@@ -483,10 +1294,10 @@ export async function deleteDocRealtime(
 ): Promise<{ ok: boolean }>{
   const workspaceId = opts.workspaceId;
   const transport = await ensureTransport(opts);
-  const clientVersion = opts.clientVersion ?? '1.0.0';
-  let needClose = !opts.transport;
+  let needClose = !opts.transport && !opts.session;
   try {
-    await joinWorkspace(transport, workspaceId, clientVersion);
+    if (!opts.session) await joinWorkspace(transport, opts);
+    opts.session?.forget(opts.docId);
     const payload = {
       spaceType: 'workspace',
       spaceId: workspaceId,
@@ -511,4 +1322,4 @@ export async function deleteDocRealtime(
   }
 }
 
-export default { createDoc, appendText, deleteDocRealtime, SocketIoTransport };
+export default { createDoc, duplicateDoc, renameDoc, appendText, loadDoc, editDoc, editWorkspaceRoot, pushDocUpdate, watchDoc, deleteDocRealtime, flushOfflineQueue, formatTransportStats, isConnectionError, SocketIoTransport, RealtimeSession };
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+vi.mock('../src/blobs', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/blobs')>()),
+  get: vi.fn(),
+  upload: vi.fn(),
+}));
+
+import { importWorkspace, listMarkdownFiles } from '../src/backup';
+import { readPageTree, plainText } from '../src/blocks';
+import { listCollections, listPageMetas, listTags } from '../src/meta';
+import { upload } from '../src/blobs';
+import { FakeTransport } from './utils/fakeTransport';
+
+const uploadMock = upload as any;
+
+async function makeTree(files: Record<string, string>): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'affine-cli-import-'));
+  for (const [rel, content] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(dir, rel)), { recursive: true });
+    await fs.writeFile(path.join(dir, rel), content);
+  }
+  return dir;
+}
+
+describe('workspace import', () => {
+  beforeEach(async () => {
+    process.env.AFFINE_CLI_BLOBS_PATH = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'affine-cli-blobs-')), 'blobs.json');
+    uploadMock.mockReset();
+    uploadMock.mockImplementation(async (_ws: string, name: string) => ({ ok: true, status: 200, key: `key-${name}` }));
+  });
+
+  it('walks Markdown files, skipping dot entries', async () => {
+    const dir = await makeTree({ 'b.md': '', 'a/c.markdown': '', '.git/x.md': '', 'notes.txt': '' });
+    expect(await listMarkdownFiles(dir)).toEqual(['a/c.markdown', 'b.md']);
+  });
+
+  it('creates docs with uploaded images and folder tags, then updates them on re-run', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-import-1';
+    const dir = await makeTree({
+      'alpha.md': '# Alpha\n\nIntro\n\n![diagram](img/pic.png)\n\n![remote](https://example.com/x.png)\n',
+      'notes/beta.md': 'Beta body\n',
+      'img/pic.png': 'png-bytes',
+    });
+
+    const events: string[] = [];
+    const first = await importWorkspace({ workspaceId, dir, folders: 'tags', transport, onProgress: (e) => events.push(e.type) });
+    expect(first).toMatchObject({ total: 2, created: 2, updated: 0, blobs: 1, failed: [] });
+    expect(events).toEqual(['created', 'created']);
+    // One root write per new doc: page-list entry and folder tag together
+    expect(transport.eventsNamed('space:push-doc-update').filter((e) => e.payload.docId === workspaceId)).toHaveLength(2);
+    expect(uploadMock).toHaveBeenCalledTimes(1);
+    expect(uploadMock.mock.calls[0][2]).toBe(path.join(dir, 'img/pic.png'));
+
+    const mapping = JSON.parse(await fs.readFile(path.join(dir, '.affine-import.json'), 'utf8'));
+    const alphaId = mapping.docs['alpha.md'].docId;
+    const betaId = mapping.docs['notes/beta.md'].docId;
+
+    const alpha = readPageTree(transport.getDoc(alphaId))!;
+    expect(plainText(alpha.props.title)).toBe('Alpha');
+    const content = alpha.children[0].children;
+    expect(content.map((b) => b.flavour)).toEqual(['affine:paragraph', 'affine:image', 'affine:paragraph']);
+    expect(content[1].props).toMatchObject({ sourceId: 'key-pic.png', caption: 'diagram' });
+    expect(content[2].text).toEqual([{ insert: 'remote', attributes: { link: 'https://example.com/x.png' } }]);
+
+    const root = transport.getDoc(workspaceId);
+    const tags = listTags(root);
+    expect(tags.map((t) => t.value)).toEqual(['notes']);
+    const metas = listPageMetas(root);
+    expect(metas.find((m) => m.id === betaId)).toMatchObject({ title: 'beta', tags: [tags[0].id] });
+
+    const alphaIds = content.map((b) => b.id);
+    await fs.writeFile(path.join(dir, 'alpha.md'), '# Alpha v2\n\nIntro\n\nRewritten\n');
+    const second = await importWorkspace({ workspaceId, dir, folders: 'tags', transport });
+    expect(second).toMatchObject({ created: 0, updated: 2, blobs: 0 });
+
+    const updated = readPageTree(transport.getDoc(alphaId))!;
+    expect(plainText(updated.props.title)).toBe('Alpha v2');
+    expect(updated.children[0].children.map((b) => plainText(b.text))).toEqual(['Intro', 'Rewritten']);
+    // The unchanged paragraph keeps its block id
+    expect(updated.children[0].children[0].id).toBe(alphaIds[0]);
+    const rootAfter = transport.getDoc(workspaceId);
+    expect(listPageMetas(rootAfter)).toHaveLength(2);
+    expect(listPageMetas(rootAfter).find((m) => m.id === alphaId)?.title).toBe('Alpha v2');
+    expect(listTags(rootAfter)).toHaveLength(1);
+  });
+
+  it('mirrors folders as collections and reports missing images per file', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-import-2';
+    const dir = await makeTree({
+      'team/one.md': 'One\n',
+      'team/two.md': 'Two\n\n![gone](../missing/pic.png)\n',
+      'team/three.md': 'Three\n',
+      'team/four.md': '![](diagram.png)\n\n![kept](q6dCWNXh3N4k5ZqBm0cL2Vw7yT1sJfHrA9uEoPiKx8s=)\n',
+      'team/five.md': '![kept](q6dCWNXh3N4k5ZqBm0cL2Vw7yT1sJfHrA9uEoPiKx8s=)\n',
+    });
+
+    const res = await importWorkspace({ workspaceId, dir, folders: 'collections', transport, mappingPath: path.join(dir, 'map.json') });
+    expect(res).toMatchObject({
+      created: 3,
+      failed: [
+        { path: 'team/four.md', error: 'image not found: diagram.png' },
+        { path: 'team/two.md', error: 'image not found: ../missing/pic.png' },
+      ],
+    });
+
+    const mapping = JSON.parse(await fs.readFile(path.join(dir, 'map.json'), 'utf8'));
+    const collections = listCollections(transport.getDoc(workspaceId));
+    expect(collections).toHaveLength(1);
+    expect(collections[0]).toMatchObject({
+      name: 'team',
+      allowList: [mapping.docs['team/five.md'].docId, mapping.docs['team/one.md'].docId, mapping.docs['team/three.md'].docId],
+    });
+    // A missing target that looks like a blob key is kept as that key
+    const five = readPageTree(transport.getDoc(mapping.docs['team/five.md'].docId))!;
+    expect(five.children[0].children[0].props).toMatchObject({ sourceId: 'q6dCWNXh3N4k5ZqBm0cL2Vw7yT1sJfHrA9uEoPiKx8s=' });
+  });
+
+  it('keeps the mapping when the root meta step fails so a re-run does not create the doc again', async () => {
+    const workspaceId = 'ws-import-3';
+    // Rejects the root meta edit (doc registration and folder tag) until disarmed
+    let failRoot = true;
+    const transport = new (class extends FakeTransport {
+      async emit<T = unknown>(event: string, payload?: Record<string, any>): Promise<T | void> {
+        if (event === 'space:push-doc-update' && payload?.docId === workspaceId && failRoot) {
+          return { error: { message: 'root doc is busy' } } as any as T;
+        }
+        return await super.emit<T>(event, payload);
+      }
+    })();
+    const dir = await makeTree({ 'team/one.md': 'One\n' });
+
+    const first = await importWorkspace({ workspaceId, dir, folders: 'tags', transport });
+    expect(first).toMatchObject({ created: 0, failed: [{ path: 'team/one.md', error: expect.stringContaining('root doc is busy') }] });
+    const mapping = JSON.parse(await fs.readFile(path.join(dir, '.affine-import.json'), 'utf8'));
+    const docId = mapping.docs['team/one.md'].docId;
+
+    failRoot = false;
+    const second = await importWorkspace({ workspaceId, dir, folders: 'tags', transport });
+    expect(second).toMatchObject({ created: 0, updated: 1, failed: [] });
+    const metas = listPageMetas(transport.getDoc(workspaceId));
+    expect(metas.map((m) => m.id)).toEqual([docId]);
+    expect(metas[0].tags).toEqual([listTags(transport.getDoc(workspaceId))[0].id]);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+vi.mock('../src/graphql', () => ({
+  listDocs: vi.fn(),
+}));
+
+vi.mock('../src/blobs', () => ({
+  get: vi.fn(),
+}));
+
+import { exportWorkspace } from '../src/backup';
+import { createDoc } from '../src/yjs';
+import { listDocs } from '../src/graphql';
+import { get as getBlob } from '../src/blobs';
+import { FakeTransport } from './utils/fakeTransport';
+
+const listDocsMock = listDocs as any;
+const getBlobMock = getBlob as any;
+
+describe('workspace export', () => {
+  beforeEach(() => {
+    listDocsMock.mockReset();
+    getBlobMock.mockReset();
+    getBlobMock.mockImplementation(async (_ws: string, _key: string, opts: any) => {
+      await fs.writeFile(opts.outPath, 'blob-bytes');
+      return { ok: true, status: 200, size: 10, outPath: opts.outPath };
+    });
+  });
+
+  it('paginates listDocs, writes Markdown + blobs + manifest, and skips unchanged docs on re-run', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-backup-1';
+    const a = await createDoc({ workspaceId, title: 'Alpha', content: 'first', transport } as any);
+    const b = await createDoc({
+      workspaceId,
+      title: 'Beta',
+      blocks: [{ flavour: 'affine:image', props: { sourceId: 'img-key', caption: 'pic' } }],
+      transport,
+    } as any);
+
+    const pages = (updatedB: string) => [
+      {
+        edges: [{ cursor: 'c1', node: { id: a.docId, title: 'Alpha', createdAt: 't0', updatedAt: 't1' } }],
+        pageInfo: { hasNextPage: true, endCursor: 'c1' },
+      },
+      {
+        edges: [{ cursor: 'c2', node: { id: b.docId, title: 'Beta', createdAt: 't0', updatedAt: updatedB } }],
+        pageInfo: { hasNextPage: false, endCursor: 'c2' },
+      },
+    ];
+    const [p1, p2] = pages('t2');
+    listDocsMock.mockResolvedValueOnce(p1).mockResolvedValueOnce(p2);
+
+    const outDir = await fs.mkdtemp(path.join(os.tmpdir(), 'affine-cli-backup-'));
+    const joins = transport.eventsNamed('space:join').length;
+    const first = await exportWorkspace({ workspaceId, outDir, transport, pageSize: 1 });
+    // Both docs are fetched after a single join
+    expect(transport.eventsNamed('space:join')).toHaveLength(joins + 1);
+
+    expect(listDocsMock).toHaveBeenCalledTimes(2);
+    expect(listDocsMock.mock.calls[1][2]).toBe('c1');
+    expect(first).toMatchObject({ total: 2, exported: 2, skipped: 0, blobs: 1, failed: [] });
+
+    const manifest = JSON.parse(await fs.readFile(path.join(outDir, 'manifest.json'), 'utf8'));
+    expect(manifest.docs[b.docId]).toMatchObject({ title: 'Beta', updatedAt: 't2', path: `docs/${b.docId}.md`, blobs: ['img-key'] });
+    expect(manifest.blobs).toEqual({ 'img-key': 'blobs/img-key' });
+    const md = await fs.readFile(path.join(outDir, manifest.docs[b.docId].path), 'utf8');
+    expect(md).toBe('# Beta\n\n![pic](../blobs/img-key)\n');
+    expect(await fs.readFile(path.join(outDir, 'blobs/img-key'), 'utf8')).toBe('blob-bytes');
+
+    // Second run: Alpha unchanged, Beta updated; blob already present
+    const [q1, q2] = pages('t3');
+    listDocsMock.mockResolvedValueOnce(q1).mockResolvedValueOnce(q2);
+    const second = await exportWorkspace({ workspaceId, outDir, transport, pageSize: 1 });
+    expect(second).toMatchObject({ exported: 1, skipped: 1, blobs: 0 });
+    expect(getBlobMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('records per-doc failures and keeps going', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-backup-2';
+    const ok = await createDoc({ workspaceId, title: 'Ok', transport } as any);
+    listDocsMock.mockResolvedValueOnce({
+      edges: [
+        { cursor: 'c1', node: { id: 'missing-doc', title: 'Gone', updatedAt: 't1' } },
+        { cursor: 'c2', node: { id: ok.docId, title: 'Ok', updatedAt: 't1' } },
+      ],
+      pageInfo: { hasNextPage: false, endCursor: 'c2' },
+    });
+
+    const outDir = await fs.mkdtemp(path.join(os.tmpdir(), 'affine-cli-backup-'));
+    const res = await exportWorkspace({ workspaceId, outDir, transport, format: 'ydoc' });
+    expect(res.exported).toBe(1);
+    expect(res.failed.map((f) => f.id)).toEqual(['missing-doc']);
+    const stat = await fs.stat(path.join(outDir, 'docs', `${ok.docId}.ydoc`));
+    expect(stat.size).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+
+import { parseBatchLine, runBatch } from '../src/batch';
+import { appendText, createDoc, loadDoc, RealtimeSession } from '../src/yjs';
+import { plainText, readPageTree } from '../src/blocks';
+import { FakeTransport } from './utils/fakeTransport';
+
+describe('realtime session', () => {
+  it('joins once, reuses cached docs and pushes in order', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-session-1';
+    const session = new RealtimeSession({ workspaceId, transport });
+
+    const { docId } = await createDoc({ workspaceId, title: 'Log', session });
+    for (let i = 0; i < 3; i++) await appendText({ workspaceId, docId, text: `entry ${i}`, session });
+    const doc = await loadDoc({ workspaceId, docId, session });
+    await session.close();
+
+    expect(transport.eventsNamed('space:join')).toHaveLength(1);
+    // Only the workspace root is loaded; the new doc stays cached after createDoc
+    expect(transport.eventsNamed('space:load-doc').map((e) => e.payload.docId)).toEqual([workspaceId]);
+    expect(session.pending).toBe(0);
+
+    const page = readPageTree(transport.getDoc(docId))!;
+    expect(page.children[0].children.map((b) => plainText(b.text))).toEqual(['entry 0', 'entry 1', 'entry 2']);
+    expect(readPageTree(doc)!.children[0].children).toHaveLength(3);
+    await expect(session.open()).rejects.toThrow('realtime session is closed');
+  });
+});
+
+describe('doc batch', () => {
+  it('validates lines', () => {
+    expect(parseBatchLine('   ')).toBeNull();
+    expect(parseBatchLine('# comment')).toBeNull();
+    expect(() => parseBatchLine('{nope')).toThrow('invalid JSON');
+    expect(() => parseBatchLine('{"op":"rename"}')).toThrow('unknown op "rename"');
+    expect(() => parseBatchLine('{"op":"append","docId":"d"}')).toThrow('append requires text or markdown');
+    expect(parseBatchLine('{"op":"delete","docId":"d"}')).toEqual({ op: 'delete', docId: 'd' });
+  });
+
+  it('runs NDJSON operations over one session with $N references', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-batch-1';
+    const session = new RealtimeSession({ workspaceId, transport });
+    const lines = [
+      '{"op":"create","title":"Notes","content":"first"}',
+      '{"op":"append","docId":"$1","text":"second"}',
+      '{"op":"append","docId":"$1","markdown":"- **third**"}',
+      '{"op":"append","docId":"$9","text":"dangling"}',
+      '{"op":"export","docId":"$1"}',
+    ];
+    const summary = await runBatch(lines, { workspaceId, session });
+    await session.close();
+
+    expect(summary).toMatchObject({ total: 5, ok: 4, failed: 1 });
+    expect(summary.results[3]).toMatchObject({ line: 4, op: 'append', ok: false, error: '$9 does not refer to a doc created earlier in this batch' });
+    expect(summary.results[4].markdown).toBe('# Notes\n\nfirst\n\nsecond\n\n- **third**\n');
+    expect(transport.eventsNamed('space:join')).toHaveLength(1);
+  });
+
+  it('keeps the leading heading in the body when create has an explicit title', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-batch-3';
+    const session = new RealtimeSession({ workspaceId, transport });
+    const lines = [
+      '{"op":"create","title":"Weekly","markdown":"# Agenda\\n\\nItems"}',
+      '{"op":"create","markdown":"# Agenda\\n\\nItems"}',
+    ];
+    const summary = await runBatch(lines, { workspaceId, session });
+    await session.close();
+
+    const [titled, untitled] = summary.results.map((r) => readPageTree(transport.getDoc(r.docId!))!);
+    expect(plainText(titled.props.title)).toBe('Weekly');
+    expect(titled.children[0].children.map((b) => [b.props.type, plainText(b.text)])).toEqual([['h1', 'Agenda'], ['text', 'Items']]);
+    expect(plainText(untitled.props.title)).toBe('Agenda');
+    expect(untitled.children[0].children.map((b) => plainText(b.text))).toEqual(['Items']);
+  });
+
+  it('stops at the first failure when asked', async () => {
+    const transport = new FakeTransport();
+    const session = new RealtimeSession({ workspaceId: 'ws-batch-2', transport });
+    const summary = await runBatch(['{"op":"bogus"}', '{"op":"create","title":"never"}'], { workspaceId: 'ws-batch-2', session }, { stopOnError: true });
+    await session.close();
+    expect(summary).toMatchObject({ total: 1, failed: 1 });
+    expect(transport.eventsNamed('space:push-doc-update')).toHaveLength(0);
+  });
+});
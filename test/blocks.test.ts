@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+
+import { createDoc, editDoc } from '../src/yjs';
+import {
+  blockSpecFromType,
+  findNoteBlockId,
+  insertBlocks,
+  listTodos,
+  moveBlock,
+  plainText,
+  readPageTree,
+  removeBlocks,
+  resolvePosition,
+  setTodoChecked,
+  updateBlock,
+} from '../src/blocks';
+import { parseMarkdown } from '../src/markdown';
+import { FakeTransport } from './utils/fakeTransport';
+
+const texts = (doc: any) => readPageTree(doc)!.children[0].children.map((b) => plainText(b.text));
+
+describe('block editing', () => {
+  it('builds specs for block type shortcuts', () => {
+    expect(blockSpecFromType('h2', [{ insert: 'T' }])).toEqual({
+      flavour: 'affine:paragraph',
+      props: { type: 'h2', collapsed: false },
+      text: [{ insert: 'T' }],
+    });
+    expect(blockSpecFromType('todo', [], { checked: true }).props).toMatchObject({ type: 'todo', checked: true });
+    expect(blockSpecFromType('code', [], { language: 'ts' }).props).toMatchObject({ language: 'ts' });
+    expect(blockSpecFromType('divider')).toEqual({ flavour: 'affine:divider' });
+    expect(() => blockSpecFromType('table')).toThrow('unknown block type table');
+  });
+
+  it('inserts, updates, moves and removes blocks through editDoc', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-blocks-1';
+    const { docId } = await createDoc({ workspaceId, title: 'Edit me', content: 'one', transport });
+    const opts = { workspaceId, docId, transport };
+
+    const { result: ids } = await editDoc(opts, async (doc) => {
+      const first = readPageTree(doc)!.children[0].children[0].id;
+      const { parentId, index } = resolvePosition(doc, { before: first });
+      expect(index).toBe(0);
+      return insertBlocks(doc, parentId, [blockSpecFromType('h1', [{ insert: 'zero' }]), blockSpecFromType('bulleted', [{ insert: 'two' }])], index);
+    });
+    expect(texts(transport.getDoc(docId))).toEqual(['zero', 'two', 'one']);
+
+    const [zeroId, twoId] = ids;
+    await editDoc(opts, async (doc) => {
+      await updateBlock(doc, twoId, { text: [{ insert: 'TWO', attributes: { bold: true } }], props: { type: 'numbered' } });
+      await moveBlock(doc, zeroId, { parentId: findNoteBlockId(doc)!, index: 99 });
+    });
+    const tree = readPageTree(transport.getDoc(docId))!.children[0].children;
+    expect(tree.map((b) => plainText(b.text))).toEqual(['TWO', 'one', 'zero']);
+    expect(tree[0]).toMatchObject({ props: { type: 'numbered' }, text: [{ insert: 'TWO', attributes: { bold: true } }] });
+
+    // Nest "one" under "TWO", then refuse to move "TWO" into its own child
+    await editDoc(opts, async (doc) => {
+      const oneId = readPageTree(doc)!.children[0].children[1].id;
+      await moveBlock(doc, oneId, { parentId: twoId });
+      await expect(moveBlock(doc, twoId, { after: oneId })).rejects.toThrow('cannot move a block into itself');
+      await removeBlocks(doc, [zeroId]);
+    });
+    const nested = readPageTree(transport.getDoc(docId))!.children[0].children;
+    expect(nested).toHaveLength(1);
+    expect(nested[0].children.map((b) => plainText(b.text))).toEqual(['one']);
+
+    const { changed } = await editDoc(opts, (doc) => updateBlock(doc, twoId, { props: {} }));
+    expect(changed).toBe(false);
+  });
+
+  it('rejects unknown blocks', async () => {
+    const transport = new FakeTransport();
+    const { docId } = await createDoc({ workspaceId: 'ws-blocks-2', title: 'x', transport });
+    const doc = transport.getDoc(docId);
+    expect(() => resolvePosition(doc, { after: 'nope' })).toThrow('block nope not found');
+    await expect(updateBlock(doc, 'nope', { text: [] })).rejects.toThrow('block nope not found');
+  });
+
+  it('lists todo items in document order and flips their checked state', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-todo-1';
+    const blocks = parseMarkdown('- [ ] build\n  - [x] lint\n- not a todo\n- [ ] release');
+    const { docId } = await createDoc({ workspaceId, title: 'Release', blocks, transport });
+
+    const todos = listTodos(transport.getDoc(docId));
+    expect(todos.map(({ text, checked, depth }) => ({ text, checked, depth }))).toEqual([
+      { text: 'build', checked: false, depth: 0 },
+      { text: 'lint', checked: true, depth: 1 },
+      { text: 'release', checked: false, depth: 0 },
+    ]);
+
+    const { result } = await editDoc({ workspaceId, docId, transport }, async (doc) => [
+      await setTodoChecked(doc, todos[0].blockId, true),
+      await setTodoChecked(doc, todos[1].blockId, true),
+    ]);
+    expect(result).toEqual([true, false]);
+    expect(listTodos(transport.getDoc(docId)).map((t) => t.checked)).toEqual([true, true, false]);
+
+    const doc = transport.getDoc(docId);
+    const bulletId = readPageTree(doc)!.children[0].children[1].id;
+    await expect(setTodoChecked(doc, bulletId, true)).rejects.toThrow('is not a todo item');
+  });
+});
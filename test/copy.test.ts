@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../src/blobs', () => ({
+  get: vi.fn(),
+  upload: vi.fn(),
+}));
+
+import { copyDocToWorkspace } from '../src/copy';
+import { createDoc, editWorkspaceRoot } from '../src/yjs';
+import { readPageTree } from '../src/blocks';
+import { listPageMetas, upsertPageMeta } from '../src/meta';
+import { parseMarkdown, renderMarkdown } from '../src/markdown';
+import { get, upload } from '../src/blobs';
+import { FakeTransport } from './utils/fakeTransport';
+
+const getMock = get as any;
+const uploadMock = upload as any;
+
+async function seedWorkspace(transport: FakeTransport, workspaceId: string, docId = 'placeholder') {
+  await editWorkspaceRoot({ workspaceId, transport }, (root) => upsertPageMeta(root, docId, { title: 'existing' }));
+}
+
+describe('doc copy across workspaces', () => {
+  beforeEach(() => {
+    getMock.mockReset();
+    uploadMock.mockReset();
+    getMock.mockImplementation(async (_ws: string, key: string) => ({ ok: true, status: 200, buffer: Buffer.from(`bytes-${key}`) }));
+    uploadMock.mockImplementation(async (_ws: string, key: string) => ({ ok: true, status: 200, key: `dst-${key}` }));
+  });
+
+  it('re-uploads blobs, rewrites sourceIds and moves the doc after verification', async () => {
+    const transport = new FakeTransport();
+    const { docId } = await createDoc({
+      workspaceId: 'ws-src',
+      title: 'Design',
+      blocks: parseMarkdown('Overview\n\n![arch](blob://k1)\n\n![arch again](blob://k1)\n\n![flow](blob://k2)'),
+      transport,
+    });
+    await seedWorkspace(transport, 'ws-src', docId);
+    await seedWorkspace(transport, 'ws-dst');
+
+    const res = await copyDocToWorkspace({ workspaceId: 'ws-src', docId, targetWorkspaceId: 'ws-dst', move: true, transport });
+    expect(res).toMatchObject({ title: 'Design', targetWorkspaceId: 'ws-dst', blobs: 2, moved: true });
+    expect(uploadMock.mock.calls.map((c: any[]) => [c[0], c[1], String(c[2])])).toEqual([
+      ['ws-dst', 'k1', 'bytes-k1'],
+      ['ws-dst', 'k2', 'bytes-k2'],
+    ]);
+
+    const copy = readPageTree(transport.getDoc(res.docId))!;
+    expect(renderMarkdown(copy)).toBe('# Design\n\nOverview\n\n![arch](blob://dst-k1)\n\n![arch again](blob://dst-k1)\n\n![flow](blob://dst-k2)\n');
+    expect(listPageMetas(transport.getDoc('ws-dst')).map((m) => m.id)).toContain(res.docId);
+    expect(listPageMetas(transport.getDoc('ws-src')).map((m) => m.id)).not.toContain(docId);
+    expect(transport.eventsNamed('space:delete-doc').map((e) => e.payload)).toEqual([{ spaceType: 'workspace', spaceId: 'ws-src', docId }]);
+  });
+
+  it('keeps the original when a blob cannot be copied', async () => {
+    const transport = new FakeTransport();
+    const { docId } = await createDoc({ workspaceId: 'ws-src-2', title: 'T', blocks: parseMarkdown('![x](blob://gone)'), transport });
+    getMock.mockResolvedValueOnce({ ok: false, status: 404 });
+
+    await expect(copyDocToWorkspace({ workspaceId: 'ws-src-2', docId, targetWorkspaceId: 'ws-dst-2', move: true, transport })).rejects.toThrow(
+      'failed to download blob gone (status 404)',
+    );
+    expect(transport.eventsNamed('space:delete-doc')).toHaveLength(0);
+    await expect(copyDocToWorkspace({ workspaceId: 'ws-a', docId, targetWorkspaceId: 'ws-a', transport })).rejects.toThrow('use doc duplicate');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import * as Y from 'yjs';
+
+import { createDoc } from '../src/yjs';
+import { findNoteBlockId, insertBlocks, readPageTree, updateBlock, moveBlock } from '../src/blocks';
+import { diffPageFromDoc, diffPageFromSpecs, diffPages, diffText, formatDocDiff } from '../src/diff';
+import { parseMarkdown, parseMarkdownPage } from '../src/markdown';
+import { FakeTransport } from './utils/fakeTransport';
+
+describe('doc diff', () => {
+  it('diffs text word by word', () => {
+    expect(diffText('ship the build today', 'ship the release today')).toEqual([
+      { op: 'equal', text: 'ship the ' },
+      { op: 'delete', text: 'build' },
+      { op: 'insert', text: 'release' },
+      { op: 'equal', text: ' today' },
+    ]);
+  });
+
+  it('aligns a Markdown file against the server doc by content', async () => {
+    const transport = new FakeTransport();
+    const { docId } = await createDoc({
+      workspaceId: 'ws-diff-1',
+      title: 'Plan',
+      blocks: parseMarkdown('Intro\n\n- [ ] build\n- [ ] test\n\nOld outro'),
+      transport,
+    });
+    const doc = transport.getDoc(docId);
+    const ids = readPageTree(doc)!.children[0].children.map((b) => b.id);
+
+    const local = parseMarkdownPage('# Plan v2\n\nIntro\n\n- [x] build\n- [ ] test\n\n## New section\n\nNew **outro**\n');
+    const entries = diffPages(diffPageFromDoc(doc), diffPageFromSpecs(local));
+    expect(entries.map((e) => [e.type, e.blockId])).toEqual([
+      ['title', undefined],
+      ['changed', ids[1]],
+      ['added', undefined],
+      ['changed', ids[3]],
+    ]);
+    expect(entries[1].props).toEqual(['checked']);
+    expect(formatDocDiff(entries)).toEqual([
+      '~ title: Plan{+ v2+}',
+      `~ [affine:list ${ids[1]}] props: checked`,
+      '+ [affine:paragraph] New section',
+      `~ [affine:paragraph ${ids[3]}] [-Old-]{+New+} [-outro-]{+**outro**+}`,
+    ]);
+  });
+
+  it('matches Yjs snapshots by block id and reports moves', async () => {
+    const transport = new FakeTransport();
+    const { docId } = await createDoc({ workspaceId: 'ws-diff-2', title: 'T', blocks: parseMarkdown('one\n\ntwo\n\nthree'), transport });
+    const server = transport.getDoc(docId);
+    const [one, two, three] = readPageTree(server)!.children[0].children.map((b) => b.id);
+
+    const local = new Y.Doc();
+    Y.applyUpdate(local, Y.encodeStateAsUpdate(server));
+    await moveBlock(local, one, { after: three });
+    await updateBlock(local, two, { text: [{ insert: 'two!' }] });
+    await insertBlocks(local, findNoteBlockId(local)!, [{ flavour: 'affine:divider' }], 0);
+    const noteId = findNoteBlockId(local)!;
+    const dividerId = (local.getMap('blocks').get(noteId) as any).get('sys:children').get(0);
+
+    const entries = diffPages(diffPageFromDoc(server), diffPageFromDoc(local));
+    expect(entries.map((e) => [e.type, e.blockId])).toEqual([
+      ['added', dividerId],
+      ['changed', two],
+      ['moved', one],
+    ]);
+    expect(diffPages(diffPageFromDoc(server), diffPageFromDoc(server))).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+
+import { createDoc, editDoc, loadDoc } from '../src/yjs';
+import { readPageTree } from '../src/blocks';
+import { renderMarkdown } from '../src/markdown';
+import {
+  addConnector,
+  addFrame,
+  addShape,
+  addText,
+  importDiagram,
+  layoutDiagram,
+  listCanvasItems,
+  nextIndex,
+  prevIndex,
+  parseDiagram,
+  parseXywh,
+  resolveCanvasColor,
+} from '../src/edgeless';
+import { FakeTransport } from './utils/fakeTransport';
+
+const elementsOf = (doc: any) => {
+  let elements: any;
+  doc.getMap('blocks').forEach((b: any) => {
+    if (b.get('sys:flavour') === 'affine:surface') elements = b.get('prop:elements').get('value');
+  });
+  return elements;
+};
+
+describe('edgeless', () => {
+  it('parses coordinates, colors and fractional indexes', () => {
+    expect(parseXywh('10, 20,300,40')).toEqual([10, 20, 300, 40]);
+    expect(parseXywh('[0,0,1,1]')).toEqual([0, 0, 1, 1]);
+    expect(() => parseXywh('1,2,3')).toThrow('invalid xywh');
+    expect(resolveCanvasColor('Blue', 'shape')).toBe('--affine-palette-shape-blue');
+    expect(resolveCanvasColor('#3366ff', 'line')).toBe('#3366ff');
+
+    expect(nextIndex([])).toBe('a0');
+    expect(nextIndex(['a0', 'a1V', 'Zz'])).toBe('a2');
+    expect(nextIndex(['a9'])).toBe('aA');
+    expect(nextIndex(['az'])).toBe('b00');
+    expect(nextIndex(['bzz'])).toBe('c000');
+    expect(prevIndex(['a0', 'a1'])).toBe('Zz');
+    expect(prevIndex(['a0V'])).toBe('a0');
+    expect(prevIndex(['b00'])).toBe('az');
+    expect(prevIndex(['Z0'])).toBe('Yzz');
+  });
+
+  it('writes shapes, text, connectors and frames into the surface block', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-edgeless-1';
+    const { docId } = await createDoc({ workspaceId, title: 'Architecture', content: 'Notes', transport });
+
+    const { result: ids } = await editDoc({ workspaceId, docId, transport }, async (doc) => {
+      const api = await addShape(doc, { xywh: [0, 600, 200, 80], text: 'API', fill: 'blue' });
+      const db = await addShape(doc, { xywh: [400, 600, 200, 80], shape: 'ellipse', text: 'DB' });
+      const label = await addText(doc, { text: 'Backend\nv2', at: [0, 500], fontSize: 20 });
+      const link = await addConnector(doc, { from: api, to: db, label: 'SQL', mode: 'straight' });
+      const frame = await addFrame(doc, { title: 'Backend', around: [api, db], padding: 20 });
+      return { api, db, label, link, frame };
+    });
+
+    const doc = await loadDoc({ workspaceId, docId, transport });
+    const elements = elementsOf(doc);
+    const api = elements.get(ids.api);
+    expect(api.get('xywh')).toBe('[0,600,200,80]');
+    expect(api.get('shapeType')).toBe('rect');
+    expect(api.get('fillColor')).toBe('--affine-palette-shape-blue');
+    expect(api.get('text').toString()).toBe('API');
+    expect(elements.get(ids.label).get('xywh')).toBe('[0,500,84,48]');
+    expect(elements.get(ids.link).get('source')).toEqual({ id: ids.api });
+    expect(elements.get(ids.link).get('mode')).toBe(0);
+    expect(elements.get(ids.link).get('rearEndpointStyle')).toBe('Arrow');
+
+    const frame = doc.getMap('blocks').get(ids.frame);
+    expect(frame.get('prop:xywh')).toBe('[-20,580,640,120]');
+    expect(frame.get('prop:title').toString()).toBe('Backend');
+
+    // The surface is the page's first child and stays out of the rendered page
+    const page = readPageTree(doc)!;
+    expect(page.children.map((c) => c.flavour)).toEqual(['affine:surface', 'affine:note']);
+    expect(renderMarkdown(page).trim()).toBe('# Architecture\n\nNotes');
+
+    const items = listCanvasItems(doc);
+    expect(items.map((i) => i.type)).toEqual(['affine:note', 'affine:frame', 'shape', 'shape', 'text', 'connector']);
+    expect(items.find((i) => i.id === ids.link)).toMatchObject({ source: ids.api, target: ids.db, text: 'SQL' });
+
+    await expect(editDoc({ workspaceId, docId, transport }, (d) => addConnector(d, { from: ids.api, to: 'nope' }))).rejects.toThrow(
+      'canvas element or block nope not found',
+    );
+  });
+
+  it('lays out a diagram in layers below the existing content', async () => {
+    const diagram = parseDiagram({
+      title: 'Checkout',
+      nodes: [{ id: 'web' }, { id: 'api', label: 'API', color: 'green' }, { id: 'db', shape: 'ellipse' }, { id: 'cache' }],
+      edges: [
+        { from: 'web', to: 'api' },
+        { from: 'api', to: 'db', label: 'reads' },
+        { from: 'api', to: 'cache' },
+        { from: 'cache', to: 'api' },
+      ],
+    });
+    const layout = layoutDiagram(diagram);
+    expect(layout.get('web')).toEqual([0, 70, 200, 80]);
+    expect(layout.get('api')).toEqual([320, 70, 200, 80]);
+    expect(layout.get('db')).toEqual([640, 0, 200, 80]);
+    expect(layout.get('cache')).toEqual([640, 140, 200, 80]);
+    expect(layoutDiagram({ ...diagram, direction: 'down' }).get('api')).toEqual([130, 200, 200, 80]);
+
+    expect(() => parseDiagram({ nodes: [{ id: 'a' }], edges: [{ from: 'a', to: 'b' }] })).toThrow('unknown node');
+    expect(() => parseDiagram({ nodes: [{ id: 'a' }, { id: 'a' }] })).toThrow('duplicate node id a');
+
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-edgeless-2';
+    const { docId } = await createDoc({ workspaceId, title: 'Checkout', transport });
+    const { result } = await editDoc({ workspaceId, docId, transport }, (doc) => importDiagram(doc, diagram));
+    expect(Object.keys(result.nodes)).toEqual(['web', 'api', 'db', 'cache']);
+    expect(result.connectors).toHaveLength(4);
+
+    const doc = await loadDoc({ workspaceId, docId, transport });
+    const elements = elementsOf(doc);
+    // The default note covers [0,0,600,400]; the diagram starts 100px below it, inside the frame padding
+    expect(elements.get(result.nodes.web).get('xywh')).toBe('[40,610,200,80]');
+    expect(elements.get(result.nodes.api).get('fillColor')).toBe('--affine-palette-shape-green');
+    expect(elements.get(result.connectors[1]).get('text').toString()).toBe('reads');
+    expect(doc.getMap('blocks').get(result.frameId!).get('prop:xywh')).toBe('[0,500,920,300]');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../src/http', () => {
+  const fn = vi.fn();
+  return {
+    default: fn,
+    request: fn,
+  };
+});
+
+import * as Y from 'yjs';
+import request from '../src/http';
+import { normalizeHistoryTimestamp, restoreDocVersion } from '../src/history';
+import { createDoc, editDoc } from '../src/yjs';
+import { plainText, readPageTree, updateBlock } from '../src/blocks';
+import { listPageMetas } from '../src/meta';
+import { FakeTransport } from './utils/fakeTransport';
+
+const requestMock = request as any;
+
+describe('doc history', () => {
+  beforeEach(() => {
+    requestMock.mockReset();
+  });
+
+  it('normalizes timestamps', () => {
+    expect(normalizeHistoryTimestamp('1700000000000')).toBe('2023-11-14T22:13:20.000Z');
+    expect(normalizeHistoryTimestamp('2024-01-02T03:04:05.678Z')).toBe('2024-01-02T03:04:05.678Z');
+    expect(() => normalizeHistoryTimestamp('yesterday')).toThrow('invalid timestamp: yesterday');
+  });
+
+  it('restores an older snapshot over the realtime channel', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-history-1';
+    const { docId } = await createDoc({ workspaceId, title: 'Spec', content: 'original text', transport });
+    const snapshot = Buffer.from(Y.encodeStateAsUpdate(transport.getDoc(docId)));
+
+    // Someone overwrites the paragraph and the title
+    await editDoc({ workspaceId, docId, transport }, async (doc) => {
+      const page = readPageTree(doc)!;
+      await updateBlock(doc, page.children[0].children[0].id, { text: [{ insert: 'oops' }] });
+      await updateBlock(doc, page.id, { props: { title: { $text: [{ insert: 'Spec (broken)' }] } } });
+    });
+
+    requestMock.mockImplementation(async (opts: any) => {
+      expect(opts.path).toBe(`/api/workspaces/${workspaceId}/docs/${docId}/histories/2024-01-02T03%3A04%3A05.000Z`);
+      expect(opts.responseType).toBe('buffer');
+      return { status: 200, headers: {}, data: snapshot, rawBody: snapshot };
+    });
+
+    const res = await restoreDocVersion({ workspaceId, docId, at: '2024-01-02T03:04:05Z', transport });
+    expect(res).toMatchObject({ blocks: 2, title: 'Spec' });
+    const page = readPageTree(transport.getDoc(docId))!;
+    expect(plainText(page.props.title)).toBe('Spec');
+    expect(plainText(page.children[0].children[0].text)).toBe('original text');
+    expect(listPageMetas(transport.getDoc(workspaceId)).find((m) => m.id === docId)?.title).toBe('Spec');
+
+    const again = await restoreDocVersion({ workspaceId, docId, at: '2024-01-02T03:04:05Z', transport });
+    expect(again.blocks).toBe(0);
+  });
+});
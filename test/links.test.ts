@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+
+import { createDoc, editWorkspaceRoot, loadDoc } from '../src/yjs';
+import { findNoteBlockId, insertBlocks } from '../src/blocks';
+import { setPageTrash, upsertPageMeta } from '../src/meta';
+import { parseMarkdown } from '../src/markdown';
+import { backlinksFrom, buildLinkGraph, collectDocLinks, formatGraphDot } from '../src/links';
+import { FakeTransport } from './utils/fakeTransport';
+
+async function seedPage(transport: FakeTransport, workspaceId: string, title: string, markdown = ''): Promise<string> {
+  const { docId } = await createDoc({ workspaceId, title, blocks: markdown ? parseMarkdown(markdown) : [], transport });
+  await editWorkspaceRoot({ workspaceId, transport }, (root) => upsertPageMeta(root, docId, { title }));
+  return docId;
+}
+
+describe('doc links', () => {
+  it('collects inline references and linked-doc embeds in document order', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-links-1';
+    const docId = await seedPage(transport, workspaceId, 'Index', 'See [[doc-a]] and [[doc-b]]\n\n- nested [[doc-a]]');
+    const doc = await loadDoc({ workspaceId, docId, transport });
+    await insertBlocks(doc, findNoteBlockId(doc)!, [{ flavour: 'affine:embed-linked-doc', props: { pageId: 'doc-c' } }]);
+
+    expect(collectDocLinks(doc).map((l) => [l.docId, l.kind])).toEqual([
+      ['doc-a', 'reference'],
+      ['doc-b', 'reference'],
+      ['doc-a', 'reference'],
+      ['doc-c', 'embed'],
+    ]);
+  });
+
+  it('builds the workspace graph with backlinks, orphans and missing targets', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-links-2';
+    const guide = await seedPage(transport, workspaceId, 'Guide');
+    const faq = await seedPage(transport, workspaceId, 'FAQ', `Back to [[${guide}]]`);
+    const home = await seedPage(transport, workspaceId, 'Home', `Start with [[${guide}]], then [[${faq}]]\n\nAlso [[${guide}]] and [[gone]]`);
+    const lonely = await seedPage(transport, workspaceId, 'Lonely "draft"');
+    const trashed = await seedPage(transport, workspaceId, 'Old', `[[${guide}]]`);
+    await editWorkspaceRoot({ workspaceId, transport }, (root) => setPageTrash(root, trashed, true));
+
+    const graph = await buildLinkGraph({ workspaceId, transport });
+    expect(graph.nodes.map((n) => n.title)).toEqual(['Guide', 'FAQ', 'Home', 'Lonely "draft"']);
+    expect(graph.edges.map((e) => [e.from, e.to, e.blocks.length])).toEqual([
+      [faq, guide, 1],
+      [home, guide, 2],
+      [home, faq, 1],
+      [home, 'gone', 1],
+    ]);
+    expect(graph.orphans).toEqual([lonely]);
+    expect(graph.missing).toEqual(['gone']);
+    expect(backlinksFrom(graph, guide).map((e) => e.from)).toEqual([faq, home]);
+
+    const dot = formatGraphDot(graph);
+    expect(dot).toContain(`"${lonely}" [label="Lonely \\"draft\\"", style=dashed];`);
+    expect(dot).toContain(`"${home}" -> "${guide}" [label="2"];`);
+    expect(dot).toContain('"gone" [label="gone (missing)", color=red];');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+
+import { parseInline, parseMarkdown, parseMarkdownPage } from '../src/markdown';
+
+describe('markdown inline parsing', () => {
+  it('maps bold/italic/strike/code/links to delta attributes', () => {
+    const delta = parseInline('Plain **bold** _it_ ~~gone~~ `x = 1` [site](https://example.com)');
+    expect(delta).toEqual([
+      { insert: 'Plain ' },
+      { insert: 'bold', attributes: { bold: true } },
+      { insert: ' ' },
+      { insert: 'it', attributes: { italic: true } },
+      { insert: ' ' },
+      { insert: 'gone', attributes: { strike: true } },
+      { insert: ' ' },
+      { insert: 'x = 1', attributes: { code: true } },
+      { insert: ' ' },
+      { insert: 'site', attributes: { link: 'https://example.com' } },
+    ]);
+  });
+
+  it('supports nested marks, escapes and leaves intra-word underscores alone', () => {
+    expect(parseInline('***both***')).toEqual([{ insert: 'both', attributes: { bold: true, italic: true } }]);
+    expect(parseInline('snake_case_name')).toEqual([{ insert: 'snake_case_name' }]);
+    expect(parseInline('\\*not italic\\*')).toEqual([{ insert: '*not italic*' }]);
+    expect(parseInline('**a *b* c**')).toEqual([
+      { insert: 'a ', attributes: { bold: true } },
+      { insert: 'b', attributes: { bold: true, italic: true } },
+      { insert: ' c', attributes: { bold: true } },
+    ]);
+  });
+
+  it('maps [[docId]] to linked-doc references and @[userId] to mentions', () => {
+    expect(parseInline('See [[doc-1]] cc @[user-9] and @[x](https://e.x)')).toEqual([
+      { insert: 'See ' },
+      { insert: ' ', attributes: { reference: { type: 'LinkedPage', pageId: 'doc-1' } } },
+      { insert: ' cc ' },
+      { insert: ' ', attributes: { mention: { member: 'user-9' } } },
+      { insert: ' and @' },
+      { insert: 'x', attributes: { link: 'https://e.x' } },
+    ]);
+    expect(parseInline('**[[doc-1]]**')).toEqual([
+      { insert: ' ', attributes: { bold: true, reference: { type: 'LinkedPage', pageId: 'doc-1' } } },
+    ]);
+  });
+});
+
+describe('markdown block parsing', () => {
+  it('maps headings, quotes, dividers and code fences onto BlockSuite flavours', () => {
+    const blocks = parseMarkdown([
+      '## Setup',
+      '',
+      '> Read this first',
+      '> twice',
+      '',
+      '---',
+      '',
+      '```ts',
+      'const a = 1;',
+      '',
+      'console.log(a);',
+      '```',
+    ].join('\n'));
+
+    expect(blocks.map((b) => [b.flavour, b.props?.type])).toEqual([
+      ['affine:paragraph', 'h2'],
+      ['affine:paragraph', 'quote'],
+      ['affine:divider', undefined],
+      ['affine:code', undefined],
+    ]);
+    expect(blocks[1].text).toEqual([{ insert: 'Read this first\ntwice' }]);
+    expect(blocks[3].props?.language).toBe('ts');
+    expect(blocks[3].text).toEqual([{ insert: 'const a = 1;\n\nconsole.log(a);' }]);
+  });
+
+  it('nests bulleted, numbered and todo list items by indentation', () => {
+    const blocks = parseMarkdown([
+      '- parent',
+      '  - [x] done child',
+      '  - [ ] open child',
+      '- sibling',
+      '',
+      '1. first',
+      '2. second',
+    ].join('\n'));
+
+    expect(blocks).toHaveLength(4);
+    expect(blocks[0].props?.type).toBe('bulleted');
+    expect(blocks[0].children?.map((c) => [c.props?.type, c.props?.checked, c.text?.[0]?.insert])).toEqual([
+      ['todo', true, 'done child'],
+      ['todo', false, 'open child'],
+    ]);
+    expect(blocks[1].text).toEqual([{ insert: 'sibling' }]);
+    expect(blocks.slice(2).map((b) => b.props?.type)).toEqual(['numbered', 'numbered']);
+  });
+
+  it('parses GFM tables into flat affine:table props with Y.Text cells', () => {
+    const [table] = parseMarkdown(['| Name | Role |', '| --- | :-: |', '| Ada | **lead** |'].join('\n'));
+    expect(table.flavour).toBe('affine:table');
+    const props = table.props ?? {};
+    expect(props['rows.r0.rowId']).toBe('r0');
+    expect(props['columns.c1.order']).toBe('a1');
+    expect(props['cells.r0:c0.text']).toEqual({ $text: [{ insert: 'Name' }] });
+    expect(props['cells.r1:c1.text']).toEqual({ $text: [{ insert: 'lead', attributes: { bold: true } }] });
+  });
+
+  it('parseMarkdownPage lifts a leading H1 into the title', () => {
+    const page = parseMarkdownPage('# Runbook\n\nStep one');
+    expect(page.title).toBe('Runbook');
+    expect(page.blocks).toHaveLength(1);
+    expect(parseMarkdownPage('Intro\n\n# Later').title).toBeUndefined();
+  });
+});
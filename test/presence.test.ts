@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+
+import { appendText, createDoc } from '../src/yjs';
+import {
+  collectPresence,
+  decodeAwarenessUpdate,
+  describePresence,
+  encodeAwarenessUpdate,
+  PresenceBroadcaster,
+} from '../src/presence';
+import { FakeTransport } from './utils/fakeTransport';
+
+const awareness = (entries: Parameters<typeof encodeAwarenessUpdate>[0]) => Buffer.from(encodeAwarenessUpdate(entries)).toString('base64');
+
+// Peers in the doc's awareness room answer space:load-awarenesses with their states.
+class RoomTransport extends FakeTransport {
+  constructor(private readonly peers: (docId: string) => string[]) {
+    super();
+  }
+
+  async emit<T = unknown>(event: string, payload?: Record<string, any>): Promise<T | void> {
+    const res = await super.emit<T>(event, payload);
+    if (event === 'space:load-awarenesses') {
+      for (const awarenessUpdate of this.peers(payload!.docId)) {
+        this.broadcast('space:broadcast-awareness-update', { spaceType: 'workspace', spaceId: payload!.spaceId, docId: payload!.docId, awarenessUpdate });
+      }
+    }
+    return res;
+  }
+}
+
+const states = (transport: FakeTransport, docId: string) =>
+  transport
+    .eventsNamed('space:update-awareness')
+    .filter((e) => e.payload.docId === docId)
+    .map((e) => decodeAwarenessUpdate(Buffer.from(e.payload.awarenessUpdate, 'base64'))[0].state);
+
+describe('presence', () => {
+  it('encodes awareness updates in the y-protocols format', () => {
+    const update = encodeAwarenessUpdate([{ clientId: 1, clock: 2, state: { a: 1 } }]);
+    expect(Array.from(update)).toEqual([1, 1, 2, 7, ...Buffer.from('{"a":1}')]);
+
+    const entries = [
+      { clientId: 4_000_000_000, clock: 300, state: { user: { name: 'Zoë' } } },
+      { clientId: 7, clock: 1, state: null },
+    ];
+    expect(decodeAwarenessUpdate(encodeAwarenessUpdate(entries))).toEqual(entries);
+    expect(() => decodeAwarenessUpdate(update.subarray(0, 6))).toThrow('truncated awareness update');
+  });
+
+  it('lists the users in a doc with their cursor block', async () => {
+    const transport = new RoomTransport((docId) => [
+      awareness([{ clientId: 11, clock: 3, state: { user: { name: 'Kim' }, selectionV2: { [docId]: [{ type: 'text', from: { blockId: 'p1', index: 0, length: 2 }, to: null }] } } }]),
+      awareness([{ clientId: 12, clock: 1, state: { user: { name: 'Ana' }, selectionV2: { other: [{ type: 'block', blockId: 'b9' }] } } }]),
+      awareness([{ clientId: 13, clock: 5, state: { user: { name: 'Gone' } } }]),
+      awareness([{ clientId: 13, clock: 6, state: null }]),
+      awareness([{ clientId: 11, clock: 2, state: { user: { name: 'Kim (stale)' } } }]),
+    ]);
+
+    const users = await collectPresence(transport, { workspaceId: 'ws-who', docId: 'doc-1', waitMs: 0 });
+    expect(users.map((u) => [u.clientId, u.name, u.blockId])).toEqual([
+      [12, 'Ana', 'b9'],
+      [11, 'Kim', 'p1'],
+    ]);
+    expect(transport.events.map((e) => e.event)).toEqual(['space:join-awareness', 'space:load-awarenesses', 'space:leave-awareness']);
+    expect(transport.listenerCount('space:broadcast-awareness-update')).toBe(0);
+    expect(describePresence(5, {}, 'doc-1').name).toBe('client 5');
+  });
+
+  it('announces the CLI in the docs it writes until stopped', async () => {
+    const transport = new RoomTransport(() => []);
+    const workspaceId = 'ws-bot';
+    const { docId } = await createDoc({ workspaceId, title: 'Release notes', transport });
+    transport.events = [];
+
+    const presence = new PresenceBroadcaster(transport, { workspaceId, presence: { name: 'release-bot', color: '#f00' } });
+    transport.presence = presence;
+    await appendText({ workspaceId, docId, text: 'v1.2 shipped', transport });
+    await appendText({ workspaceId, docId, text: 'v1.3 shipped', transport });
+    expect(transport.events.map((e) => e.event).filter((e) => e !== 'space:join' && e !== 'space:load-doc')).toEqual([
+      'space:join-awareness',
+      'space:update-awareness',
+      'space:push-doc-update',
+      'space:push-doc-update',
+    ]);
+    expect(states(transport, docId)).toEqual([{ user: { name: 'release-bot' }, color: '#f00', selectionV2: { [docId]: [] } }]);
+    expect(presence.docIds).toEqual([docId]);
+
+    // Editors opening the doc ask everyone to resend their state
+    transport.broadcast('space:collect-awareness', { spaceType: 'workspace', spaceId: workspaceId, docId });
+    transport.broadcast('space:collect-awareness', { spaceType: 'workspace', spaceId: workspaceId, docId: 'elsewhere' });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(states(transport, docId)).toHaveLength(2);
+
+    await presence.stop();
+    expect(states(transport, docId).pop()).toBeNull();
+    expect(transport.events.pop()!.event).toBe('space:leave-awareness');
+    expect(transport.listenerCount('space:collect-awareness')).toBe(0);
+    expect(presence.docIds).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import * as Y from 'yjs';
+
+import { editWorkspaceRoot } from '../src/yjs';
+import { addPageTag, createTag, upsertPageMeta } from '../src/meta';
+import {
+  filterDocRecords,
+  getDocProperties,
+  inferPropertyType,
+  listDocRecords,
+  listPropertySchemas,
+  parseAssignments,
+  parsePropertyValue,
+  resolveColumns,
+  setDocProperties,
+} from '../src/props';
+import { FakeTransport } from './utils/fakeTransport';
+
+async function seedRoot(): Promise<any> {
+  const root = new Y.Doc();
+  await upsertPageMeta(root, 'doc-a', { title: 'Launch' });
+  await upsertPageMeta(root, 'doc-b', { title: 'Hiring' });
+  await upsertPageMeta(root, 'doc-c', { title: 'Offsite' });
+  return root;
+}
+
+describe('doc properties', () => {
+  it('parses and infers typed values', () => {
+    expect(parseAssignments(['status=Done', 'note=a=b'])).toEqual([['status', 'Done'], ['note', 'a=b']]);
+    expect(() => parseAssignments(['status'])).toThrow('invalid assignment status');
+    expect(['true', '42', '2024-07-01', 'Done'].map(inferPropertyType)).toEqual(['checkbox', 'number', 'date', 'text']);
+    expect(parsePropertyValue('checkbox', 'yes')).toBe(true);
+    expect(parsePropertyValue('date', '2024-07-01T10:00:00Z')).toBe('2024-07-01');
+    expect(() => parsePropertyValue('number', 'ten')).toThrow('invalid number: ten');
+    expect(() => parsePropertyValue('createdBy', 'u1')).toThrow('read-only');
+  });
+
+  it('creates property definitions and stores typed per-doc values', async () => {
+    const root = await seedRoot();
+    await setDocProperties(root, 'doc-a', [['status', 'Doing'], ['estimate', '3'], ['due', '2024-07-01']], { type: 'select' });
+    // --type applies to every property the call creates
+    expect(listPropertySchemas(root).map((p) => [p.name, p.type])).toEqual([
+      ['status', 'select'],
+      ['estimate', 'select'],
+      ['due', 'select'],
+    ]);
+
+    const other = await seedRoot();
+    const props = await setDocProperties(other, 'doc-a', [['status', 'Doing'], ['estimate', '3'], ['shipped', 'false']]);
+    expect(props.map((p) => [p.name, p.type, p.value])).toEqual([
+      ['status', 'text', 'Doing'],
+      ['estimate', 'number', 3],
+      ['shipped', 'checkbox', false],
+    ]);
+    await expect(setDocProperties(other, 'doc-a', [['estimate', 'lots']])).rejects.toThrow('invalid number: lots');
+    await expect(setDocProperties(other, 'missing', [['status', 'x']])).rejects.toThrow('not registered in workspace meta');
+
+    // Property names match case-insensitively; an empty value clears
+    await setDocProperties(other, 'doc-a', [['Status', 'Done'], ['shipped', '']]);
+    expect(getDocProperties(other, 'doc-a').map((p) => [p.name, p.value])).toEqual([
+      ['status', 'Done'],
+      ['estimate', 3],
+    ]);
+  });
+
+  it('stores select values as option ids and lists them by label', async () => {
+    const root = await seedRoot();
+    await setDocProperties(root, 'doc-a', [['status', 'Done']], { type: 'select' });
+    await setDocProperties(root, 'doc-b', [['status', 'Todo'], ['owner', 'sam']]);
+    await setDocProperties(root, 'doc-c', [['status', 'Done'], ['owner', 'kim']]);
+    const [status] = listPropertySchemas(root);
+    expect(status.options!.map((o) => o.value)).toEqual(['Done', 'Todo']);
+    expect(getDocProperties(root, 'doc-a')[0].value).toBe(status.options![0].id);
+
+    const urgent = await createTag(root, 'urgent');
+    await addPageTag(root, 'doc-c', urgent.id);
+
+    const records = listDocRecords(root);
+    expect(filterDocRecords(root, records, [['STATUS', 'Done']]).map((r) => r.title)).toEqual(['Launch', 'Offsite']);
+    expect(filterDocRecords(root, records, [['status', 'Done'], ['tags', 'urgent']]).map((r) => r.owner)).toEqual(['kim']);
+    expect(filterDocRecords(root, records, [['owner', '']]).map((r) => r.id)).toEqual(['doc-a']);
+    expect(resolveColumns(root, ['title', ' Owner', ''])).toEqual(['title', 'owner']);
+    expect(() => resolveColumns(root, ['priority'])).toThrow('unknown column priority');
+  });
+
+  it('keeps select options in a Y.Array so concurrent additions merge', async () => {
+    const root = await seedRoot();
+    await setDocProperties(root, 'doc-a', [['status', 'Done']], { type: 'select' });
+    const [schema] = listPropertySchemas(root);
+    const yOptions = root.getMap('affine:workspace-properties').get('schema').get('pageProperties').get('custom').get(schema.id).get('options');
+    expect(yOptions).toBeInstanceOf(Y.Array);
+    expect(yOptions.get(0)).toBeInstanceOf(Y.Map);
+
+    // Two replicas add different options at the same time
+    const other = new Y.Doc();
+    Y.applyUpdate(other, Y.encodeStateAsUpdate(root));
+    await setDocProperties(root, 'doc-b', [['status', 'Todo']]);
+    await setDocProperties(other, 'doc-c', [['status', 'Blocked']]);
+    Y.applyUpdate(root, Y.encodeStateAsUpdate(other));
+    expect(listPropertySchemas(root)[0].options!.map((o) => o.value).sort()).toEqual(['Blocked', 'Done', 'Todo']);
+
+    // Options stored as a plain array are converted when the next one is added
+    const plain = await seedRoot();
+    await setDocProperties(plain, 'doc-a', [['status', 'Done']], { type: 'select' });
+    const ySchema = plain.getMap('affine:workspace-properties').get('schema').get('pageProperties').get('custom').get(listPropertySchemas(plain)[0].id);
+    ySchema.set('options', [{ id: 'opt-1', value: 'Done' }]);
+    await setDocProperties(plain, 'doc-b', [['status', 'Todo']]);
+    expect(ySchema.get('options')).toBeInstanceOf(Y.Array);
+    expect(listPropertySchemas(plain)[0].options).toEqual([{ id: 'opt-1', value: 'Done' }, { id: expect.any(String), value: 'Todo' }]);
+  });
+
+  it('pushes property edits to the workspace root and is a no-op when unchanged', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-props-1';
+    await editWorkspaceRoot({ workspaceId, transport }, (root) => upsertPageMeta(root, 'doc-a', { title: 'Launch' }));
+
+    const first = await editWorkspaceRoot({ workspaceId, transport }, (root) => setDocProperties(root, 'doc-a', [['status', 'Done']]));
+    expect(first.changed).toBe(true);
+    const again = await editWorkspaceRoot({ workspaceId, transport }, (root) => setDocProperties(root, 'doc-a', [['status', 'Done']]));
+    expect(again.changed).toBe(false);
+    expect(getDocProperties(transport.getDoc(workspaceId), 'doc-a').map((p) => p.value)).toEqual(['Done']);
+  });
+});
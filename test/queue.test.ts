@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { appendText, createDoc, duplicateDoc, editDoc, editWorkspaceRoot, flushOfflineQueue, isConnectionError, loadDoc, RealtimeSession } from '../src/yjs';
+import { plainText, readPageTree, setPageTitle } from '../src/blocks';
+import { listPageMetas, upsertPageMeta } from '../src/meta';
+import { OfflineQueue, resolveQueueDir } from '../src/queue';
+import { FakeTransport } from './utils/fakeTransport';
+
+// Drops pushes as a lost socket would, or rejects them outright.
+class FlakyTransport extends FakeTransport {
+  mode: 'up' | 'down' | 'reject' = 'up';
+
+  async emit<T = unknown>(event: string, payload?: Record<string, any>): Promise<T | void> {
+    if (event === 'space:push-doc-update' && this.mode !== 'up') {
+      if (this.mode === 'reject') return { error: { message: 'doc is read-only' } } as any as T;
+      throw Object.assign(new Error('realtime connection lost (transport close)'), { code: 'ECONNRESET' });
+    }
+    return await super.emit<T>(event, payload);
+  }
+}
+
+const paragraphs = (transport: FakeTransport, docId: string) =>
+  readPageTree(transport.getDoc(docId))!.children[0].children.map((b) => plainText(b.text));
+
+describe('offline queue', () => {
+  let dir: string;
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'affine-queue-'));
+  });
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('stores updates per workspace and doc, oldest first', async () => {
+    const added: string[] = [];
+    const queue = new OfflineQueue({ dir, onAdd: (e) => added.push(e.docId) });
+    await queue.add('ws-1', 'doc/a', new Uint8Array([1, 2, 3]));
+    await queue.add('ws-1', 'doc/a', new Uint8Array([4]));
+    await queue.add('ws-2', 'doc-b', new Uint8Array([5, 6]));
+
+    expect(added).toEqual(['doc/a', 'doc/a', 'doc-b']);
+    expect((await queue.list()).map((e) => [e.workspaceId, e.docId, e.bytes])).toEqual([
+      ['ws-1', 'doc/a', 3],
+      ['ws-1', 'doc/a', 1],
+      ['ws-2', 'doc-b', 2],
+    ]);
+    const [first] = await queue.list({ workspaceId: 'ws-1', docId: 'doc/a' });
+    expect(Array.from(await queue.read(first))).toEqual([1, 2, 3]);
+
+    expect((await queue.clear({ workspaceId: 'ws-1' })).length).toBe(2);
+    expect((await queue.list()).map((e) => e.docId)).toEqual(['doc-b']);
+    // Emptied directories are pruned
+    expect(await fs.readdir(dir)).toEqual(['ws-2']);
+    expect(resolveQueueDir({ AFFINE_CLI_QUEUE_DIR: dir })).toBe(dir);
+  });
+
+  it('queues pushes that hit a dropped connection and delivers them with the next write', async () => {
+    const queue = new OfflineQueue({ dir });
+    const transport = new FlakyTransport();
+    const workspaceId = 'ws-queue-1';
+    const { docId } = await createDoc({ workspaceId, title: 'Field notes', transport });
+
+    transport.mode = 'down';
+    expect(await appendText({ workspaceId, docId, text: 'one', transport, queue })).toEqual({ accepted: false, queued: true });
+    const edit = await editDoc({ workspaceId, docId, transport, queue }, (doc) => setPageTitle(doc, 'Field notes (offline)'));
+    expect(edit).toMatchObject({ changed: true, accepted: false, queued: true });
+    expect((await queue.list({ workspaceId })).map((e) => e.docId)).toEqual([docId, docId]);
+    // Without a queue the error surfaces as before
+    await expect(appendText({ workspaceId, docId, text: 'lost', transport })).rejects.toThrow('connection lost');
+
+    transport.mode = 'up';
+    await appendText({ workspaceId, docId, text: 'two', transport, queue });
+    expect(await queue.list()).toEqual([]);
+    expect(paragraphs(transport, docId)).toEqual(['one', 'two']);
+    expect(plainText(readPageTree(transport.getDoc(docId))!.props.title)).toBe('Field notes (offline)');
+    // Both queued updates went out merged into one push
+    const pushes = transport.eventsNamed('space:push-doc-update').filter((e) => e.payload.docId === docId);
+    expect(pushes).toHaveLength(3);
+  });
+
+  it('queues the page-list entry of a doc created while the connection drops', async () => {
+    const queue = new OfflineQueue({ dir });
+    const transport = new FlakyTransport();
+    const workspaceId = 'ws-queue-4';
+    const { docId: existing } = await createDoc({ workspaceId, title: 'Existing', transport });
+    await editWorkspaceRoot({ workspaceId, transport }, (root) => upsertPageMeta(root, existing, { title: 'Existing' }));
+
+    transport.mode = 'down';
+    const created = await createDoc({ workspaceId, title: 'Offline draft', transport, queue });
+    expect(created).toEqual({ docId: expect.any(String), queued: true });
+    expect((await queue.list({ workspaceId })).map((e) => e.docId)).toEqual([created.docId, workspaceId]);
+    // Without a queue the lost registration is reported, not ignored
+    await expect(createDoc({ workspaceId, title: 'Lost', transport })).rejects.toThrow('connection lost');
+
+    transport.mode = 'up';
+    await flushOfflineQueue({ workspaceId, transport, queue });
+    expect(plainText(readPageTree(transport.getDoc(created.docId))!.props.title)).toBe('Offline draft');
+    expect(listPageMetas(transport.getDoc(workspaceId)).map((m) => [m.id, m.title])).toEqual([
+      [existing, 'Existing'],
+      [created.docId, 'Offline draft'],
+    ]);
+  });
+
+  it('reports a duplicate made while the connection drops as queued', async () => {
+    const queue = new OfflineQueue({ dir });
+    const transport = new FlakyTransport();
+    const workspaceId = 'ws-queue-5';
+    const { docId } = await createDoc({ workspaceId, title: 'Source', transport });
+
+    transport.mode = 'down';
+    const copy = await duplicateDoc({ workspaceId, docId, title: 'Copy', transport, queue });
+    expect(copy).toEqual({ docId: expect.any(String), title: 'Copy', queued: true });
+    expect((await queue.list({ workspaceId })).map((e) => e.docId)).toContain(copy.docId);
+
+    transport.mode = 'up';
+    await flushOfflineQueue({ workspaceId, transport, queue });
+    expect(plainText(readPageTree(transport.getDoc(copy.docId))!.props.title)).toBe('Copy');
+  });
+
+  it('queues session pushes and delivers them before the next write, not on reads', async () => {
+    const queue = new OfflineQueue({ dir });
+    const transport = new FlakyTransport();
+    const workspaceId = 'ws-queue-2';
+    const { docId } = await createDoc({ workspaceId, title: 'Batch', transport });
+
+    transport.mode = 'down';
+    const session = new RealtimeSession({ workspaceId, transport, queue });
+    const res = await appendText({ workspaceId, docId, text: 'queued in session', transport, session });
+    expect(res.queued).toBe(true);
+    await session.close();
+
+    transport.mode = 'up';
+    const reader = new RealtimeSession({ workspaceId, transport, queue });
+    await loadDoc({ workspaceId, docId, transport, session: reader });
+    await reader.close();
+    await loadDoc({ workspaceId, docId, transport, queue });
+    expect(await queue.list()).toHaveLength(1);
+    expect(paragraphs(transport, docId)).toEqual([]);
+
+    const writer = new RealtimeSession({ workspaceId, transport, queue });
+    await appendText({ workspaceId, docId, text: 'online again', transport, session: writer });
+    await writer.close();
+    expect(await queue.list()).toEqual([]);
+    expect(paragraphs(transport, docId)).toEqual(['queued in session', 'online again']);
+  });
+
+  it('flushes on demand, keeping updates the server rejects', async () => {
+    const queue = new OfflineQueue({ dir });
+    const transport = new FlakyTransport();
+    const workspaceId = 'ws-queue-3';
+    const { docId: kept } = await createDoc({ workspaceId, title: 'Kept', transport });
+    const { docId: sent } = await createDoc({ workspaceId, title: 'Sent', transport });
+    transport.mode = 'down';
+    await appendText({ workspaceId, docId: kept, text: 'a', transport, queue });
+    await appendText({ workspaceId, docId: sent, text: 'b', transport, queue });
+
+    await expect(flushOfflineQueue({ workspaceId, transport, queue })).rejects.toSatisfy(isConnectionError);
+    expect(await queue.list()).toHaveLength(2);
+
+    transport.mode = 'reject';
+    const rejected = await flushOfflineQueue({ workspaceId, transport, queue, docId: kept });
+    expect(rejected).toEqual({ delivered: [], failed: [{ docId: kept, error: expect.stringContaining('doc is read-only') }], remaining: 1 });
+
+    transport.mode = 'up';
+    const res = await flushOfflineQueue({ workspaceId, transport, queue, docId: sent });
+    expect(res.delivered).toEqual([{ docId: sent, updates: 1, bytes: expect.any(Number) }]);
+    expect(res.remaining).toBe(0);
+    expect((await queue.list()).map((e) => e.docId)).toEqual([kept]);
+    expect(paragraphs(transport, sent)).toEqual(['b']);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+
+import { createDoc, editWorkspaceRoot, renameDoc } from '../src/yjs';
+import { plainText, readPageTree } from '../src/blocks';
+import { listPageMetas, upsertPageMeta } from '../src/meta';
+import { FakeTransport } from './utils/fakeTransport';
+
+// Rejects pushes to one doc, as a server would on a permission or size error.
+class RejectingTransport extends FakeTransport {
+  constructor(private readonly rejectDocId: string) {
+    super();
+  }
+
+  async emit<T = unknown>(event: string, payload?: Record<string, any>): Promise<T | void> {
+    if (event === 'space:push-doc-update' && payload?.docId === this.rejectDocId) throw new Error('push rejected');
+    return super.emit<T>(event, payload);
+  }
+}
+
+async function seedDoc(transport: FakeTransport, workspaceId: string, title: string): Promise<string> {
+  const { docId } = await createDoc({ workspaceId, title, transport });
+  await editWorkspaceRoot({ workspaceId, transport }, (root) => upsertPageMeta(root, docId, { title }));
+  return docId;
+}
+
+const pageTitle = (transport: FakeTransport, docId: string) => plainText(readPageTree(transport.getDoc(docId))?.props?.title);
+
+describe('doc rename', () => {
+  it('updates the page title and the meta.pages entry', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-rename-1';
+    const docId = await seedDoc(transport, workspaceId, 'Draft');
+
+    const res = await renameDoc({ workspaceId, docId, title: 'Q3 plan', transport });
+    expect(res).toMatchObject({ title: 'Q3 plan', previousTitle: 'Draft', changed: true });
+    expect(pageTitle(transport, docId)).toBe('Q3 plan');
+    expect(listPageMetas(transport.getDoc(workspaceId)).find((m) => m.id === docId)?.title).toBe('Q3 plan');
+  });
+
+  it('pushes nothing when the title is unchanged', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-rename-2';
+    const docId = await seedDoc(transport, workspaceId, 'Same');
+    const pushes = transport.eventsNamed('space:push-doc-update').length;
+
+    const res = await renameDoc({ workspaceId, docId, title: 'Same', transport });
+    expect(res.changed).toBe(false);
+    expect(transport.eventsNamed('space:push-doc-update')).toHaveLength(pushes);
+  });
+
+  it('reverts the page title when the page list cannot be updated', async () => {
+    const workspaceId = 'ws-rename-3';
+    const transport = new RejectingTransport(workspaceId);
+    const { docId } = await createDoc({ workspaceId, title: 'Before', transport });
+
+    await expect(renameDoc({ workspaceId, docId, title: 'After', transport })).rejects.toThrow('push rejected');
+    expect(pageTitle(transport, docId)).toBe('Before');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+vi.mock('../src/blobs', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/blobs')>()),
+  upload: vi.fn(async (_ws: string, name: string) => ({ ok: true, status: 200, key: `key-${name}` })),
+}));
+
+import { createDoc, editDoc, loadDoc } from '../src/yjs';
+import { resolveImageBlocks } from '../src/backup';
+import { upload } from '../src/blobs';
+import { readPageTree } from '../src/blocks';
+import { parseMarkdown, parseMarkdownPage, renderMarkdown } from '../src/markdown';
+import { applySync, formatSyncOp, planSync } from '../src/sync';
+import { FakeTransport } from './utils/fakeTransport';
+
+const FILE_V1 = '# Changelog\n\n## 1.1.0\n\n- [ ] **Fix** the login flow\n- [ ] Faster export\n\nThanks to everyone.\n';
+const FILE_V2 = '# Changelog\n\n## 1.2.0\n\n- Streaming import\n  - with progress\n\n## 1.1.0\n\n- [x] **Fix** the login redirect flow\n\nThanks to everyone.\n';
+
+async function sync(transport: FakeTransport, workspaceId: string, docId: string, md: string, page = parseMarkdownPage(md)) {
+  return editDoc({ workspaceId, docId, transport }, async (doc) => {
+    const plan = planSync(doc, page);
+    await applySync(doc, plan);
+    return plan;
+  });
+}
+
+describe('doc sync', () => {
+  it('applies minimal block operations and keeps unrelated blocks and marks', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-sync-1';
+    const page = parseMarkdownPage(FILE_V1);
+    const { docId } = await createDoc({ workspaceId, title: page.title!, blocks: page.blocks, transport });
+
+    const noop = await sync(transport, workspaceId, docId, FILE_V1);
+    expect(noop).toMatchObject({ result: [], changed: false });
+
+    // A teammate comments on the closing paragraph and underlines part of the todo
+    const before = readPageTree(transport.getDoc(docId))!.children[0].children;
+    await editDoc({ workspaceId, docId, transport }, (doc) => {
+      const blocks = doc.getMap('blocks') as any;
+      blocks.get(before[3].id).get('prop:text').format(0, 6, { comment: { id: 'c1' } });
+      blocks.get(before[1].id).get('prop:text').format(8, 3, { underline: true });
+    });
+
+    const { result: ops, changed } = await sync(transport, workspaceId, docId, FILE_V2);
+    expect(changed).toBe(true);
+    expect(ops.map(formatSyncOp).map((l) => l.split(' ')[0])).toEqual(['update', 'remove', 'insert', 'insert']);
+    expect(ops[0]).toMatchObject({ op: 'update', blockId: before[1].id, props: { checked: true } });
+    expect(ops[1]).toMatchObject({ op: 'remove', blockId: before[2].id });
+
+    const after = readPageTree(transport.getDoc(docId))!;
+    // The teammate's underline survives the text patch
+    expect(renderMarkdown(after)).toBe(FILE_V2.replace('the login', 'the <u>log</u>in'));
+    const ids = after.children[0].children.map((b) => b.id);
+    expect(ids.slice(2)).toEqual([before[0].id, before[1].id, before[3].id]);
+    expect(after.children[0].children[3].text).toEqual([
+      { insert: 'Fix', attributes: { bold: true } },
+      { insert: ' the ' },
+      { insert: 'log', attributes: { underline: true } },
+      { insert: 'in redirect flow' },
+    ]);
+    expect(after.children[0].children[4].text?.[0]).toEqual({ insert: 'Thanks', attributes: { comment: { id: 'c1' } } });
+
+    expect(await sync(transport, workspaceId, docId, FILE_V2)).toMatchObject({ result: [], changed: false });
+  });
+
+  it('updates the title and inline marks in place', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-sync-2';
+    const { docId } = await createDoc({ workspaceId, title: 'Old', blocks: parseMarkdown('plain words here'), transport });
+    const { result } = await sync(transport, workspaceId, docId, '# New\n\nplain **words** here\n');
+    expect(result.map((op) => op.op)).toEqual(['title', 'update']);
+    expect(renderMarkdown(readPageTree(transport.getDoc(docId))!)).toBe('# New\n\nplain **words** here\n');
+  });
+
+  it('plans the same operations in a dry run as a real sync for files with images', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'affine-cli-sync-'));
+    process.env.AFFINE_CLI_BLOBS_PATH = path.join(dir, 'blobs.json');
+    await fs.writeFile(path.join(dir, 'pic.png'), 'png-bytes');
+    await fs.writeFile(path.join(dir, 'new.png'), 'other-bytes');
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-sync-3';
+    const parse = async (md: string, dryRun = false) => {
+      const page = parseMarkdownPage(md);
+      await resolveImageBlocks(page.blocks, dir, workspaceId, { dryRun }, new Map());
+      return page;
+    };
+
+    const v1 = await parse('# Diagram\n\nIntro\n\n![arch](pic.png)\n');
+    const { docId } = await createDoc({ workspaceId, title: v1.title!, blocks: v1.blocks, transport });
+    expect(upload).toHaveBeenCalledTimes(1);
+
+    // The unchanged image matches by its recorded key: only the text edit is planned, and nothing is uploaded again
+    const v2 = '# Diagram\n\nIntro, revised\n\n![arch](pic.png)\n';
+    const planned = planSync(await loadDoc({ workspaceId, docId, transport }), await parse(v2, true));
+    const applied = await sync(transport, workspaceId, docId, v2, await parse(v2));
+    expect(planned).toMatchObject([{ op: 'update', flavour: 'affine:paragraph', summary: 'Intro, revised' }]);
+    expect(applied.result).toEqual(planned);
+    expect(upload).toHaveBeenCalledTimes(1);
+
+    // An image not uploaded yet is an insert either way; the dry run does not upload it
+    const v3 = `${v2}\n![more](new.png)\n`;
+    const plannedNew = planSync(await loadDoc({ workspaceId, docId, transport }), await parse(v3, true));
+    expect(upload).toHaveBeenCalledTimes(1);
+    const appliedNew = await sync(transport, workspaceId, docId, v3, await parse(v3));
+    expect(plannedNew.map((op) => op.op)).toEqual(['insert']);
+    expect(appliedNew.result.map((op) => op.op)).toEqual(['insert']);
+    expect(upload).toHaveBeenCalledTimes(2);
+  });
+});
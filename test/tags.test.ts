@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import * as Y from 'yjs';
+
+import { createDoc, editWorkspaceRoot, loadDoc } from '../src/yjs';
+import {
+  addPageTag,
+  createTag,
+  deleteTag,
+  findTag,
+  listPageMetas,
+  listTags,
+  removePageTag,
+  updateTag,
+  upsertPageMeta,
+} from '../src/meta';
+import { FakeTransport } from './utils/fakeTransport';
+
+describe('workspace tags', () => {
+  it('creates, renames, recolors and deletes tags, stripping them from pages', async () => {
+    const root = new Y.Doc();
+    await upsertPageMeta(root, 'doc-a', { title: 'A' });
+    await upsertPageMeta(root, 'doc-b', { title: 'B' });
+
+    const urgent = await createTag(root, 'urgent', 'red');
+    expect(urgent.color).toBe('var(--affine-tag-red)');
+    await expect(createTag(root, 'urgent')).rejects.toThrow('tag urgent already exists');
+    const later = await createTag(root, 'later', '#123456');
+    expect(later.color).toBe('#123456');
+
+    expect(await addPageTag(root, 'doc-a', urgent.id)).toBe(true);
+    expect(await addPageTag(root, 'doc-a', urgent.id)).toBe(false);
+    await addPageTag(root, 'doc-b', urgent.id);
+    await addPageTag(root, 'doc-b', later.id);
+
+    const renamed = await updateTag(root, 'urgent', { value: 'p0', color: 'blue' });
+    expect(renamed).toMatchObject({ id: urgent.id, value: 'p0', color: 'var(--affine-tag-blue)' });
+    await expect(updateTag(root, 'p0', { value: 'later' })).rejects.toThrow('tag later already exists');
+    expect(findTag(root, urgent.id)?.value).toBe('p0');
+
+    expect(await removePageTag(root, 'doc-b', later.id)).toBe(true);
+    expect(await removePageTag(root, 'doc-b', later.id)).toBe(false);
+
+    const { pages } = await deleteTag(root, 'p0');
+    expect(pages).toBe(2);
+    expect(listTags(root).map((t) => t.value)).toEqual(['later']);
+    expect(listPageMetas(root).map((m) => m.tags)).toEqual([[], []]);
+    await expect(deleteTag(root, 'p0')).rejects.toThrow('tag p0 not found');
+  });
+
+  it('updates tag options stored as plain objects', async () => {
+    const root = new Y.Doc();
+    const options = new Y.Array();
+    const tags = new Y.Map();
+    const properties = new Y.Map();
+    root.getMap('meta').set('properties', properties);
+    properties.set('tags', tags);
+    tags.set('options', options);
+    options.push([{ id: 't1', value: 'design', color: 'var(--affine-tag-green)' }]);
+
+    await updateTag(root, 'design', { value: 'ux' });
+    expect(listTags(root)).toMatchObject([{ id: 't1', value: 'ux', color: 'var(--affine-tag-green)' }]);
+  });
+
+  it('pushes tag edits to the workspace root', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-tags-1';
+    const { docId } = await createDoc({ workspaceId, title: 'Roadmap', transport });
+    await editWorkspaceRoot({ workspaceId, transport }, (root) => upsertPageMeta(root, docId, { title: 'Roadmap' }));
+
+    await editWorkspaceRoot({ workspaceId, transport }, async (root) => addPageTag(root, docId, (await createTag(root, 'planning')).id));
+    const root = await loadDoc({ workspaceId, docId: workspaceId, transport });
+    const tag = findTag(root, 'planning')!;
+    expect(listPageMetas(root).find((m) => m.id === docId)?.tags).toEqual([tag.id]);
+    expect((await loadDoc({ workspaceId: 'ws-empty', docId: 'ws-empty', transport, allowEmpty: true })).getMap('meta').size).toBe(0);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+
+import { createDoc, duplicateDoc, editWorkspaceRoot } from '../src/yjs';
+import { readPageTree, plainText } from '../src/blocks';
+import { listPageMetas, upsertPageMeta } from '../src/meta';
+import { parseMarkdown, renderMarkdown } from '../src/markdown';
+import { fillPlaceholders, parseTemplateVars } from '../src/template';
+import { FakeTransport } from './utils/fakeTransport';
+
+const ids = (node: any): string[] => [node.id, ...node.children.flatMap(ids)];
+
+describe('doc duplicate and templates', () => {
+  it('parses --var assignments', () => {
+    expect(parseTemplateVars(['service=api', 'note=a=b', 'empty='])).toEqual({ service: 'api', note: 'a=b', empty: '' });
+    expect(() => parseTemplateVars(['nope'])).toThrow('invalid --var nope');
+  });
+
+  it('duplicates a doc under new block ids and registers it in meta.pages', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-dup-1';
+    const { docId } = await createDoc({ workspaceId, title: 'Runbook', blocks: parseMarkdown('- step one\n  - detail\n\n```sh\nmake\n```'), transport });
+    // An existing workspace already has a root doc listing its pages
+    await editWorkspaceRoot({ workspaceId, transport }, (root) => upsertPageMeta(root, docId, { title: 'Runbook' }));
+
+    const copy = await duplicateDoc({ workspaceId, docId, title: 'Runbook v2', transport });
+    expect(copy.title).toBe('Runbook v2');
+    const source = readPageTree(transport.getDoc(docId))!;
+    const target = readPageTree(transport.getDoc(copy.docId))!;
+    expect(renderMarkdown(target)).toBe(renderMarkdown(source).replace('# Runbook', '# Runbook v2'));
+    expect(ids(target).filter((id) => ids(source).includes(id))).toEqual([]);
+    expect(listPageMetas(transport.getDoc(workspaceId)).map((m) => m.title)).toEqual(['Runbook', 'Runbook v2']);
+  });
+
+  it('fills placeholders keeping their formatting', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-tpl-1';
+    const { docId } = await createDoc({
+      workspaceId,
+      title: 'Incident: {{service}}',
+      blocks: parseMarkdown('Owner: **{{owner}}**\n\n- {{service}} down since {{ start }}\n- {{unknown}}'),
+      transport,
+    });
+
+    let fill: any;
+    const res = await duplicateDoc({
+      workspaceId,
+      docId,
+      transport,
+      transform: async (doc) => {
+        fill = await fillPlaceholders(doc, { service: 'api', owner: 'sam', start: '09:00' });
+      },
+    });
+    expect(fill).toEqual({ replaced: 4, unresolved: ['unknown'] });
+    expect(res.title).toBe('Incident: api');
+    const page = readPageTree(transport.getDoc(res.docId))!;
+    expect(plainText(page.props.title)).toBe('Incident: api');
+    expect(renderMarkdown(page)).toBe('# Incident: api\n\nOwner: **sam**\n\n- api down since 09:00\n- {{unknown}}\n');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../src/graphql', () => ({ getDoc: vi.fn() }));
+
+import { getDoc } from '../src/graphql';
+import { createDoc, editWorkspaceRoot } from '../src/yjs';
+import { getPageMeta, upsertPageMeta } from '../src/meta';
+import { listTrash, purgeDoc, restoreDoc, trashDoc } from '../src/trash';
+import { FakeTransport } from './utils/fakeTransport';
+
+const getDocMock = getDoc as any;
+
+async function seedDoc(transport: FakeTransport, workspaceId: string, title: string): Promise<string> {
+  const { docId } = await createDoc({ workspaceId, title, transport });
+  await editWorkspaceRoot({ workspaceId, transport }, (root) => upsertPageMeta(root, docId, { title }));
+  return docId;
+}
+
+describe('doc trash', () => {
+  beforeEach(() => {
+    getDocMock.mockReset();
+  });
+
+  it('trashes and restores through the page-list entry', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-trash-1';
+    const keep = await seedDoc(transport, workspaceId, 'Keep');
+    const old = await seedDoc(transport, workspaceId, 'Old notes');
+
+    const trashed = await trashDoc({ workspaceId, docId: old, transport });
+    expect(trashed).toMatchObject({ docId: old, title: 'Old notes', changed: true });
+    expect(trashed.trashDate).toEqual(expect.any(Number));
+    expect((await trashDoc({ workspaceId, docId: old, transport })).changed).toBe(false);
+    expect((await listTrash({ workspaceId, transport })).map((m) => m.id)).toEqual([old]);
+    // The doc itself is untouched
+    expect(transport.eventsNamed('space:delete-doc')).toHaveLength(0);
+
+    expect(await restoreDoc({ workspaceId, docId: old, transport })).toEqual({ docId: old, title: 'Old notes', changed: true });
+    expect(getPageMeta(transport.getDoc(workspaceId), old)).not.toHaveProperty('trashDate');
+    expect(await listTrash({ workspaceId, transport })).toEqual([]);
+    await expect(trashDoc({ workspaceId, docId: 'missing', transport })).rejects.toThrow('not registered in workspace meta');
+    expect(getPageMeta(transport.getDoc(workspaceId), keep)?.trash).toBeUndefined();
+  });
+
+  it('purges the doc and its page-list entry once GraphQL no longer returns it', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-trash-2';
+    const docId = await seedDoc(transport, workspaceId, 'Scratch');
+    getDocMock.mockResolvedValueOnce({ id: docId }).mockResolvedValueOnce(null);
+
+    expect(await purgeDoc({ workspaceId, docId, transport, verifyIntervalMs: 0 })).toEqual({ docId, title: 'Scratch' });
+    expect(transport.eventsNamed('space:delete-doc').map((e) => e.payload.docId)).toEqual([docId]);
+    expect(getPageMeta(transport.getDoc(workspaceId), docId)).toBeUndefined();
+    expect(getDocMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails when the doc is still there after purging', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-trash-3';
+    const docId = await seedDoc(transport, workspaceId, 'Sticky');
+    getDocMock.mockResolvedValue({ id: docId });
+
+    await expect(purgeDoc({ workspaceId, docId, transport, verifyAttempts: 2, verifyIntervalMs: 0 })).rejects.toThrow(
+      `doc ${docId} still exists after purge`,
+    );
+
+    getDocMock.mockRejectedValue(new Error('Doc not found'));
+    await expect(purgeDoc({ workspaceId, docId, transport, verifyIntervalMs: 0 })).resolves.toEqual({ docId });
+  });
+});
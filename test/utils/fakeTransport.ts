@@ -0,0 +1,85 @@
+// In-memory RealtimeTransport for unit tests: records emitted events and keeps
+// per-doc Yjs updates so space:load-doc returns the merged state.
+import * as Y from 'yjs';
+
+import type { RealtimeTransport } from '../../src/yjs';
+
+export class FakeTransport implements RealtimeTransport {
+  public events: { event: string; payload: any }[] = [];
+  private updatesByDocId = new Map<string, Uint8Array[]>();
+  private handlers = new Map<string, Set<(payload: any) => void>>();
+
+  async connect(): Promise<void> {
+    // no-op
+  }
+
+  async close(): Promise<void> {
+    // no-op
+  }
+
+  async emit<T = unknown>(event: string, payload?: Record<string, any>): Promise<T | void> {
+    this.events.push({ event, payload });
+
+    if (event === 'space:push-doc-update') {
+      const docId = String(payload?.docId ?? '');
+      const raw = payload?.update;
+      const buf: Buffer = Buffer.isBuffer(raw) ? (raw as Buffer) : Buffer.from(String(raw ?? ''), 'base64');
+      this.seed(docId, new Uint8Array(buf));
+      return { accepted: true, timestamp: Date.now() } as any as T;
+    }
+
+    if (event === 'space:load-doc') {
+      const docId = String(payload?.docId ?? '');
+      const combined = this.getCombinedUpdate(docId);
+      return {
+        missing: Buffer.from(combined).toString('base64'),
+        state: Buffer.alloc(0).toString('base64'),
+        timestamp: Date.now(),
+      } as any as T;
+    }
+
+    // space:join and other events are ignored for tests
+    return undefined;
+  }
+
+  on(event: string, handler: (payload: any) => void): () => void {
+    const set = this.handlers.get(event) ?? new Set();
+    set.add(handler);
+    this.handlers.set(event, set);
+    return () => set.delete(handler);
+  }
+
+  /** Deliver a server-pushed event to subscribers. */
+  broadcast(event: string, payload: any): void {
+    for (const handler of this.handlers.get(event) ?? []) handler(payload);
+  }
+
+  listenerCount(event: string): number {
+    return this.handlers.get(event)?.size ?? 0;
+  }
+
+  /** Store an update for a doc as if another client had pushed it. */
+  seed(docId: string, update: Uint8Array): void {
+    const existing = this.updatesByDocId.get(docId) ?? [];
+    existing.push(update);
+    this.updatesByDocId.set(docId, existing);
+  }
+
+  getCombinedUpdate(docId: string): Uint8Array {
+    const updates = this.updatesByDocId.get(docId) ?? [];
+    if (!updates.length) return new Uint8Array();
+    return Y.encodeStateAsUpdate(this.getDoc(docId));
+  }
+
+  getDoc(docId: string): Y.Doc {
+    const doc = new Y.Doc();
+    for (const u of this.updatesByDocId.get(docId) ?? []) Y.applyUpdate(doc, u);
+    return doc;
+  }
+
+  eventsNamed(event: string): { event: string; payload: any }[] {
+    return this.events.filter((e) => e.event === event);
+  }
+}
+
+export default { FakeTransport };
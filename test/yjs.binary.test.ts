@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import * as Y from 'yjs';
+
+import {
+  appendText,
+  createDoc,
+  formatTransportStats,
+  loadDoc,
+  SocketIoTransport,
+  type PayloadEncoding,
+  type TransportStats,
+} from '../src/yjs';
+import { plainText, readPageTree } from '../src/blocks';
+import { FakeTransport } from './utils/fakeTransport';
+
+// A server that may refuse binary pushes and may answer loads with binary payloads.
+class BinaryTransport extends FakeTransport {
+  encoding: PayloadEncoding = 'binary';
+  stats: TransportStats = { pushes: 0, updateBytes: 0, sentBytes: 0, loads: 0, loadedBytes: 0, fallbacks: 0 };
+
+  constructor(private readonly server: { acceptsBinary: boolean; sendsBinary?: boolean }) {
+    super();
+  }
+
+  async emit<T = unknown>(event: string, payload?: Record<string, any>): Promise<T | void> {
+    if (event === 'space:push-doc-update' && typeof payload?.update !== 'string' && !this.server.acceptsBinary) {
+      this.events.push({ event, payload });
+      return { error: { message: 'update must be a base64 string' } } as any as T;
+    }
+    const res: any = await super.emit<T>(event, payload);
+    if (event === 'space:load-doc' && this.server.sendsBinary) return { ...res, missing: Buffer.from(res.missing, 'base64') } as T;
+    return res;
+  }
+}
+
+const pushPayloads = (transport: FakeTransport) => transport.eventsNamed('space:push-doc-update').map((e) => e.payload.update);
+
+describe('binary payloads', () => {
+  it('sends raw update bytes when the server accepts them', async () => {
+    const transport = new BinaryTransport({ acceptsBinary: true, sendsBinary: true });
+    const workspaceId = 'ws-bin-1';
+    const { docId } = await createDoc({ workspaceId, title: 'Binary', content: 'x'.repeat(3000), transport });
+    await appendText({ workspaceId, docId, text: 'more', transport });
+
+    expect(pushPayloads(transport).every((u) => Buffer.isBuffer(u))).toBe(true);
+    expect(transport.stats).toMatchObject({ pushes: 2, fallbacks: 0 });
+    expect(transport.stats.sentBytes).toBe(transport.stats.updateBytes);
+    expect(formatTransportStats(transport.stats, transport.encoding)).toMatch(/2 push\(es\) .* as binary, saved 2\d% vs base64/);
+
+    const doc = await loadDoc({ workspaceId, docId, transport });
+    expect(plainText(readPageTree(doc)!.props.title)).toBe('Binary');
+    // The (empty) workspace root while registering the doc, the pull before appending, then this load
+    expect(transport.stats.loads).toBe(3);
+    expect(transport.stats.loadedBytes).toBeGreaterThanOrEqual(Y.encodeStateAsUpdate(doc).length);
+  });
+
+  it('falls back to base64 for the connection when the first binary push is rejected', async () => {
+    const transport = new BinaryTransport({ acceptsBinary: false });
+    const workspaceId = 'ws-bin-2';
+    const { docId } = await createDoc({ workspaceId, title: 'Fallback', transport });
+    await appendText({ workspaceId, docId, text: 'still works', transport });
+
+    expect(pushPayloads(transport).map((u) => typeof u)).toEqual(['object', 'string', 'string']);
+    expect(transport.encoding).toBe('base64');
+    expect(transport.stats).toMatchObject({ pushes: 2, fallbacks: 1 });
+    expect(transport.stats.sentBytes).toBeGreaterThan(transport.stats.updateBytes);
+    expect(formatTransportStats(transport.stats, transport.encoding)).toContain('1 binary push(es) rejected, fell back to base64');
+    expect(readPageTree(transport.getDoc(docId))!.children[0].children.map((b) => plainText(b.text))).toEqual(['still works']);
+  });
+
+  it('does not retry rejected pushes once binary has been accepted', async () => {
+    const server = { acceptsBinary: true };
+    const transport = new BinaryTransport(server);
+    const workspaceId = 'ws-bin-3';
+    const { docId } = await createDoc({ workspaceId, title: 'Strict', transport });
+
+    server.acceptsBinary = false;
+    await expect(appendText({ workspaceId, docId, text: 'rejected', transport })).rejects.toThrow('update must be a base64 string');
+    expect(transport.encoding).toBe('binary');
+    expect(pushPayloads(transport)).toHaveLength(2);
+  });
+
+  it('lets callers opt out of binary payloads', () => {
+    expect(new SocketIoTransport({ workspaceId: 'ws', baseUrl: 'http://localhost' }).encoding).toBe('binary');
+    expect(new SocketIoTransport({ workspaceId: 'ws', baseUrl: 'http://localhost', base64Only: true }).encoding).toBe('base64');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import * as Y from 'yjs';
+
+import { createDoc, loadDoc } from '../src/yjs';
+import { readPageTree } from '../src/blocks';
+import { parseMarkdown, renderInline, renderMarkdown } from '../src/markdown';
+import { FakeTransport } from './utils/fakeTransport';
+
+describe('native Markdown export', () => {
+  it('loads a doc over space:load-doc and renders headings, nested lists, code, todos and tables', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-export-1';
+    const source = [
+      '## Overview',
+      '',
+      'Some **bold** and *italic* text with `code` and a [link](https://example.com).',
+      '',
+      '- parent',
+      '  - child',
+      '- [x] shipped',
+      '- [ ] pending',
+      '',
+      '1. one',
+      '2. two',
+      '',
+      '```ts',
+      'const a = 1;',
+      '```',
+      '',
+      '> quoted',
+      '',
+      '---',
+      '',
+      '| Name | Role |',
+      '| --- | --- |',
+      '| Ada | lead |',
+    ].join('\n');
+
+    const { docId } = await createDoc({ workspaceId, title: 'Export Me', blocks: parseMarkdown(source), transport } as any);
+    const doc = await loadDoc({ workspaceId, docId, transport } as any);
+    const page = readPageTree(doc);
+    expect(page).not.toBeNull();
+
+    const md = renderMarkdown(page!);
+    expect(md).toBe(`# Export Me\n\n${source}\n`);
+    expect(renderMarkdown(page!, { includeTitle: false }).startsWith('## Overview')).toBe(true);
+  });
+
+  it('renders images as blob references and linked docs as [[docId]]', () => {
+    const doc = new Y.Doc();
+    const blocks = doc.getMap('blocks');
+    const mk = (id: string, flavour: string, props: Record<string, any>, children: string[] = []) => {
+      const m = new Y.Map<any>();
+      m.set('sys:id', id);
+      m.set('sys:flavour', flavour);
+      m.set('sys:children', Y.Array.from(children));
+      for (const [k, v] of Object.entries(props)) m.set(`prop:${k}`, v);
+      blocks.set(id, m);
+    };
+    const para = new Y.Text();
+    para.insert(0, 'see ');
+    para.insert(4, ' ', { reference: { type: 'LinkedPage', pageId: 'doc-b' } });
+    mk('page', 'affine:page', {}, ['note']);
+    mk('note', 'affine:note', {}, ['img', 'p', 'embed']);
+    mk('img', 'affine:image', { sourceId: 'blob-key-1', caption: 'diagram' });
+    mk('p', 'affine:paragraph', { type: 'text', text: para });
+    mk('embed', 'affine:embed-linked-doc', { pageId: 'doc-c' });
+
+    const md = renderMarkdown(readPageTree(doc)!, { blobUrl: (id) => `blobs/${id}` });
+    expect(md).toBe('![diagram](blobs/blob-key-1)\n\nsee [[doc-b]]\n\n[[doc-c]]\n');
+  });
+
+  it('renderInline escapes Markdown punctuation and keeps whitespace outside emphasis', () => {
+    expect(renderInline([{ insert: '2 * 3 = [x]' }])).toBe('2 \\* 3 = \\[x\\]');
+    expect(renderInline([{ insert: 'snake_case' }])).toBe('snake_case');
+    expect(renderInline([{ insert: ' bold ', attributes: { bold: true } }])).toBe(' **bold** ');
+    expect(renderInline([
+      { insert: 'a', attributes: { bold: true } },
+      { insert: 'b', attributes: { bold: true, italic: true } },
+    ])).toBe('**a*b***');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import * as Y from 'yjs';
+
+import { appendText, createDoc } from '../src/yjs';
+import { parseMarkdown, parseMarkdownPage } from '../src/markdown';
+import { readPageTree } from '../src/blocks';
+import { FakeTransport } from './utils/fakeTransport';
+
+function childrenOf(blocks: any, id: string): string[] {
+  return (blocks.get(id)?.get('sys:children') as any)?.toArray() ?? [];
+}
+
+describe('createDoc with Markdown blocks', () => {
+  it('writes parsed blocks under the note with delta-formatted Y.Text', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-import-1';
+    const seedRoot = new Y.Doc();
+    seedRoot.getMap('meta').set('pages', new Y.Array());
+    transport.seed(workspaceId, Y.encodeStateAsUpdate(seedRoot));
+    const page = parseMarkdownPage('# Runbook\n\n## Steps\n\n- **first**\n  - nested\n\n---\n');
+
+    const { docId } = await createDoc({ workspaceId, title: page.title!, blocks: page.blocks, transport } as any);
+
+    const doc = transport.getDoc(docId);
+    const blocks = doc.getMap('blocks');
+    const noteChildren = childrenOf(blocks, `note:${docId}`);
+    expect(noteChildren.map((id) => (blocks.get(id) as any).get('sys:flavour'))).toEqual([
+      'affine:paragraph',
+      'affine:list',
+      'affine:divider',
+    ]);
+
+    const heading: any = blocks.get(noteChildren[0]);
+    expect(heading.get('prop:type')).toBe('h2');
+    const list: any = blocks.get(noteChildren[1]);
+    expect(list.get('prop:text').toDelta()).toEqual([{ insert: 'first', attributes: { bold: true } }]);
+    const [nestedId] = childrenOf(blocks, noteChildren[1]);
+    expect((blocks.get(nestedId) as any).get('prop:text').toString()).toBe('nested');
+
+    // Title registered in the workspace root meta.pages like a regular createDoc
+    const root = transport.getDoc(workspaceId);
+    const pages = (root.getMap('meta').get('pages') as any)?.toArray() ?? [];
+    expect(pages.map((p: any) => [p.get('id'), p.get('title')])).toContainEqual([docId, 'Runbook']);
+  });
+
+  it('appends Markdown blocks with inline formatting instead of a plain paragraph', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-append-md';
+    const { docId } = await createDoc({ workspaceId, title: 'Status', content: 'intro', transport });
+
+    await appendText({ workspaceId, docId, text: 'ignored', blocks: parseMarkdown('Deploy **done** for [[doc-2]], ping @[u1]'), transport });
+
+    const note = readPageTree(transport.getDoc(docId))!.children[0];
+    expect(note.children).toHaveLength(2);
+    expect(note.children[1].text).toEqual([
+      { insert: 'Deploy ' },
+      { insert: 'done', attributes: { bold: true } },
+      { insert: ' for ' },
+      { insert: ' ', attributes: { reference: { type: 'LinkedPage', pageId: 'doc-2' } } },
+      { insert: ', ping ' },
+      { insert: ' ', attributes: { mention: { member: 'u1' } } },
+    ]);
+  });
+});
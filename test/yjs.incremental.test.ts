@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import * as Y from 'yjs';
+
+import { appendText, createDoc, editDoc, editWorkspaceRoot, RealtimeSession } from '../src/yjs';
+import { plainText, readPageTree, removeBlocks, updateBlock } from '../src/blocks';
+import { listPageMetas, upsertPageMeta } from '../src/meta';
+import { parseMarkdown, renderMarkdown } from '../src/markdown';
+import { FakeTransport } from './utils/fakeTransport';
+
+// Size of the last update pushed for a doc, in bytes.
+function lastPushBytes(transport: FakeTransport, docId: string): number {
+  const pushes = transport.eventsNamed('space:push-doc-update').filter((e) => e.payload.docId === docId);
+  return Buffer.from(pushes[pushes.length - 1].payload.update, 'base64').length;
+}
+
+const fullStateBytes = (transport: FakeTransport, docId: string) => Y.encodeStateAsUpdate(transport.getDoc(docId)).length;
+
+async function seedLargePage(transport: FakeTransport, workspaceId: string): Promise<string> {
+  const markdown = Array.from({ length: 300 }, (_, i) => `Paragraph ${i} with enough text to make the page large.`).join('\n\n');
+  const { docId } = await createDoc({ workspaceId, title: 'Large', blocks: parseMarkdown(markdown), transport });
+  return docId;
+}
+
+describe('incremental updates', () => {
+  it('appendText pushes only the new paragraph', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-inc-1';
+    const docId = await seedLargePage(transport, workspaceId);
+
+    await appendText({ workspaceId, docId, text: 'appended', transport });
+    expect(lastPushBytes(transport, docId)).toBeLessThan(fullStateBytes(transport, docId) / 50);
+    expect(renderMarkdown(readPageTree(transport.getDoc(docId))!).trimEnd().endsWith('appended')).toBe(true);
+  });
+
+  it('editDoc pushes only the edit, including delete-only edits', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-inc-2';
+    const docId = await seedLargePage(transport, workspaceId);
+    const first = () => readPageTree(transport.getDoc(docId))!.children[0].children[0];
+
+    await editDoc({ workspaceId, docId, transport }, (doc) => updateBlock(doc, readPageTree(doc)!.children[0].children[0].id, { text: [{ insert: 'edited' }] }));
+    expect(lastPushBytes(transport, docId)).toBeLessThan(fullStateBytes(transport, docId) / 50);
+    expect(plainText(first().text)).toBe('edited');
+
+    const removed = first().id;
+    const res = await editDoc({ workspaceId, docId, transport }, (doc) => removeBlocks(doc, [removed]));
+    expect(res.changed).toBe(true);
+    expect(lastPushBytes(transport, docId)).toBeLessThan(fullStateBytes(transport, docId) / 50);
+    expect(first().id).not.toBe(removed);
+  });
+
+  it('keeps pushes small across edits in one session', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-inc-3';
+    const docId = await seedLargePage(transport, workspaceId);
+    const session = new RealtimeSession({ workspaceId, transport });
+    await appendText({ workspaceId, docId, text: 'one', transport, session });
+    await appendText({ workspaceId, docId, text: 'two', transport, session });
+    await session.close();
+
+    const pushes = transport.eventsNamed('space:push-doc-update').filter((e) => e.payload.docId === docId).slice(-2);
+    const sizes = pushes.map((e) => Buffer.from(e.payload.update, 'base64').length);
+    expect(Math.max(...sizes)).toBeLessThan(fullStateBytes(transport, docId) / 50);
+    expect(renderMarkdown(readPageTree(transport.getDoc(docId))!).trimEnd().endsWith('one\n\ntwo')).toBe(true);
+  });
+
+  it('registers new docs in a large page list with a small root update', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-inc-4';
+    await editWorkspaceRoot({ workspaceId, transport }, async (root) => {
+      for (let i = 0; i < 300; i++) await upsertPageMeta(root, `existing-${i}`, { title: `Existing page ${i}` });
+    });
+
+    const { docId } = await createDoc({ workspaceId, title: 'Fresh', transport });
+    expect(lastPushBytes(transport, workspaceId)).toBeLessThan(fullStateBytes(transport, workspaceId) / 50);
+    expect(listPageMetas(transport.getDoc(workspaceId)).pop()).toMatchObject({ id: docId, title: 'Fresh' });
+  });
+});
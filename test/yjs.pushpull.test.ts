@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import * as Y from 'yjs';
+
+import { createDoc, loadDoc, pushDocUpdate } from '../src/yjs';
+import { findNoteBlockId, insertBlocks, plainText, readPageTree } from '../src/blocks';
+import { FakeTransport } from './utils/fakeTransport';
+
+describe('doc pull/push', () => {
+  it('sends nothing for an unchanged snapshot and only the diff for offline edits', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-push-1';
+    const { docId } = await createDoc({ workspaceId, title: 'Offline', content: 'hello', transport });
+
+    // "pull": the raw state as loaded from the server
+    const pulled = Y.encodeStateAsUpdate(await loadDoc({ workspaceId, docId, transport }));
+    expect(await pushDocUpdate({ workspaceId, docId, update: pulled, transport })).toEqual({ sent: false, bytes: 0, accepted: true });
+    expect(transport.eventsNamed('space:push-doc-update')).toHaveLength(1); // just createDoc
+
+    const local = new Y.Doc();
+    Y.applyUpdate(local, pulled);
+    await insertBlocks(local, findNoteBlockId(local)!, [{ flavour: 'affine:paragraph', props: { type: 'text' }, text: [{ insert: 'offline' }] }]);
+    const edited = Y.encodeStateAsUpdate(local);
+
+    const res = await pushDocUpdate({ workspaceId, docId, update: edited, transport });
+    expect(res.sent).toBe(true);
+    expect(res.bytes).toBeLessThan(edited.length);
+    const pushed = transport.eventsNamed('space:push-doc-update');
+    expect(Buffer.from(pushed[pushed.length - 1].payload.update, 'base64')).toHaveLength(res.bytes);
+    const page = readPageTree(transport.getDoc(docId))!;
+    expect(page.children[0].children.map((b) => plainText(b.text))).toEqual(['hello', 'offline']);
+  });
+
+  it('creates the doc when the server does not have it', async () => {
+    const transport = new FakeTransport();
+    const source = new FakeTransport();
+    const { docId } = await createDoc({ workspaceId: 'ws-src', title: 'Copied', content: 'body', transport: source });
+    const update = source.getCombinedUpdate(docId);
+
+    const res = await pushDocUpdate({ workspaceId: 'ws-push-2', docId, update, transport });
+    expect(res).toMatchObject({ sent: true, bytes: update.length });
+    expect(plainText(readPageTree(transport.getDoc(docId))!.props.title)).toBe('Copied');
+  });
+});
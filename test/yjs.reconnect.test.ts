@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Minimal stand-in for a socket.io-client socket whose server side the test drives.
+const sockets = vi.hoisted(() => {
+  type Handler = (...args: any[]) => void;
+  class FakeSocket {
+    active = true;
+    sent: Array<{ event: string; payload: any }> = [];
+    /** Ack for an emitted event; undefined leaves it unanswered. */
+    server: (event: string, payload: any) => any = () => ({ data: {} });
+    private handlers = new Map<string, Set<Handler>>();
+    private managerHandlers = new Map<string, Set<Handler>>();
+    io = {
+      on: (event: string, handler: Handler) => {
+        const set = this.managerHandlers.get(event) ?? new Set();
+        set.add(handler);
+        this.managerHandlers.set(event, set);
+      },
+    };
+
+    on(event: string, handler: Handler) {
+      const set = this.handlers.get(event) ?? new Set();
+      set.add(handler);
+      this.handlers.set(event, set);
+    }
+
+    off(event: string, handler: Handler) {
+      this.handlers.get(event)?.delete(handler);
+    }
+
+    once(event: string, handler: Handler) {
+      const wrapped = (...args: any[]) => {
+        this.off(event, wrapped);
+        handler(...args);
+      };
+      this.on(event, wrapped);
+    }
+
+    emit(event: string, payload: any, ack?: Handler) {
+      this.sent.push({ event, payload });
+      const res = this.server(event, payload);
+      if (res !== undefined) queueMicrotask(() => ack?.(res));
+    }
+
+    fire(event: string, ...args: any[]) {
+      for (const handler of [...(this.handlers.get(event) ?? [])]) handler(...args);
+    }
+
+    fireManager(event: string, ...args: any[]) {
+      for (const handler of [...(this.managerHandlers.get(event) ?? [])]) handler(...args);
+    }
+
+    disconnect() {
+      this.active = false;
+      this.fire('disconnect', 'io client disconnect');
+    }
+  }
+  return { FakeSocket, created: [] as InstanceType<typeof FakeSocket>[], options: [] as any[] };
+});
+
+vi.mock('socket.io-client', () => ({
+  io: (_url: string, options: any) => {
+    const socket = new sockets.FakeSocket();
+    sockets.created.push(socket);
+    sockets.options.push(options);
+    return socket;
+  },
+}));
+
+import { isConnectionError, SocketIoTransport } from '../src/yjs';
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+async function connected(opts: { reconnectAttempts?: number } = {}) {
+  const transport = new SocketIoTransport({ workspaceId: 'ws', baseUrl: 'http://localhost', timeoutMs: 1000, ...opts });
+  const before = sockets.created.length;
+  const connecting = transport.connect();
+  // connect() imports socket.io-client before creating the socket
+  await vi.waitFor(() => expect(sockets.created.length).toBe(before + 1));
+  const socket = sockets.created[before];
+  return { transport, socket, connecting };
+}
+
+describe('SocketIoTransport reconnection', () => {
+  it('retries failed connects with backoff and gives up after the configured attempts', async () => {
+    const first = await connected({ reconnectAttempts: 2 });
+    first.socket.fire('connect_error', Object.assign(new Error('websocket error'), { type: 'TransportError' }));
+    first.socket.fire('connect');
+    await first.connecting;
+    expect(sockets.options[sockets.options.length - 1]).toMatchObject({ reconnection: true, reconnectionAttempts: 2 });
+
+    const failing = await connected({ reconnectAttempts: 1 });
+    const err = Object.assign(new Error('websocket error'), { type: 'TransportError' });
+    failing.socket.fire('connect_error', err);
+    failing.socket.fire('connect_error', err);
+    await expect(failing.connecting).rejects.toSatisfy(isConnectionError);
+    // The reconnection loop is stopped so the process can exit
+    expect(failing.socket.active).toBe(false);
+
+    // Rejected handshakes (inactive socket) fail right away
+    const denied = await connected();
+    denied.socket.active = false;
+    denied.socket.fire('connect_error', new Error('unauthorized'));
+    await expect(denied.connecting).rejects.toThrow('unauthorized');
+  });
+
+  it('fails in-flight acks, holds new emits and re-joins after a reconnect', async () => {
+    const { transport, socket, connecting } = await connected();
+    socket.fire('connect');
+    await connecting;
+    await transport.emit('space:join', { spaceType: 'workspace', spaceId: 'ws', clientVersion: '1.0.0' });
+    const reconnected = vi.fn();
+    transport.onReconnect(reconnected);
+
+    socket.server = (event) => (event === 'space:push-doc-update' ? undefined : { data: {} });
+    const push = transport.emit('space:push-doc-update', { docId: 'd1' });
+    await tick();
+    socket.fire('disconnect', 'transport close');
+    await expect(push).rejects.toMatchObject({ code: 'ECONNRESET' });
+
+    socket.server = () => ({ data: { ok: true } });
+    const load = transport.emit('space:load-doc', { docId: 'd1' });
+    await tick();
+    expect(socket.sent.map((s) => s.event)).toEqual(['space:join', 'space:push-doc-update']);
+
+    socket.fire('connect');
+    await expect(load).resolves.toEqual({ ok: true });
+    expect(socket.sent.map((s) => s.event)).toEqual(['space:join', 'space:push-doc-update', 'space:join', 'space:load-doc']);
+    expect(socket.sent[2].payload).toMatchObject({ spaceId: 'ws' });
+    await tick();
+    expect(reconnected).toHaveBeenCalledTimes(1);
+
+    await transport.close();
+  });
+
+  it('fails waiting emits once reconnecting gives up', async () => {
+    const { transport, socket, connecting } = await connected({ reconnectAttempts: 3 });
+    socket.fire('connect');
+    await connecting;
+
+    socket.fire('disconnect', 'ping timeout');
+    const load = transport.emit('space:load-doc', { docId: 'd1' });
+    socket.fireManager('reconnect_failed');
+    await expect(load).rejects.toThrow('realtime connection lost after 3 reconnect attempt(s)');
+
+    // A server-side disconnect is not retried at all
+    const other = await connected();
+    other.socket.fire('connect');
+    await other.connecting;
+    other.socket.active = false;
+    other.socket.fire('disconnect', 'io server disconnect');
+    await expect(other.transport.emit('space:load-doc', { docId: 'd1' })).rejects.toSatisfy(isConnectionError);
+  });
+});
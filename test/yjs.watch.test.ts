@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import * as Y from 'yjs';
+
+import { createDoc, watchDoc } from '../src/yjs';
+import { diffBlockSnapshots, findNoteBlockId, insertBlocks, snapshotBlocks, type BlockChange } from '../src/blocks';
+import { FakeTransport } from './utils/fakeTransport';
+
+// Apply an edit on a separate replica and return just the resulting update.
+async function remoteEdit(transport: FakeTransport, docId: string, edit: (doc: Y.Doc) => Promise<void> | void): Promise<Uint8Array> {
+  const replica = transport.getDoc(docId);
+  const sv = Y.encodeStateVector(replica);
+  await edit(replica);
+  const update = Y.encodeStateAsUpdate(replica, sv);
+  transport.seed(docId, update);
+  return update;
+}
+
+describe('doc watch', () => {
+  it('applies broadcast updates and reports block-level changes', async () => {
+    const transport = new FakeTransport();
+    const workspaceId = 'ws-watch-1';
+    const { docId } = await createDoc({ workspaceId, title: 'Live', content: 'hello', transport });
+
+    const controller = new AbortController();
+    const feed: BlockChange[][] = [];
+    let snapshot = new Map();
+    let ready!: () => void;
+    const readyP = new Promise<void>((r) => (ready = r));
+    const done = watchDoc({
+      workspaceId,
+      docId,
+      transport,
+      signal: controller.signal,
+      onReady: (doc) => {
+        snapshot = snapshotBlocks(doc);
+        ready();
+      },
+      onUpdate: (doc) => {
+        const next = snapshotBlocks(doc);
+        feed.push(diffBlockSnapshots(snapshot, next));
+        snapshot = next;
+      },
+    });
+    await readyP;
+
+    let addedId = '';
+    const add = await remoteEdit(transport, docId, async (doc) => {
+      [addedId] = await insertBlocks(doc, findNoteBlockId(doc)!, [
+        { flavour: 'affine:list', props: { type: 'todo', checked: false }, text: [{ insert: 'ship it' }] },
+      ]);
+    });
+    transport.broadcast('space:broadcast-doc-update', {
+      spaceId: workspaceId,
+      docId,
+      update: Buffer.from(add).toString('base64'),
+      timestamp: 1,
+    });
+    // Updates for other docs are ignored
+    transport.broadcast('space:broadcast-doc-update', { spaceId: workspaceId, docId: 'other', update: Buffer.from(add).toString('base64') });
+
+    const edit = await remoteEdit(transport, docId, (doc) => {
+      const block: any = doc.getMap('blocks').get(addedId);
+      block.get('prop:text').insert(7, '!');
+      block.set('prop:checked', true);
+    });
+    transport.broadcast('space:broadcast-doc-updates', { spaceId: workspaceId, docId, updates: [Buffer.from(edit).toString('base64')] });
+
+    controller.abort();
+    await done;
+
+    expect(feed).toEqual([
+      [{ type: 'added', blockId: addedId, flavour: 'affine:list', parentId: `note:${docId}`, text: 'ship it' }],
+      [
+        { type: 'text', blockId: addedId, flavour: 'affine:list', text: 'ship it!' },
+        { type: 'props', blockId: addedId, flavour: 'affine:list', props: ['checked'] },
+      ],
+    ]);
+    expect(transport.listenerCount('space:broadcast-doc-update')).toBe(0);
+  });
+
+  it('reports removed blocks', () => {
+    const doc = new Y.Doc();
+    const blocks = doc.getMap<any>('blocks');
+    const para = new Y.Map();
+    para.set('sys:flavour', 'affine:paragraph');
+    blocks.set('p1', para);
+    const before = snapshotBlocks(doc);
+    blocks.delete('p1');
+    expect(diffBlockSnapshots(before, snapshotBlocks(doc))).toEqual([{ type: 'removed', blockId: 'p1', flavour: 'affine:paragraph' }]);
+  });
+});